@@ -6,6 +6,7 @@ self.addEventListener('push', function(event) {
       icon: '/favicon.ico',
       badge: '/favicon.ico',
       vibrate: [200, 100, 200],
+      tag: data.tag,
       data: {
         url: data.url || '/',
       },
@@ -22,3 +23,55 @@ self.addEventListener('notificationclick', function(event) {
     clients.openWindow(event.notification.data.url)
   );
 });
+
+// Configuration passed by registerServiceWorker() in src/lib/pushNotifications.ts
+const config = new URL(self.location).searchParams;
+const ENDPOINT_CACHE = 'push-subscription';
+const ENDPOINT_CACHE_KEY = '/current-endpoint';
+
+function urlBase64ToUint8Array(base64String) {
+  const padding = '='.repeat((4 - base64String.length % 4) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = atob(base64);
+  return Uint8Array.from(rawData, (char) => char.charCodeAt(0));
+}
+
+// The browser rotated or expired the subscription: subscribe again and swap
+// the stored endpoint so pushes keep reaching this device.
+self.addEventListener('pushsubscriptionchange', function(event) {
+  event.waitUntil((async () => {
+    const cache = await caches.open(ENDPOINT_CACHE);
+    const cached = await cache.match(ENDPOINT_CACHE_KEY);
+    const oldEndpoint = event.oldSubscription
+      ? event.oldSubscription.endpoint
+      : cached && await cached.text();
+
+    // Push was never enabled here, or was turned off
+    if (!oldEndpoint) return;
+
+    const subscription = event.newSubscription || await self.registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(config.get('vapidPublicKey')),
+    });
+    const data = subscription.toJSON();
+
+    const response = await fetch(`${config.get('supabaseUrl')}/rest/v1/rpc/rotate_push_subscription`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: config.get('supabaseKey'),
+        Authorization: `Bearer ${config.get('supabaseKey')}`,
+      },
+      body: JSON.stringify({
+        _old_endpoint: oldEndpoint,
+        _endpoint: data.endpoint,
+        _p256dh: data.keys.p256dh,
+        _auth: data.keys.auth,
+      }),
+    });
+
+    if (response.ok) {
+      await cache.put(ENDPOINT_CACHE_KEY, new Response(data.endpoint));
+    }
+  })());
+});
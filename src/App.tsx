@@ -11,6 +11,10 @@ import Checkout from "./pages/Checkout";
 import Orders from "./pages/Orders";
 import OrderTracking from "./pages/OrderTracking";
 import Admin from "./pages/Admin";
+import Kitchen from "./pages/Kitchen";
+import Rider from "./pages/Rider";
+import Addresses from "./pages/Addresses";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -29,7 +33,11 @@ const App = () => (
               <Route path="/checkout" element={<Checkout />} />
               <Route path="/orders" element={<Orders />} />
               <Route path="/orders/:id" element={<OrderTracking />} />
+              <Route path="/addresses" element={<Addresses />} />
+              <Route path="/settings" element={<Settings />} />
               <Route path="/admin" element={<Admin />} />
+              <Route path="/kitchen" element={<Kitchen />} />
+              <Route path="/rider" element={<Rider />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+
+const OTHER_REASON = 'other';
+
+interface CancelOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reasons: string[];
+  // Resolves to true when the order was cancelled; the dialog stays open otherwise
+  onConfirm: (reason: string) => Promise<boolean>;
+}
+
+export const CancelOrderDialog = ({ open, onOpenChange, reasons, onConfirm }: CancelOrderDialogProps) => {
+  const [selected, setSelected] = useState('');
+  const [otherReason, setOtherReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const reason = selected === OTHER_REASON ? otherReason.trim() : selected;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setSelected('');
+      setOtherReason('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      if (await onConfirm(reason)) {
+        handleOpenChange(false);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Order</DialogTitle>
+          <DialogDescription>Please tell us why this order is being cancelled.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <RadioGroup value={selected} onValueChange={setSelected}>
+            {reasons.map(option => (
+              <div key={option} className="flex items-center gap-3">
+                <RadioGroupItem value={option} id={`reason-${option}`} />
+                <Label htmlFor={`reason-${option}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+            <div className="flex items-center gap-3">
+              <RadioGroupItem value={OTHER_REASON} id="reason-other" />
+              <Label htmlFor="reason-other" className="font-normal">Other</Label>
+            </div>
+          </RadioGroup>
+          {selected === OTHER_REASON && (
+            <Textarea
+              placeholder="Reason for cancelling"
+              value={otherReason}
+              onChange={(e) => setOtherReason(e.target.value)}
+              rows={2}
+            />
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Keep Order
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!reason || submitting}>
+            {submitting ? 'Cancelling...' : 'Cancel Order'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
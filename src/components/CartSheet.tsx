@@ -4,10 +4,14 @@ import { ShoppingCart, Minus, Plus, Trash2 } from 'lucide-react';
 import { useCart } from '@/contexts/CartContext';
 import { Badge } from '@/components/ui/badge';
 import { useNavigate } from 'react-router-dom';
+import { formatModifiers } from '@/lib/modifiers';
+import { describeStoreStatus } from '@/lib/storeStatus';
+import { useStoreStatus } from '@/hooks/useStoreStatus';
 
 export const CartSheet = () => {
   const { items, updateQuantity, removeItem, total, itemCount } = useCart();
   const navigate = useNavigate();
+  const { status, isOpen } = useStoreStatus();
 
   return (
     <Sheet>
@@ -32,9 +36,15 @@ export const CartSheet = () => {
             <>
               <div className="space-y-3 max-h-[60vh] overflow-auto">
                 {items.map(item => (
-                  <div key={item.id} className="flex gap-3 p-3 rounded-lg border">
+                  <div key={item.lineId} className="flex gap-3 p-3 rounded-lg border">
                     <div className="flex-1">
                       <h4 className="font-medium">{item.title}</h4>
+                      {item.variantName && (
+                        <p className="text-xs text-muted-foreground">{item.variantName}</p>
+                      )}
+                      {item.modifiers && item.modifiers.length > 0 && (
+                        <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                      )}
                       <p className="text-sm text-muted-foreground">₹{item.price}</p>
                     </div>
                     <div className="flex flex-col items-end gap-2">
@@ -43,7 +53,7 @@ export const CartSheet = () => {
                           size="icon"
                           variant="outline"
                           className="h-7 w-7"
-                          onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                          onClick={() => updateQuantity(item.lineId, item.quantity - 1)}
                         >
                           <Minus className="h-3 w-3" />
                         </Button>
@@ -52,7 +62,7 @@ export const CartSheet = () => {
                           size="icon"
                           variant="outline"
                           className="h-7 w-7"
-                          onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                          onClick={() => updateQuantity(item.lineId, item.quantity + 1)}
                         >
                           <Plus className="h-3 w-3" />
                         </Button>
@@ -61,7 +71,7 @@ export const CartSheet = () => {
                         size="icon"
                         variant="ghost"
                         className="h-7 w-7"
-                        onClick={() => removeItem(item.id)}
+                        onClick={() => removeItem(item.lineId)}
                       >
                         <Trash2 className="h-4 w-4" />
                       </Button>
@@ -74,9 +84,18 @@ export const CartSheet = () => {
                   <span>Total:</span>
                   <span className="text-primary">₹{total.toFixed(2)}</span>
                 </div>
+                {status && !isOpen && (
+                  <p className="text-sm text-destructive text-center">
+                    {describeStoreStatus(status)}
+                    {status.reason !== 'paused' && (
+                      <span className="block text-muted-foreground">You can still schedule a delivery for later</span>
+                    )}
+                  </p>
+                )}
                 <Button 
                   className="w-full" 
                   size="lg"
+                  disabled={status?.reason === 'paused'}
                   onClick={() => {
                     navigate('/checkout');
                   }}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+
+export const CashOnDeliverySettings = () => {
+  const { settings, loading, refresh } = useRestaurantSettings();
+  const [form, setForm] = useState({ enabled: true, max_order_total: '', min_delivered_orders: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!settings) return;
+    setForm({
+      enabled: settings.cod_enabled,
+      max_order_total: settings.cod_max_order_total !== null ? String(settings.cod_max_order_total) : '',
+      min_delivered_orders: String(settings.cod_min_delivered_orders),
+    });
+  }, [settings]);
+
+  const handleSave = async () => {
+    const maxOrderTotal = form.max_order_total.trim() ? parseFloat(form.max_order_total) : null;
+    const minDeliveredOrders = parseInt(form.min_delivered_orders, 10);
+
+    if (maxOrderTotal !== null && (isNaN(maxOrderTotal) || maxOrderTotal <= 0)) {
+      toast.error('Please enter a valid maximum order total');
+      return;
+    }
+
+    if (isNaN(minDeliveredOrders) || minDeliveredOrders < 0) {
+      toast.error('Please enter how many delivered orders are needed, or 0');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('restaurant_settings')
+        .update({
+          cod_enabled: form.enabled,
+          cod_max_order_total: maxOrderTotal,
+          cod_min_delivered_orders: minDeliveredOrders,
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast.success('Cash on delivery settings saved');
+      refresh();
+    } catch (error) {
+      toast.error(error.message || 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-bold">Cash on Delivery</h3>
+          <p className="text-sm text-muted-foreground">
+            Let customers pay the rider in cash instead of paying online.
+          </p>
+        </div>
+        <Switch
+          checked={form.enabled}
+          onCheckedChange={(checked) => setForm({ ...form, enabled: checked })}
+        />
+      </div>
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label htmlFor="cod-max-total">Maximum Order Total (₹)</Label>
+          <Input
+            id="cod-max-total"
+            type="number"
+            step="0.01"
+            placeholder="Leave empty for no limit"
+            value={form.max_order_total}
+            disabled={!form.enabled}
+            onChange={(e) => setForm({ ...form, max_order_total: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="cod-min-delivered">Delivered Orders Needed First</Label>
+          <Input
+            id="cod-min-delivered"
+            type="number"
+            value={form.min_delivered_orders}
+            disabled={!form.enabled}
+            onChange={(e) => setForm({ ...form, min_delivered_orders: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            1 means first-time customers pay online; 0 offers cash to everyone
+          </p>
+        </div>
+      </div>
+      <Button onClick={handleSave} disabled={saving}>
+        {saving ? 'Saving...' : 'Save'}
+      </Button>
+    </Card>
+  );
+};
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface CashRow {
+  collector_id: string;
+  full_name: string | null;
+  phone: string | null;
+  order_count: number;
+  cash_collected: number;
+  cash_handed_over: number;
+}
+
+// Cash from COD orders per rider for one day, against what they handed in
+export const CashReconciliation = () => {
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [rows, setRows] = useState<CashRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Amounts being recorded as handed in, by collector
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  const fetchRows = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_cash_reconciliation', { _date: date });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching cash reconciliation:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  const handleRecord = async (row: CashRow) => {
+    const amount = parseFloat(amounts[row.collector_id] ?? '');
+
+    if (isNaN(amount) || amount <= 0) {
+      toast.error('Please enter the amount handed in');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('cash_handovers')
+        .insert({ collector_id: row.collector_id, business_date: date, amount });
+
+      if (error) throw error;
+
+      toast.success('Handover recorded');
+      setAmounts(current => ({ ...current, [row.collector_id]: '' }));
+      fetchRows();
+    } catch (error) {
+      toast.error(error.message || 'Failed to record handover');
+    }
+  };
+
+  const totalCollected = rows.reduce((sum, row) => sum + Number(row.cash_collected), 0);
+  const totalHandedOver = rows.reduce((sum, row) => sum + Number(row.cash_handed_over), 0);
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold">Cash Reconciliation</h3>
+          <p className="text-sm text-muted-foreground">
+            Cash collected on delivery, and what each rider has handed in.
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="cash-date">Day</Label>
+          <Input
+            id="cash-date"
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-center py-6">Loading...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No cash collected on this day</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Collected by</TableHead>
+              <TableHead className="text-right">Orders</TableHead>
+              <TableHead className="text-right">Collected</TableHead>
+              <TableHead className="text-right">Handed in</TableHead>
+              <TableHead className="text-right">Outstanding</TableHead>
+              <TableHead>Record handover</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => {
+              const outstanding = Number(row.cash_collected) - Number(row.cash_handed_over);
+              return (
+                <TableRow key={row.collector_id}>
+                  <TableCell>
+                    <p className="font-medium">{row.full_name || 'Unnamed'}</p>
+                    <p className="text-xs text-muted-foreground">{row.phone}</p>
+                  </TableCell>
+                  <TableCell className="text-right">{row.order_count}</TableCell>
+                  <TableCell className="text-right">₹{Number(row.cash_collected).toFixed(2)}</TableCell>
+                  <TableCell className="text-right">₹{Number(row.cash_handed_over).toFixed(2)}</TableCell>
+                  <TableCell className={`text-right font-medium ${outstanding !== 0 ? 'text-destructive' : ''}`}>
+                    ₹{outstanding.toFixed(2)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        className="w-28"
+                        placeholder={outstanding > 0 ? outstanding.toFixed(2) : ''}
+                        value={amounts[row.collector_id] ?? ''}
+                        onChange={(e) => setAmounts(current => ({ ...current, [row.collector_id]: e.target.value }))}
+                      />
+                      <Button size="sm" variant="outline" onClick={() => handleRecord(row)}>
+                        Record
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total</TableCell>
+              <TableCell className="text-right">{rows.reduce((sum, row) => sum + row.order_count, 0)}</TableCell>
+              <TableCell className="text-right">₹{totalCollected.toFixed(2)}</TableCell>
+              <TableCell className="text-right">₹{totalHandedOver.toFixed(2)}</TableCell>
+              <TableCell className="text-right">₹{(totalCollected - totalHandedOver).toFixed(2)}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableFooter>
+        </Table>
+      )}
+    </Card>
+  );
+};
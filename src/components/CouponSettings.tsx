@@ -0,0 +1,365 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Tag } from 'lucide-react';
+
+interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: 'percentage' | 'flat';
+  discount_value: number;
+  min_subtotal: number;
+  max_discount: number | null;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  first_order_only: boolean;
+  categories: string[];
+  menu_item_ids: string[];
+  is_active: boolean;
+  // Orders that used the code, as [{ count }]
+  orders: { count: number }[];
+}
+
+interface CouponSettingsProps {
+  menuItems: Array<{ id: string; title: string; category: string }>;
+}
+
+const EMPTY_FORM = {
+  code: '',
+  description: '',
+  discount_type: 'percentage' as Coupon['discount_type'],
+  discount_value: '',
+  min_subtotal: '',
+  max_discount: '',
+  usage_limit: '',
+  per_user_limit: '1',
+  starts_at: '',
+  ends_at: '',
+  first_order_only: false,
+  categories: [] as string[],
+  menu_item_ids: [] as string[],
+};
+
+// Empty inputs mean "no limit"
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : null);
+const optionalDate = (value: string) => (value ? new Date(value).toISOString() : null);
+
+// e.g. "20% off up to ₹100 · Orders over ₹300 · Beverages only · First order only"
+function describeCoupon(coupon: Coupon, menuItems: CouponSettingsProps['menuItems']): string {
+  const parts = [
+    coupon.discount_type === 'percentage'
+      ? `${coupon.discount_value}% off${coupon.max_discount !== null ? ` up to ₹${coupon.max_discount}` : ''}`
+      : `₹${coupon.discount_value} off`,
+  ];
+
+  if (coupon.min_subtotal > 0) parts.push(`Orders over ₹${coupon.min_subtotal}`);
+
+  const appliesTo = [
+    ...coupon.categories,
+    ...coupon.menu_item_ids.map(id => menuItems.find(item => item.id === id)?.title ?? 'Removed item'),
+  ];
+  if (appliesTo.length > 0) parts.push(`${appliesTo.join(', ')} only`);
+
+  if (coupon.first_order_only) parts.push('First order only');
+  if (coupon.per_user_limit !== null) parts.push(`${coupon.per_user_limit} per customer`);
+  if (coupon.starts_at) parts.push(`From ${format(new Date(coupon.starts_at), 'd MMM p')}`);
+  if (coupon.ends_at) parts.push(`Until ${format(new Date(coupon.ends_at), 'd MMM p')}`);
+
+  return parts.join(' · ');
+}
+
+export const CouponSettings = ({ menuItems }: CouponSettingsProps) => {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const categories = [...new Set(menuItems.map(item => item.category))].sort();
+
+  const fetchCoupons = useCallback(async () => {
+    try {
+      // Cancelled orders give their use of a code back
+      const { data, error } = await supabase
+        .from('coupons')
+        .select('*, orders(count)')
+        .neq('orders.status', 'cancelled')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setCoupons(data as unknown as Coupon[]);
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, [fetchCoupons]);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleAdd = async () => {
+    const code = form.code.trim().toUpperCase();
+    const discountValue = parseFloat(form.discount_value);
+
+    if (!/^[A-Z0-9_-]{3,20}$/.test(code)) {
+      toast.error('Codes are 3 to 20 letters, numbers, dashes or underscores');
+      return;
+    }
+
+    if (isNaN(discountValue) || discountValue <= 0 || (form.discount_type === 'percentage' && discountValue > 100)) {
+      toast.error('Please enter a valid discount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('coupons').insert({
+        code,
+        description: form.description.trim() || null,
+        discount_type: form.discount_type,
+        discount_value: discountValue,
+        min_subtotal: optionalNumber(form.min_subtotal) ?? 0,
+        max_discount: form.discount_type === 'percentage' ? optionalNumber(form.max_discount) : null,
+        usage_limit: optionalNumber(form.usage_limit),
+        per_user_limit: optionalNumber(form.per_user_limit),
+        starts_at: optionalDate(form.starts_at),
+        ends_at: optionalDate(form.ends_at),
+        first_order_only: form.first_order_only,
+        categories: form.categories,
+        menu_item_ids: form.menu_item_ids,
+      });
+
+      if (error) throw error;
+
+      toast.success('Promo code added');
+      setForm(EMPTY_FORM);
+      fetchCoupons();
+    } catch (error) {
+      toast.error(error.message || 'Failed to add promo code');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Codes are switched off rather than deleted so past orders keep them
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      const { error } = await supabase
+        .from('coupons')
+        .update({ is_active: !coupon.is_active })
+        .eq('id', coupon.id);
+
+      if (error) throw error;
+
+      fetchCoupons();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update promo code');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-6 space-y-4">
+        <h3 className="text-lg font-bold">Promo Codes</h3>
+        {coupons.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No promo codes yet</p>
+        ) : (
+          coupons.map(coupon => {
+            const uses = coupon.orders[0]?.count ?? 0;
+            return (
+              <div key={coupon.id} className="flex items-center gap-3 rounded-lg border p-3">
+                <Tag className="h-5 w-5 text-muted-foreground" />
+                <div className="flex-1">
+                  <p className="text-sm font-medium">
+                    {coupon.code}
+                    {coupon.description && (
+                      <span className="font-normal text-muted-foreground"> · {coupon.description}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describeCoupon(coupon, menuItems)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Used {uses}{coupon.usage_limit !== null && ` of ${coupon.usage_limit}`} times
+                  </p>
+                </div>
+                <Switch checked={coupon.is_active} onCheckedChange={() => handleToggleActive(coupon)} />
+              </div>
+            );
+          })
+        )}
+      </Card>
+
+      <Card className="p-6 space-y-4">
+        <h3 className="text-lg font-bold">Add Promo Code</h3>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="coupon-code">Code</Label>
+            <Input
+              id="coupon-code"
+              className="uppercase"
+              placeholder="e.g. WELCOME20"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="coupon-description">Description</Label>
+            <Input
+              id="coupon-description"
+              placeholder="Shown to customers when applied"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Discount</Label>
+            <div className="flex gap-2">
+              <Select
+                value={form.discount_type}
+                onValueChange={(value) => setForm({ ...form, discount_type: value as Coupon['discount_type'] })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percent off</SelectItem>
+                  <SelectItem value="flat">Rupees off</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                placeholder={form.discount_type === 'percentage' ? '%' : '₹'}
+                value={form.discount_value}
+                onChange={(e) => setForm({ ...form, discount_value: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="coupon-max-discount">Maximum Discount (₹)</Label>
+            <Input
+              id="coupon-max-discount"
+              type="number"
+              step="0.01"
+              placeholder="Leave empty for no limit"
+              disabled={form.discount_type === 'flat'}
+              value={form.max_discount}
+              onChange={(e) => setForm({ ...form, max_discount: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="coupon-min-subtotal">Minimum Subtotal (₹)</Label>
+            <Input
+              id="coupon-min-subtotal"
+              type="number"
+              step="0.01"
+              placeholder="0"
+              value={form.min_subtotal}
+              onChange={(e) => setForm({ ...form, min_subtotal: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="coupon-usage-limit">Total Uses</Label>
+              <Input
+                id="coupon-usage-limit"
+                type="number"
+                placeholder="No limit"
+                value={form.usage_limit}
+                onChange={(e) => setForm({ ...form, usage_limit: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="coupon-per-user-limit">Uses per Customer</Label>
+              <Input
+                id="coupon-per-user-limit"
+                type="number"
+                placeholder="No limit"
+                value={form.per_user_limit}
+                onChange={(e) => setForm({ ...form, per_user_limit: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="coupon-starts-at">Valid From</Label>
+            <Input
+              id="coupon-starts-at"
+              type="datetime-local"
+              value={form.starts_at}
+              onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="coupon-ends-at">Valid Until</Label>
+            <Input
+              id="coupon-ends-at"
+              type="datetime-local"
+              value={form.ends_at}
+              onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="coupon-first-order"
+            checked={form.first_order_only}
+            onCheckedChange={(checked) => setForm({ ...form, first_order_only: checked })}
+          />
+          <Label htmlFor="coupon-first-order">First order only</Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Applies to</Label>
+          <p className="text-xs text-muted-foreground">
+            Leave everything unticked for the whole menu. The discount is worked out on the ticked items only.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            {categories.map(category => (
+              <Label key={category} className="flex items-center gap-2 font-normal">
+                <Checkbox
+                  checked={form.categories.includes(category)}
+                  onCheckedChange={() => setForm({ ...form, categories: toggle(form.categories, category) })}
+                />
+                {category}
+              </Label>
+            ))}
+          </div>
+          <div className="grid gap-2 md:grid-cols-3">
+            {menuItems.map(item => (
+              <Label key={item.id} className="flex items-center gap-2 font-normal">
+                <Checkbox
+                  checked={form.menu_item_ids.includes(item.id)}
+                  onCheckedChange={() => setForm({ ...form, menu_item_ids: toggle(form.menu_item_ids, item.id) })}
+                />
+                {item.title}
+              </Label>
+            ))}
+          </div>
+        </div>
+
+        <Button onClick={handleAdd} disabled={saving}>
+          {saving ? 'Adding...' : 'Add Promo Code'}
+        </Button>
+      </Card>
+    </div>
+  );
+};
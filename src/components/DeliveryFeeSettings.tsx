@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { Plus, Trash2 } from 'lucide-react';
+import { useDeliveryFees } from '@/hooks/useDeliveryFees';
+
+export const DeliveryFeeSettings = () => {
+  const { tiers, loading, refresh } = useDeliveryFees();
+  const [newTier, setNewTier] = useState({ up_to_km: '', fee: '' });
+
+  const handleAddTier = async () => {
+    const upToKm = parseFloat(newTier.up_to_km);
+    const fee = parseFloat(newTier.fee);
+
+    if (isNaN(upToKm) || isNaN(fee) || upToKm <= 0 || fee < 0) {
+      toast.error('Please enter a distance and a fee');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('delivery_fee_tiers')
+        .insert({ up_to_km: upToKm, fee });
+
+      if (error) throw error;
+
+      toast.success('Delivery tier added');
+      setNewTier({ up_to_km: '', fee: '' });
+      refresh();
+    } catch (error) {
+      toast.error(error.message || 'Failed to add delivery tier');
+    }
+  };
+
+  const handleDeleteTier = async (tierId: string) => {
+    try {
+      const { error } = await supabase
+        .from('delivery_fee_tiers')
+        .delete()
+        .eq('id', tierId);
+
+      if (error) throw error;
+
+      toast.success('Delivery tier removed');
+      refresh();
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove delivery tier');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold">Distance Tiers</h3>
+        <p className="text-sm text-muted-foreground">
+          Orders are charged the fee of the first tier that covers their distance.
+          Locations beyond the last tier are not deliverable.
+        </p>
+      </div>
+      <ul className="space-y-2">
+        {tiers.map((tier, idx) => (
+          <li key={tier.id} className="flex items-center gap-2 text-sm">
+            <span className="flex-1">
+              {idx === 0 ? 0 : tiers[idx - 1].up_to_km} – {tier.up_to_km} km
+            </span>
+            <span className="font-medium">₹{tier.fee}</span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => handleDeleteTier(tier.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+        {tiers.length === 0 && (
+          <li className="text-sm text-muted-foreground">No tiers yet – delivery is unavailable</li>
+        )}
+      </ul>
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          step="0.1"
+          placeholder="Up to km"
+          value={newTier.up_to_km}
+          onChange={(e) => setNewTier({ ...newTier, up_to_km: e.target.value })}
+        />
+        <Input
+          type="number"
+          step="0.01"
+          placeholder="Fee ₹"
+          value={newTier.fee}
+          onChange={(e) => setNewTier({ ...newTier, fee: e.target.value })}
+        />
+        <Button size="icon" variant="outline" onClick={handleAddTier}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+interface DeliveryOverrideDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Resolves to true when the order was marked delivered; the dialog stays open otherwise
+  onConfirm: (reason: string) => Promise<boolean>;
+}
+
+export const DeliveryOverrideDialog = ({ open, onOpenChange, onConfirm }: DeliveryOverrideDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setReason('');
+    onOpenChange(nextOpen);
+  };
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      if (await onConfirm(reason.trim())) {
+        handleOpenChange(false);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mark Delivered Without Code</DialogTitle>
+          <DialogDescription>
+            Riders confirm deliveries with the customer's delivery code. Tell us why this order is being marked
+            delivered without it; the reason is kept with the order.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          placeholder="e.g. Customer collected at the counter"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={3}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Go Back
+          </Button>
+          <Button onClick={handleConfirm} disabled={!reason.trim() || submitting}>
+            {submitting ? 'Saving...' : 'Mark Delivered'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Trash2 } from 'lucide-react';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { formatGstRate, TaxCategory } from '@/lib/gst';
+
+interface GstSettingsProps {
+  categories: TaxCategory[];
+  onChange: () => void;
+}
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z0-9]{10}[1-9A-Z]Z[0-9A-Z]$/;
+
+const EMPTY_CATEGORY = { name: '', hsn_sac_code: '', rate_percent: '' };
+
+export const GstSettings = ({ categories, onChange }: GstSettingsProps) => {
+  const { settings, loading, refresh } = useRestaurantSettings();
+  const [form, setForm] = useState({ gstin: '', legal_name: '', invoice_prefix: '' });
+  const [newCategory, setNewCategory] = useState(EMPTY_CATEGORY);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!settings) return;
+    setForm({
+      gstin: settings.gstin ?? '',
+      legal_name: settings.legal_name ?? '',
+      invoice_prefix: settings.invoice_prefix,
+    });
+  }, [settings]);
+
+  const handleSave = async () => {
+    const gstin = form.gstin.trim().toUpperCase();
+    const invoicePrefix = form.invoice_prefix.trim().toUpperCase();
+
+    if (gstin && !GSTIN_PATTERN.test(gstin)) {
+      toast.error('Please enter a valid 15 character GSTIN');
+      return;
+    }
+
+    if (!/^[A-Z0-9]{1,4}$/.test(invoicePrefix)) {
+      toast.error('Invoice prefixes are 1 to 4 letters or numbers');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('restaurant_settings')
+        .update({
+          gstin: gstin || null,
+          legal_name: form.legal_name.trim() || null,
+          invoice_prefix: invoicePrefix,
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast.success('GST settings saved');
+      refresh();
+    } catch (error) {
+      toast.error(error.message || 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddCategory = async () => {
+    const ratePercent = parseFloat(newCategory.rate_percent);
+
+    if (!newCategory.name.trim()) {
+      toast.error('Please enter a name');
+      return;
+    }
+
+    if (!/^[0-9]{4,8}$/.test(newCategory.hsn_sac_code.trim())) {
+      toast.error('HSN/SAC codes are 4 to 8 digits');
+      return;
+    }
+
+    if (isNaN(ratePercent) || ratePercent < 0 || ratePercent >= 100) {
+      toast.error('Please enter a valid GST rate');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('tax_categories').insert({
+        name: newCategory.name.trim(),
+        hsn_sac_code: newCategory.hsn_sac_code.trim(),
+        // Stored as a fraction, edited as a percentage
+        gst_rate: ratePercent / 100,
+      });
+
+      if (error) throw error;
+
+      toast.success('Tax category added');
+      setNewCategory(EMPTY_CATEGORY);
+      onChange();
+    } catch (error) {
+      toast.error(error.message || 'Failed to add tax category');
+    }
+  };
+
+  // Only one category can be the default, so the old one is cleared first
+  const handleMakeDefault = async (category: TaxCategory) => {
+    try {
+      const { error: clearError } = await supabase
+        .from('tax_categories')
+        .update({ is_default: false })
+        .eq('is_default', true);
+
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('tax_categories')
+        .update({ is_default: true })
+        .eq('id', category.id);
+
+      if (error) throw error;
+
+      onChange();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update tax category');
+    }
+  };
+
+  // Menu items in a deleted category fall back to the default
+  const handleDelete = async (category: TaxCategory) => {
+    try {
+      const { error } = await supabase
+        .from('tax_categories')
+        .delete()
+        .eq('id', category.id);
+
+      if (error) throw error;
+
+      onChange();
+    } catch (error) {
+      toast.error(error.message || 'Failed to delete tax category');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold">GST</h3>
+        <p className="text-sm text-muted-foreground">
+          Printed on tax invoices. Invoice numbers restart every financial year, e.g. INV/26-27/00001.
+        </p>
+      </div>
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <Label htmlFor="gst-gstin">GSTIN</Label>
+          <Input
+            id="gst-gstin"
+            className="uppercase"
+            placeholder="e.g. 29ABCDE1234F1Z5"
+            value={form.gstin}
+            onChange={(e) => setForm({ ...form, gstin: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="gst-legal-name">Legal Name</Label>
+          <Input
+            id="gst-legal-name"
+            placeholder="As registered for GST"
+            value={form.legal_name}
+            onChange={(e) => setForm({ ...form, legal_name: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="gst-invoice-prefix">Invoice Prefix</Label>
+          <Input
+            id="gst-invoice-prefix"
+            className="uppercase"
+            value={form.invoice_prefix}
+            onChange={(e) => setForm({ ...form, invoice_prefix: e.target.value })}
+          />
+        </div>
+      </div>
+      <Button onClick={handleSave} disabled={saving}>
+        {saving ? 'Saving...' : 'Save'}
+      </Button>
+
+      <div className="space-y-2 pt-2">
+        <Label>Tax Categories</Label>
+        <p className="text-xs text-muted-foreground">
+          Menu items without a category of their own are taxed under the default.
+        </p>
+        {categories.map(category => (
+          <div key={category.id} className="flex items-center gap-3 rounded-lg border p-3">
+            <div className="flex-1">
+              <p className="text-sm font-medium">
+                {category.name}
+                {category.is_default && <Badge variant="secondary" className="ml-2">Default</Badge>}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                HSN/SAC {category.hsn_sac_code} · GST {formatGstRate(category.gst_rate)}
+              </p>
+            </div>
+            {!category.is_default && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => handleMakeDefault(category)}>
+                  Make Default
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(category)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Input
+            placeholder="Name, e.g. Packaged drinks"
+            value={newCategory.name}
+            onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+          />
+          <Input
+            className="w-32"
+            placeholder="HSN/SAC"
+            value={newCategory.hsn_sac_code}
+            onChange={(e) => setNewCategory({ ...newCategory, hsn_sac_code: e.target.value })}
+          />
+          <Input
+            className="w-24"
+            type="number"
+            step="0.01"
+            placeholder="GST %"
+            value={newCategory.rate_percent}
+            onChange={(e) => setNewCategory({ ...newCategory, rate_percent: e.target.value })}
+          />
+          <Button variant="outline" onClick={handleAddCategory}>
+            Add
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
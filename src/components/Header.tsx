@@ -3,7 +3,7 @@ import { CartSheet } from './CartSheet';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
-import { User, History, LogOut, Shield } from 'lucide-react';
+import { User, History, LogOut, Shield, MapPin, Settings, Bike } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 
 export const Header = () => {
@@ -41,10 +41,22 @@ export const Header = () => {
                     <History className="mr-2 h-4 w-4" />
                     Order History
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/addresses')}>
+                    <MapPin className="mr-2 h-4 w-4" />
+                    Saved Addresses
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/settings')}>
+                    <Settings className="mr-2 h-4 w-4" />
+                    Settings
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => navigate('/admin')}>
                     <Shield className="mr-2 h-4 w-4" />
                     Admin Panel
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/rider')}>
+                    <Bike className="mr-2 h-4 w-4" />
+                    My Deliveries
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleSignOut}>
                     <LogOut className="mr-2 h-4 w-4" />
                     Sign Out
@@ -1,22 +1,10 @@
 import { useEffect, useRef, useState } from 'react';
-import L from 'leaflet';
-import 'leaflet/dist/leaflet.css';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { MapPin, Navigation } from 'lucide-react';
 import { toast } from 'sonner';
-
-// Fix for default marker icon
-import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
-import markerIcon from 'leaflet/dist/images/marker-icon.png';
-import markerShadow from 'leaflet/dist/images/marker-shadow.png';
-
-delete (L.Icon.Default.prototype as any)._getIconUrl;
-L.Icon.Default.mergeOptions({
-  iconUrl: markerIcon,
-  iconRetinaUrl: markerIcon2x,
-  shadowUrl: markerShadow,
-});
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import L, { addBaseTiles, dotIcon, themeColor } from '@/lib/leaflet';
 
 interface MapLocationPickerProps {
   onLocationSelect: (lat: number, lng: number) => void;
@@ -24,43 +12,27 @@ interface MapLocationPickerProps {
   initialLng?: number;
 }
 
-export const MapLocationPicker = ({ onLocationSelect, initialLat = 13.0878, initialLng = 80.2085 }: MapLocationPickerProps) => {
+export const MapLocationPicker = ({ onLocationSelect, initialLat, initialLng }: MapLocationPickerProps) => {
   const mapRef = useRef<L.Map | null>(null);
   const markerRef = useRef<L.Marker | null>(null);
+  const restaurantLayerRef = useRef<L.LayerGroup | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [currentPosition, setCurrentPosition] = useState<[number, number]>([initialLat, initialLng]);
-  
-  // Restaurant location (FriendHome)
-  const restaurantLocation: [number, number] = [13.0878, 80.2085];
+  const [currentPosition, setCurrentPosition] = useState<[number, number] | null>(
+    initialLat !== undefined && initialLng !== undefined ? [initialLat, initialLng] : null
+  );
+  const { settings } = useRestaurantSettings();
+  const hasPosition = currentPosition !== null;
 
   useEffect(() => {
     if (!containerRef.current || mapRef.current) return;
 
-    // Initialize map
-    const map = L.map(containerRef.current).setView(currentPosition, 13);
-
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-    }).addTo(map);
-
-    // Add 10km delivery radius circle
-    L.circle(restaurantLocation, {
-      radius: 10000, // 10km in meters
-      color: 'hsl(var(--primary))',
-      fillColor: 'hsl(var(--primary))',
-      fillOpacity: 0.1,
-      weight: 2,
-    }).addTo(map);
-
-    // Add marker at restaurant location
-    L.marker(restaurantLocation, {
-      icon: L.divIcon({
-        className: 'restaurant-marker',
-        html: '<div style="background: hsl(var(--primary)); width: 12px; height: 12px; border-radius: 50%; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);"></div>',
-        iconSize: [12, 12],
-        iconAnchor: [6, 6],
-      })
-    }).addTo(map).bindPopup('FriendHome Restaurant');
+    // Initialize map; the view is set once a position or the restaurant location is known
+    const map = L.map(containerRef.current);
+    if (currentPosition) {
+      map.setView(currentPosition, 13);
+    }
+
+    addBaseTiles(map);
 
 
     // Add click handler
@@ -91,9 +63,34 @@ export const MapLocationPicker = ({ onLocationSelect, initialLat = 13.0878, init
     };
   }, []);
 
+  // Draw the restaurant and its delivery radius from settings
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !settings) return;
+
+    const restaurantLocation: [number, number] = [settings.latitude, settings.longitude];
+    const primaryColor = themeColor('--primary');
+
+    restaurantLayerRef.current?.remove();
+    restaurantLayerRef.current = L.layerGroup([
+      L.circle(restaurantLocation, {
+        radius: settings.max_delivery_distance_km * 1000, // km to meters
+        color: primaryColor,
+        fillColor: primaryColor,
+        fillOpacity: 0.1,
+        weight: 2,
+      }),
+      L.marker(restaurantLocation, { icon: dotIcon(primaryColor) }).bindPopup(settings.name),
+    ]).addTo(map);
+
+    if (!hasPosition) {
+      map.setView(restaurantLocation, 13);
+    }
+  }, [settings, hasPosition]);
+
   // Update map view when position changes
   useEffect(() => {
-    if (mapRef.current) {
+    if (mapRef.current && currentPosition) {
       mapRef.current.setView(currentPosition, 13);
     }
   }, [currentPosition]);
@@ -1,8 +1,16 @@
+import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Plus } from 'lucide-react';
 import { useCart } from '@/contexts/CartContext';
 import { toast } from 'sonner';
+import { formatModifiers } from '@/lib/modifiers';
+import {
+  ChosenModifier,
+  MenuItemOptionsDialog,
+  MenuItemVariant,
+  ModifierGroup,
+} from './MenuItemOptionsDialog';
 
 interface MenuCardProps {
   id: string;
@@ -11,16 +19,49 @@ interface MenuCardProps {
   price: number;
   image_url?: string;
   category: string;
+  variants?: MenuItemVariant[];
+  modifierGroups?: ModifierGroup[];
 }
 
-export const MenuCard = ({ id, title, description, price, image_url, category }: MenuCardProps) => {
+export const MenuCard = ({
+  id,
+  title,
+  description,
+  price,
+  image_url,
+  category,
+  variants = [],
+  modifierGroups = [],
+}: MenuCardProps) => {
   const { addItem } = useCart();
+  const [showOptions, setShowOptions] = useState(false);
 
   const handleAddToCart = () => {
+    if (variants.length > 0 || modifierGroups.length > 0) {
+      setShowOptions(true);
+      return;
+    }
     addItem({ id, title, price, image_url });
     toast.success(`${title} added to cart`);
   };
 
+  const handleAddCustomised = (variant: MenuItemVariant | undefined, modifiers: ChosenModifier[]) => {
+    addItem({
+      id,
+      title,
+      price: (variant ? variant.price : price) + modifiers.reduce((sum, m) => sum + m.price, 0),
+      image_url,
+      variantId: variant?.id,
+      variantName: variant?.name,
+      modifiers,
+    });
+    setShowOptions(false);
+    const details = [variant?.name, formatModifiers(modifiers)].filter(Boolean).join(', ');
+    toast.success(details ? `${title} (${details}) added to cart` : `${title} added to cart`);
+  };
+
+  const minPrice = variants.length > 0 ? Math.min(...variants.map(v => v.price)) : price;
+
   return (
     <Card className="overflow-hidden transition-all hover:shadow-card-hover">
       <div className="aspect-video bg-muted relative overflow-hidden">
@@ -41,13 +82,27 @@ export const MenuCard = ({ id, title, description, price, image_url, category }:
           <p className="text-sm text-muted-foreground mb-3 line-clamp-2">{description}</p>
         )}
         <div className="flex items-center justify-between">
-          <span className="text-xl font-bold text-primary">₹{price}</span>
+          <span className="text-xl font-bold text-primary">
+            {variants.length > 0 && <span className="text-sm font-normal text-muted-foreground mr-1">From</span>}
+            ₹{minPrice}
+          </span>
           <Button onClick={handleAddToCart} size="sm" className="gap-1">
             <Plus className="h-4 w-4" />
             Add
           </Button>
         </div>
       </div>
+      {showOptions && (
+        <MenuItemOptionsDialog
+          open={showOptions}
+          onOpenChange={setShowOptions}
+          title={title}
+          basePrice={price}
+          variants={variants}
+          modifierGroups={modifierGroups}
+          onConfirm={handleAddCustomised}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { Plus, Trash2 } from 'lucide-react';
+import { describeSelectionRule } from '@/lib/modifiers';
+
+interface ModifierOption {
+  id: string;
+  name: string;
+  price: number;
+  is_available: boolean | null;
+  sort_order: number;
+}
+
+interface ModifierGroup {
+  id: string;
+  name: string;
+  min_select: number;
+  max_select: number;
+  sort_order: number;
+  modifier_options: ModifierOption[];
+}
+
+interface MenuItemModifiersProps {
+  menuItemId: string;
+}
+
+export const MenuItemModifiers = ({ menuItemId }: MenuItemModifiersProps) => {
+  const [groups, setGroups] = useState<ModifierGroup[]>([]);
+  const [newGroup, setNewGroup] = useState({ name: '', min_select: '0', max_select: '1' });
+  const [newOptions, setNewOptions] = useState<Record<string, { name: string; price: string }>>({});
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('modifier_groups')
+        .select(`
+          id, name, min_select, max_select, sort_order,
+          modifier_options (id, name, price, is_available, sort_order)
+        `)
+        .eq('menu_item_id', menuItemId)
+        .order('sort_order', { ascending: true })
+        .order('sort_order', { referencedTable: 'modifier_options', ascending: true });
+
+      if (error) throw error;
+      setGroups(data || []);
+    } catch (error) {
+      console.error('Error fetching modifier groups:', error);
+    }
+  }, [menuItemId]);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [menuItemId, fetchGroups]);
+
+  const handleAddGroup = async () => {
+    const minSelect = parseInt(newGroup.min_select, 10);
+    const maxSelect = parseInt(newGroup.max_select, 10);
+
+    if (!newGroup.name || isNaN(minSelect) || isNaN(maxSelect)) {
+      toast.error('Please enter a group name and selection limits');
+      return;
+    }
+
+    if (minSelect < 0 || maxSelect < 1 || maxSelect < minSelect) {
+      toast.error('Max must be at least 1 and not less than min');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('modifier_groups')
+        .insert({
+          menu_item_id: menuItemId,
+          name: newGroup.name,
+          min_select: minSelect,
+          max_select: maxSelect,
+          sort_order: groups.length,
+        });
+
+      if (error) throw error;
+
+      toast.success('Modifier group added');
+      setNewGroup({ name: '', min_select: '0', max_select: '1' });
+      fetchGroups();
+    } catch (error) {
+      toast.error(error.message || 'Failed to add modifier group');
+    }
+  };
+
+  const handleDeleteGroup = async (groupId: string) => {
+    try {
+      const { error } = await supabase
+        .from('modifier_groups')
+        .delete()
+        .eq('id', groupId);
+
+      if (error) throw error;
+
+      toast.success('Modifier group removed');
+      fetchGroups();
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove modifier group');
+    }
+  };
+
+  const handleAddOption = async (group: ModifierGroup) => {
+    const option = newOptions[group.id] || { name: '', price: '' };
+
+    if (!option.name) {
+      toast.error('Please enter an option name');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('modifier_options')
+        .insert({
+          group_id: group.id,
+          name: option.name,
+          price: option.price ? parseFloat(option.price) : 0,
+          sort_order: group.modifier_options.length,
+        });
+
+      if (error) throw error;
+
+      setNewOptions({ ...newOptions, [group.id]: { name: '', price: '' } });
+      fetchGroups();
+    } catch (error) {
+      toast.error(error.message || 'Failed to add option');
+    }
+  };
+
+  const toggleOptionAvailability = async (option: ModifierOption) => {
+    try {
+      const { error } = await supabase
+        .from('modifier_options')
+        .update({ is_available: !option.is_available })
+        .eq('id', option.id);
+
+      if (error) throw error;
+      fetchGroups();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update option');
+    }
+  };
+
+  const handleDeleteOption = async (optionId: string) => {
+    try {
+      const { error } = await supabase
+        .from('modifier_options')
+        .delete()
+        .eq('id', optionId);
+
+      if (error) throw error;
+      fetchGroups();
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove option');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Add-ons &amp; Modifiers</Label>
+      {groups.map(group => {
+        const option = newOptions[group.id] || { name: '', price: '' };
+        return (
+          <div key={group.id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium">{group.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {describeSelectionRule(group.min_select, group.max_select)}
+                  {group.min_select > 0 && ' (required)'}
+                </p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => handleDeleteGroup(group.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <ul className="space-y-2">
+              {group.modifier_options.map(opt => (
+                <li key={opt.id} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1">{opt.name}</span>
+                  <span className="font-medium">+₹{opt.price}</span>
+                  <Switch
+                    checked={!!opt.is_available}
+                    onCheckedChange={() => toggleOptionAvailability(opt)}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => handleDeleteOption(opt.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Option name"
+                value={option.name}
+                onChange={(e) => setNewOptions({ ...newOptions, [group.id]: { ...option, name: e.target.value } })}
+              />
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="+₹"
+                className="w-24"
+                value={option.price}
+                onChange={(e) => setNewOptions({ ...newOptions, [group.id]: { ...option, price: e.target.value } })}
+              />
+              <Button size="icon" variant="outline" onClick={() => handleAddOption(group)}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex gap-2">
+        <Input
+          placeholder="e.g., Spice level"
+          value={newGroup.name}
+          onChange={(e) => setNewGroup({ ...newGroup, name: e.target.value })}
+        />
+        <Input
+          type="number"
+          min="0"
+          title="Minimum selections"
+          className="w-16"
+          value={newGroup.min_select}
+          onChange={(e) => setNewGroup({ ...newGroup, min_select: e.target.value })}
+        />
+        <Input
+          type="number"
+          min="1"
+          title="Maximum selections"
+          className="w-16"
+          value={newGroup.max_select}
+          onChange={(e) => setNewGroup({ ...newGroup, max_select: e.target.value })}
+        />
+        <Button size="icon" variant="outline" onClick={handleAddGroup}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">New group: name, min and max selections</p>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { describeSelectionRule } from '@/lib/modifiers';
+
+export interface MenuItemVariant {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  min_select: number;
+  max_select: number;
+  options: ModifierOption[];
+}
+
+export interface ChosenModifier {
+  optionId: string;
+  group: string;
+  option: string;
+  price: number;
+}
+
+interface MenuItemOptionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  basePrice: number;
+  variants: MenuItemVariant[];
+  modifierGroups: ModifierGroup[];
+  onConfirm: (variant: MenuItemVariant | undefined, modifiers: ChosenModifier[]) => void;
+}
+
+const isSingleChoice = (group: ModifierGroup) => group.min_select === 1 && group.max_select === 1;
+
+export const MenuItemOptionsDialog = ({
+  open,
+  onOpenChange,
+  title,
+  basePrice,
+  variants,
+  modifierGroups,
+  onConfirm,
+}: MenuItemOptionsDialogProps) => {
+  const [variantId, setVariantId] = useState(variants[0]?.id);
+  // Required single-choice groups start on their first option
+  const [selected, setSelected] = useState<Record<string, string[]>>(() =>
+    Object.fromEntries(
+      modifierGroups.map(group => [
+        group.id,
+        isSingleChoice(group) && group.options.length > 0 ? [group.options[0].id] : [],
+      ])
+    )
+  );
+
+  const selectedVariant = variants.find(v => v.id === variantId);
+
+  const toggleOption = (group: ModifierGroup, optionId: string) => {
+    setSelected(current => {
+      const chosen = current[group.id] || [];
+      if (chosen.includes(optionId)) {
+        return { ...current, [group.id]: chosen.filter(id => id !== optionId) };
+      }
+      if (group.max_select === 1) {
+        return { ...current, [group.id]: [optionId] };
+      }
+      if (chosen.length >= group.max_select) {
+        return current;
+      }
+      return { ...current, [group.id]: [...chosen, optionId] };
+    });
+  };
+
+  const chosenModifiers: ChosenModifier[] = modifierGroups.flatMap(group =>
+    group.options
+      .filter(option => (selected[group.id] || []).includes(option.id))
+      .map(option => ({ optionId: option.id, group: group.name, option: option.name, price: option.price }))
+  );
+
+  const isComplete =
+    (variants.length === 0 || !!selectedVariant) &&
+    modifierGroups.every(group => (selected[group.id] || []).length >= group.min_select);
+
+  const unitPrice =
+    (selectedVariant ? selectedVariant.price : basePrice) +
+    chosenModifiers.reduce((sum, m) => sum + m.price, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6">
+          {variants.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Choose an option</p>
+              <RadioGroup value={variantId} onValueChange={setVariantId}>
+                {variants.map(variant => (
+                  <Label
+                    key={variant.id}
+                    htmlFor={`variant-${variant.id}`}
+                    className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer font-normal"
+                  >
+                    <RadioGroupItem value={variant.id} id={`variant-${variant.id}`} />
+                    <span className="flex-1">{variant.name}</span>
+                    <span className="font-medium">₹{variant.price}</span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+
+          {modifierGroups.map(group => {
+            const chosen = selected[group.id] || [];
+            return (
+              <div key={group.id} className="space-y-2">
+                <div className="flex items-baseline justify-between">
+                  <p className="text-sm font-medium">{group.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeSelectionRule(group.min_select, group.max_select)}
+                    {group.min_select > 0 && ' (required)'}
+                  </p>
+                </div>
+                {isSingleChoice(group) ? (
+                  <RadioGroup
+                    value={chosen[0]}
+                    onValueChange={(optionId) => setSelected({ ...selected, [group.id]: [optionId] })}
+                  >
+                    {group.options.map(option => (
+                      <Label
+                        key={option.id}
+                        htmlFor={`option-${option.id}`}
+                        className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer font-normal"
+                      >
+                        <RadioGroupItem value={option.id} id={`option-${option.id}`} />
+                        <span className="flex-1">{option.name}</span>
+                        {option.price > 0 && <span className="font-medium">+₹{option.price}</span>}
+                      </Label>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  <div className="space-y-2">
+                    {group.options.map(option => {
+                      const isChecked = chosen.includes(option.id);
+                      const isDisabled =
+                        !isChecked && group.max_select > 1 && chosen.length >= group.max_select;
+                      return (
+                        <Label
+                          key={option.id}
+                          htmlFor={`option-${option.id}`}
+                          className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer font-normal"
+                        >
+                          <Checkbox
+                            id={`option-${option.id}`}
+                            checked={isChecked}
+                            disabled={isDisabled}
+                            onCheckedChange={() => toggleOption(group, option.id)}
+                          />
+                          <span className="flex-1">{option.name}</span>
+                          {option.price > 0 && <span className="font-medium">+₹{option.price}</span>}
+                        </Label>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <Button
+            className="w-full"
+            disabled={!isComplete}
+            onClick={() => onConfirm(selectedVariant, chosenModifiers)}
+          >
+            Add to Cart - ₹{unitPrice.toFixed(2)}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface Variant {
+  id: string;
+  name: string;
+  price: number;
+  is_available: boolean | null;
+  sort_order: number;
+}
+
+interface MenuItemVariantsProps {
+  menuItemId: string;
+}
+
+export const MenuItemVariants = ({ menuItemId }: MenuItemVariantsProps) => {
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [name, setName] = useState('');
+  const [price, setPrice] = useState('');
+
+  const fetchVariants = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('menu_item_variants')
+        .select('id, name, price, is_available, sort_order')
+        .eq('menu_item_id', menuItemId)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      setVariants(data || []);
+    } catch (error) {
+      console.error('Error fetching variants:', error);
+    }
+  }, [menuItemId]);
+
+  useEffect(() => {
+    fetchVariants();
+  }, [menuItemId, fetchVariants]);
+
+  const handleAddVariant = async () => {
+    if (!name || !price) {
+      toast.error('Please enter a variant name and price');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('menu_item_variants')
+        .insert({
+          menu_item_id: menuItemId,
+          name,
+          price: parseFloat(price),
+          sort_order: variants.length,
+        });
+
+      if (error) throw error;
+
+      toast.success('Variant added');
+      setName('');
+      setPrice('');
+      fetchVariants();
+    } catch (error) {
+      toast.error(error.message || 'Failed to add variant');
+    }
+  };
+
+  const toggleAvailability = async (variant: Variant) => {
+    try {
+      const { error } = await supabase
+        .from('menu_item_variants')
+        .update({ is_available: !variant.is_available })
+        .eq('id', variant.id);
+
+      if (error) throw error;
+      fetchVariants();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update variant');
+    }
+  };
+
+  const handleDeleteVariant = async (variantId: string) => {
+    try {
+      const { error } = await supabase
+        .from('menu_item_variants')
+        .delete()
+        .eq('id', variantId);
+
+      if (error) throw error;
+
+      toast.success('Variant removed');
+      fetchVariants();
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove variant');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Variants</Label>
+      {variants.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No variants. Customers order this item at its base price.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {variants.map(variant => (
+            <li key={variant.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1">{variant.name}</span>
+              <span className="font-medium">₹{variant.price}</span>
+              <Switch
+                checked={!!variant.is_available}
+                onCheckedChange={() => toggleAvailability(variant)}
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => handleDeleteVariant(variant.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Input
+          placeholder="e.g., Family Size"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Input
+          type="number"
+          step="0.01"
+          placeholder="Price"
+          className="w-28"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+        />
+        <Button size="icon" variant="outline" onClick={handleAddVariant}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
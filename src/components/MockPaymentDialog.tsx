@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { PaymentOutcome, PaymentSession } from '@/lib/payments';
+
+interface MockPaymentDialogProps {
+  session: PaymentSession | null;
+  onSettle: (outcome: PaymentOutcome) => Promise<void>;
+}
+
+// Checkout page of the development payment gateway; nothing is charged
+export const MockPaymentDialog = ({ session, onSettle }: MockPaymentDialogProps) => {
+  const [settling, setSettling] = useState(false);
+
+  const handleSettle = async (outcome: PaymentOutcome) => {
+    setSettling(true);
+    try {
+      await onSettle(outcome);
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  return (
+    <Dialog open={session !== null} onOpenChange={(open) => !open && !settling && handleSettle('dismissed')}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Test Payment</DialogTitle>
+          <DialogDescription>
+            Payments are in test mode. Choose how this payment should turn out; no money is charged.
+          </DialogDescription>
+        </DialogHeader>
+        <p className="text-center text-3xl font-bold text-primary">
+          ₹{session?.amount.toFixed(2)}
+        </p>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleSettle('failed')} disabled={settling}>
+            Decline
+          </Button>
+          <Button onClick={() => handleSettle('paid')} disabled={settling}>
+            {settling ? 'Processing...' : 'Pay'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,72 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { downloadEscPos, encodeEscPos } from '@/lib/escpos';
+import { getPrintSettings } from '@/lib/printSettings';
+import {
+  buildKitchenTicket,
+  buildReceipt,
+  printTicket,
+  shortOrderId,
+  TicketOrder,
+  TicketRestaurant,
+} from '@/lib/tickets';
+import { Download, Printer } from 'lucide-react';
+
+interface OrderPrintMenuProps {
+  order: TicketOrder;
+  restaurant: TicketRestaurant | null;
+}
+
+export const OrderPrintMenu = ({ order, restaurant }: OrderPrintMenuProps) => {
+  const orderNumber = shortOrderId(order.id);
+
+  const ticketLines = (kind: 'kot' | 'receipt') =>
+    kind === 'kot'
+      ? buildKitchenTicket(order)
+      : buildReceipt(order, restaurant ?? { name: '', address: '', gstin: null });
+
+  const handlePrint = (kind: 'kot' | 'receipt') => {
+    printTicket(ticketLines(kind), getPrintSettings().paperWidth, `${kind.toUpperCase()} #${orderNumber}`);
+  };
+
+  const handleExport = (kind: 'kot' | 'receipt') => {
+    downloadEscPos(encodeEscPos(ticketLines(kind), getPrintSettings().paperWidth), `${kind}-${orderNumber}.bin`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Print">
+          <Printer className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handlePrint('kot')}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print kitchen ticket
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handlePrint('receipt')}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print customer bill
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-muted-foreground">ESC/POS for a print bridge</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleExport('kot')}>
+          <Download className="mr-2 h-4 w-4" />
+          Kitchen ticket
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('receipt')}>
+          <Download className="mr-2 h-4 w-4" />
+          Customer bill
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
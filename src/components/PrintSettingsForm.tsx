@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getPrintSettings, PrintSettings, savePrintSettings } from '@/lib/printSettings';
+import { PaperWidth } from '@/lib/tickets';
+
+export const PrintSettingsForm = () => {
+  const [settings, setSettings] = useState<PrintSettings>(getPrintSettings);
+
+  const update = (changes: Partial<PrintSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePrintSettings(next);
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold">Printing</h3>
+        <p className="text-sm text-muted-foreground">
+          Saved on this device only. To skip the print dialog, run the browser in kiosk printing mode.
+        </p>
+      </div>
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label htmlFor="print-paper-width">Paper Width</Label>
+          <Select
+            value={String(settings.paperWidth)}
+            onValueChange={(value) => update({ paperWidth: Number(value) as PaperWidth })}
+          >
+            <SelectTrigger id="print-paper-width">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="58">58 mm</SelectItem>
+              <SelectItem value="80">80 mm</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between gap-4 md:pt-6">
+          <Label htmlFor="print-auto-kot" className="font-normal">
+            Print a kitchen ticket for every new order
+          </Label>
+          <Switch
+            id="print-auto-kot"
+            checked={settings.autoPrintKot}
+            onCheckedChange={(checked) => update({ autoPrintKot: checked })}
+          />
+        </div>
+      </div>
+    </Card>
+  );
+};
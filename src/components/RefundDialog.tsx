@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { QueueOrder } from '@/hooks/useOrderQueue';
+import { RefundRequest } from '@/lib/payments';
+import { itemsRefundAmount, RefundItem, refundableAmount, refundedQuantity } from '@/lib/refunds';
+
+type RefundMode = 'full' | 'items' | 'amount';
+
+interface RefundDialogProps {
+  order: QueueOrder | null;
+  onOpenChange: (open: boolean) => void;
+  // Resolves to true when the refund was issued; the dialog stays open otherwise
+  onConfirm: (request: RefundRequest) => Promise<boolean>;
+}
+
+export const RefundDialog = ({ order, onOpenChange, onConfirm }: RefundDialogProps) => {
+  const [mode, setMode] = useState<RefundMode>('full');
+  // Quantities to refund, by order item
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setMode('full');
+      setQuantities({});
+      setAmount('');
+      setReason('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const remaining = order ? refundableAmount(order) : 0;
+  const items: RefundItem[] = Object.entries(quantities)
+    .map(([orderItemId, quantity]) => ({ order_item_id: orderItemId, quantity: parseInt(quantity, 10) }))
+    .filter(item => item.quantity > 0);
+  const refundAmount = !order
+    ? 0
+    : mode === 'full'
+      ? remaining
+      : mode === 'items'
+        ? itemsRefundAmount(order, items)
+        : parseFloat(amount) || 0;
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      const request: RefundRequest = { reason: reason.trim() };
+      if (mode === 'items') request.items = items;
+      if (mode === 'amount') request.amount = refundAmount;
+
+      if (await onConfirm(request)) {
+        handleOpenChange(false);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={order !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund Order</DialogTitle>
+          <DialogDescription>
+            ₹{remaining.toFixed(2)} of ₹{order?.total.toFixed(2)} can still be refunded.{' '}
+            {order?.payment_method === 'cod'
+              ? 'This order was paid in cash, so hand the refund back to the customer.'
+              : 'The refund goes back to the card or account the customer paid with.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as RefundMode)}>
+          <Label htmlFor="refund-full" className="flex items-center gap-3 font-normal cursor-pointer">
+            <RadioGroupItem value="full" id="refund-full" />
+            Everything left (₹{remaining.toFixed(2)})
+          </Label>
+          <Label htmlFor="refund-items" className="flex items-center gap-3 font-normal cursor-pointer">
+            <RadioGroupItem value="items" id="refund-items" />
+            Selected items, with their tax
+          </Label>
+          <Label htmlFor="refund-amount" className="flex items-center gap-3 font-normal cursor-pointer">
+            <RadioGroupItem value="amount" id="refund-amount" />
+            A custom amount
+          </Label>
+        </RadioGroup>
+
+        {mode === 'items' && order && (
+          <div className="space-y-2">
+            {order.order_items.map(item => {
+              const refundable = item.quantity - refundedQuantity(order.refunds, item.id);
+              return (
+                <div key={item.id} className="flex items-center justify-between gap-4">
+                  <span className="text-sm">
+                    {item.item_title}
+                    {item.variant_name && ` (${item.variant_name})`} · ₹{item.price.toFixed(2)} each
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={refundable}
+                    className="w-20"
+                    disabled={refundable === 0}
+                    placeholder={`of ${refundable}`}
+                    value={quantities[item.id] ?? ''}
+                    onChange={(e) => setQuantities(current => ({ ...current, [item.id]: e.target.value }))}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {mode === 'amount' && (
+          <div>
+            <Label htmlFor="refund-custom-amount">Amount (₹)</Label>
+            <Input
+              id="refund-custom-amount"
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+        )}
+
+        <Textarea
+          placeholder="Reason, e.g. Mango Lassi was missing"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Go Back
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!reason.trim() || refundAmount <= 0 || refundAmount > remaining || submitting}
+          >
+            {submitting ? 'Refunding...' : `Refund ₹${refundAmount.toFixed(2)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
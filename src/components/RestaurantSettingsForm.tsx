@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+
+const emptyForm = {
+  name: '',
+  address: '',
+  latitude: '',
+  longitude: '',
+  max_delivery_distance_km: '',
+  free_delivery_min_subtotal: '',
+  slot_minutes: '',
+  slot_capacity: '',
+  schedule_days_ahead: '',
+  cancellation_grace_minutes: '',
+  target_prep_minutes: '',
+  kitchen_capacity: '',
+  rider_speed_kmh: '',
+};
+
+export const RestaurantSettingsForm = () => {
+  const { settings, loading, refresh } = useRestaurantSettings();
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!settings) return;
+    setForm({
+      name: settings.name,
+      address: settings.address,
+      latitude: String(settings.latitude),
+      longitude: String(settings.longitude),
+      max_delivery_distance_km: String(settings.max_delivery_distance_km),
+      free_delivery_min_subtotal: settings.free_delivery_min_subtotal !== null
+        ? String(settings.free_delivery_min_subtotal)
+        : '',
+      slot_minutes: String(settings.slot_minutes),
+      slot_capacity: String(settings.slot_capacity),
+      schedule_days_ahead: String(settings.schedule_days_ahead),
+      cancellation_grace_minutes: String(settings.cancellation_grace_minutes),
+      target_prep_minutes: String(settings.target_prep_minutes),
+      kitchen_capacity: String(settings.kitchen_capacity),
+      rider_speed_kmh: String(settings.rider_speed_kmh),
+    });
+  }, [settings]);
+
+  const handleSave = async () => {
+    const latitude = parseFloat(form.latitude);
+    const longitude = parseFloat(form.longitude);
+    const maxDistance = parseFloat(form.max_delivery_distance_km);
+    const freeDeliveryMin = form.free_delivery_min_subtotal.trim()
+      ? parseFloat(form.free_delivery_min_subtotal)
+      : null;
+    const slotMinutes = parseInt(form.slot_minutes, 10);
+    const slotCapacity = parseInt(form.slot_capacity, 10);
+    const scheduleDaysAhead = parseInt(form.schedule_days_ahead, 10);
+    const cancellationGraceMinutes = parseInt(form.cancellation_grace_minutes, 10);
+    const targetPrepMinutes = parseInt(form.target_prep_minutes, 10);
+    const kitchenCapacity = parseInt(form.kitchen_capacity, 10);
+    const riderSpeed = parseFloat(form.rider_speed_kmh);
+
+    if (!form.name.trim() || !form.address.trim()) {
+      toast.error('Please enter the restaurant name and address');
+      return;
+    }
+
+    if (isNaN(latitude) || isNaN(longitude) || latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+      toast.error('Please enter a valid location');
+      return;
+    }
+
+    if (isNaN(maxDistance) || maxDistance <= 0) {
+      toast.error('Delivery radius must be greater than 0');
+      return;
+    }
+
+    if (freeDeliveryMin !== null && (isNaN(freeDeliveryMin) || freeDeliveryMin < 0)) {
+      toast.error('Please enter a valid free delivery amount');
+      return;
+    }
+
+    if (isNaN(slotMinutes) || slotMinutes < 10 || slotMinutes > 240) {
+      toast.error('Slot length must be between 10 and 240 minutes');
+      return;
+    }
+
+    if (isNaN(slotCapacity) || slotCapacity < 1) {
+      toast.error('Orders per slot must be at least 1');
+      return;
+    }
+
+    if (isNaN(scheduleDaysAhead) || scheduleDaysAhead < 0 || scheduleDaysAhead > 14) {
+      toast.error('Booking window must be between 0 and 14 days');
+      return;
+    }
+
+    if (isNaN(cancellationGraceMinutes) || cancellationGraceMinutes < 0 || cancellationGraceMinutes > 120) {
+      toast.error('Cancellation window must be between 0 and 120 minutes');
+      return;
+    }
+
+    if (isNaN(targetPrepMinutes) || targetPrepMinutes < 1 || targetPrepMinutes > 120) {
+      toast.error('Target prep time must be between 1 and 120 minutes');
+      return;
+    }
+
+    if (isNaN(kitchenCapacity) || kitchenCapacity < 1 || kitchenCapacity > 50) {
+      toast.error('Kitchen capacity must be between 1 and 50 orders');
+      return;
+    }
+
+    if (isNaN(riderSpeed) || riderSpeed <= 0) {
+      toast.error('Rider speed must be greater than 0');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('restaurant_settings')
+        .update({
+          name: form.name.trim(),
+          address: form.address.trim(),
+          latitude,
+          longitude,
+          max_delivery_distance_km: maxDistance,
+          free_delivery_min_subtotal: freeDeliveryMin,
+          slot_minutes: slotMinutes,
+          slot_capacity: slotCapacity,
+          schedule_days_ahead: scheduleDaysAhead,
+          cancellation_grace_minutes: cancellationGraceMinutes,
+          target_prep_minutes: targetPrepMinutes,
+          kitchen_capacity: kitchenCapacity,
+          rider_speed_kmh: riderSpeed,
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast.success('Settings saved');
+      refresh();
+    } catch (error) {
+      toast.error(error.message || 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <Card className="p-6 space-y-4">
+      <h3 className="text-lg font-bold">Restaurant</h3>
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label htmlFor="settings-name">Name</Label>
+          <Input
+            id="settings-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-address">Address</Label>
+          <Input
+            id="settings-address"
+            value={form.address}
+            onChange={(e) => setForm({ ...form, address: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-latitude">Latitude</Label>
+          <Input
+            id="settings-latitude"
+            type="number"
+            step="0.0000001"
+            value={form.latitude}
+            onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-longitude">Longitude</Label>
+          <Input
+            id="settings-longitude"
+            type="number"
+            step="0.0000001"
+            value={form.longitude}
+            onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-radius">Delivery Radius (km)</Label>
+          <Input
+            id="settings-radius"
+            type="number"
+            step="0.1"
+            value={form.max_delivery_distance_km}
+            onChange={(e) => setForm({ ...form, max_delivery_distance_km: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-free-delivery">Free Delivery Minimum Subtotal (₹)</Label>
+          <Input
+            id="settings-free-delivery"
+            type="number"
+            step="0.01"
+            placeholder="Leave empty to disable"
+            value={form.free_delivery_min_subtotal}
+            onChange={(e) => setForm({ ...form, free_delivery_min_subtotal: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-slot-minutes">Delivery Slot Length (minutes)</Label>
+          <Input
+            id="settings-slot-minutes"
+            type="number"
+            value={form.slot_minutes}
+            onChange={(e) => setForm({ ...form, slot_minutes: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-slot-capacity">Orders per Slot</Label>
+          <Input
+            id="settings-slot-capacity"
+            type="number"
+            value={form.slot_capacity}
+            onChange={(e) => setForm({ ...form, slot_capacity: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-days-ahead">Scheduling Window (days ahead)</Label>
+          <Input
+            id="settings-days-ahead"
+            type="number"
+            value={form.schedule_days_ahead}
+            onChange={(e) => setForm({ ...form, schedule_days_ahead: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-cancellation-grace">Customer Cancellation Window (minutes)</Label>
+          <Input
+            id="settings-cancellation-grace"
+            type="number"
+            value={form.cancellation_grace_minutes}
+            onChange={(e) => setForm({ ...form, cancellation_grace_minutes: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            How long after ordering customers may still cancel once preparation has started
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="settings-target-prep">Target Prep Time (minutes)</Label>
+          <Input
+            id="settings-target-prep"
+            type="number"
+            value={form.target_prep_minutes}
+            onChange={(e) => setForm({ ...form, target_prep_minutes: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Orders on the kitchen display turn red once they take longer than this
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="settings-kitchen-capacity">Kitchen Capacity (orders at once)</Label>
+          <Input
+            id="settings-kitchen-capacity"
+            type="number"
+            value={form.kitchen_capacity}
+            onChange={(e) => setForm({ ...form, kitchen_capacity: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-rider-speed">Average Rider Speed (km/h)</Label>
+          <Input
+            id="settings-rider-speed"
+            type="number"
+            step="0.1"
+            value={form.rider_speed_kmh}
+            onChange={(e) => setForm({ ...form, rider_speed_kmh: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Used with kitchen capacity and past prep times to estimate delivery times
+          </p>
+        </div>
+      </div>
+      <Button onClick={handleSave} disabled={saving}>
+        {saving ? 'Saving...' : 'Save Settings'}
+      </Button>
+    </Card>
+  );
+};
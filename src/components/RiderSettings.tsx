@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Bike, Trash2 } from 'lucide-react';
+import { Rider } from '@/hooks/useRiders';
+
+interface RiderSettingsProps {
+  riders: Rider[];
+  onChange: () => void;
+}
+
+export const RiderSettings = ({ riders, onChange }: RiderSettingsProps) => {
+  const [phone, setPhone] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const handleAdd = async () => {
+    if (!phone.trim()) {
+      toast.error('Please enter a phone number');
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('phone', phone.trim())
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+
+      if (!profile) {
+        toast.error('No account with that phone number. Ask the rider to sign up first.');
+        return;
+      }
+
+      const { error } = await supabase
+        .from('user_roles')
+        .upsert({ user_id: profile.id, role: 'rider' }, {
+          onConflict: 'user_id,role',
+          ignoreDuplicates: true,
+        });
+
+      if (error) throw error;
+
+      toast.success('Rider added');
+      setPhone('');
+      onChange();
+    } catch (error) {
+      toast.error(error.message || 'Failed to add rider');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (rider: Rider) => {
+    try {
+      const { error } = await supabase
+        .from('user_roles')
+        .delete()
+        .eq('user_id', rider.id)
+        .eq('role', 'rider');
+
+      if (error) throw error;
+
+      toast.success('Rider removed');
+      onChange();
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove rider');
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <h3 className="text-lg font-bold">Riders</h3>
+
+      <div className="space-y-2">
+        {riders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No riders yet</p>
+        ) : (
+          riders.map(rider => (
+            <div key={rider.id} className="flex items-center gap-3 rounded-lg border p-3">
+              <Bike className="h-5 w-5 text-muted-foreground" />
+              <div className="flex-1">
+                <p className="text-sm font-medium">{rider.full_name || 'Unnamed rider'}</p>
+                <p className="text-xs text-muted-foreground">{rider.phone}</p>
+              </div>
+              <Button size="icon" variant="ghost" onClick={() => handleRemove(rider)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <Label htmlFor="rider-phone">Add rider by phone number</Label>
+          <Input
+            id="rider-phone"
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleAdd} disabled={adding}>
+          {adding ? 'Adding...' : 'Add Rider'}
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import L, { addBaseTiles, dotIcon, themeColor } from '@/lib/leaflet';
+import { formatDistanceToNow } from 'date-fns';
+import { Bike } from 'lucide-react';
+
+interface RiderLocation {
+  latitude: number;
+  longitude: number;
+  updated_at: string;
+}
+
+interface RiderTrackingMapProps {
+  riderId: string;
+  destination: [number, number];
+}
+
+// Live map of the rider heading to the customer's address
+export const RiderTrackingMap = ({ riderId, destination }: RiderTrackingMapProps) => {
+  const mapRef = useRef<L.Map | null>(null);
+  const riderMarkerRef = useRef<L.Marker | null>(null);
+  const routeRef = useRef<L.Polyline | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [location, setLocation] = useState<RiderLocation | null>(null);
+  const [primaryColor] = useState(() => themeColor('--primary'));
+  // Compared by value, as callers pass a new array on every render
+  const [destinationLat, destinationLng] = destination;
+
+  useEffect(() => {
+    if (!containerRef.current || mapRef.current) return;
+
+    const map = L.map(containerRef.current).setView([destinationLat, destinationLng], 14);
+    addBaseTiles(map);
+    L.marker([destinationLat, destinationLng]).addTo(map).bindPopup('Delivery address');
+
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      riderMarkerRef.current = null;
+      routeRef.current = null;
+    };
+  }, [destinationLat, destinationLng]);
+
+  useEffect(() => {
+    const fetchLocation = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('rider_locations')
+          .select('latitude, longitude, updated_at')
+          .eq('rider_id', riderId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) setLocation(data);
+      } catch (error) {
+        console.error('Error fetching rider location:', error);
+      }
+    };
+
+    fetchLocation();
+
+    const channel = supabase
+      .channel(`rider-location-${riderId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'rider_locations',
+          filter: `rider_id=eq.${riderId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          setLocation({
+            latitude: payload.new.latitude,
+            longitude: payload.new.longitude,
+            updated_at: payload.new.updated_at,
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [riderId]);
+
+  // Move the rider marker and keep both ends of the trip in view
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !location) return;
+
+    const riderPosition: [number, number] = [Number(location.latitude), Number(location.longitude)];
+    const destinationPosition: [number, number] = [destinationLat, destinationLng];
+    const isFirstFix = !riderMarkerRef.current;
+
+    if (riderMarkerRef.current) {
+      riderMarkerRef.current.setLatLng(riderPosition);
+    } else {
+      riderMarkerRef.current = L.marker(riderPosition, { icon: dotIcon(primaryColor, 18) })
+        .addTo(map)
+        .bindPopup('Your rider');
+    }
+
+    if (routeRef.current) {
+      routeRef.current.setLatLngs([riderPosition, destinationPosition]);
+    } else {
+      routeRef.current = L.polyline([riderPosition, destinationPosition], {
+        color: primaryColor,
+        weight: 3,
+        dashArray: '6 8',
+      }).addTo(map);
+    }
+
+    if (isFirstFix || !map.getBounds().contains(riderPosition)) {
+      map.fitBounds(L.latLngBounds([riderPosition, destinationPosition]), { padding: [40, 40] });
+    }
+  }, [location, destinationLat, destinationLng, primaryColor]);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Bike className="h-5 w-5 text-primary" />
+        <h2 className="text-xl font-semibold">Your Rider</h2>
+      </div>
+      <div
+        ref={containerRef}
+        className="h-[300px] w-full rounded-lg overflow-hidden border"
+        style={{ zIndex: 0 }}
+      />
+      <p className="text-xs text-muted-foreground mt-2">
+        {location
+          ? `Location updated ${formatDistanceToNow(new Date(location.updated_at), { addSuffix: true })}`
+          : 'Waiting for the rider to share their location'}
+      </p>
+    </Card>
+  );
+};
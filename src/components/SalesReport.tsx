@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { format, parseISO, subDays } from 'date-fns';
+
+interface SalesRow {
+  day: string;
+  order_count: number;
+  gross_sales: number;
+  refunds: number;
+  net_sales: number;
+}
+
+// Paid orders per day less what was refunded that day
+export const SalesReport = () => {
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 6), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [rows, setRows] = useState<SalesRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRows = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_sales_report', { _from: from, _to: to });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching sales report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  const total = (key: 'order_count' | 'gross_sales' | 'refunds' | 'net_sales') =>
+    rows.reduce((sum, row) => sum + Number(row[key]), 0);
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold">Sales</h3>
+          <p className="text-sm text-muted-foreground">
+            Paid orders by the day they were placed, and refunds by the day they went through.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <div>
+            <Label htmlFor="sales-from">From</Label>
+            <Input
+              id="sales-from"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => e.target.value && setFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="sales-to">To</Label>
+            <Input
+              id="sales-to"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && setTo(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-center py-6">Loading...</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Day</TableHead>
+              <TableHead className="text-right">Orders</TableHead>
+              <TableHead className="text-right">Gross sales</TableHead>
+              <TableHead className="text-right">Refunds</TableHead>
+              <TableHead className="text-right">Net sales</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.day}>
+                <TableCell>{format(parseISO(row.day), 'EEE, d MMM')}</TableCell>
+                <TableCell className="text-right">{row.order_count}</TableCell>
+                <TableCell className="text-right">₹{Number(row.gross_sales).toFixed(2)}</TableCell>
+                <TableCell className="text-right text-destructive">
+                  {Number(row.refunds) > 0 && `−₹${Number(row.refunds).toFixed(2)}`}
+                </TableCell>
+                <TableCell className="text-right font-medium">₹{Number(row.net_sales).toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total</TableCell>
+              <TableCell className="text-right">{total('order_count')}</TableCell>
+              <TableCell className="text-right">₹{total('gross_sales').toFixed(2)}</TableCell>
+              <TableCell className="text-right">−₹{total('refunds').toFixed(2)}</TableCell>
+              <TableCell className="text-right">₹{total('net_sales').toFixed(2)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      )}
+    </Card>
+  );
+};
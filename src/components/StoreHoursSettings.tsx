@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { DAY_NAMES } from '@/lib/storeStatus';
+
+interface OperatingHours {
+  id: string;
+  day_of_week: number;
+  opens_at: string;
+  closes_at: string;
+}
+
+interface StoreHoliday {
+  id: string;
+  holiday_date: string;
+  reason: string | null;
+}
+
+export const StoreHoursSettings = () => {
+  const { settings, refresh: refreshSettings } = useRestaurantSettings();
+  const [hours, setHours] = useState<OperatingHours[]>([]);
+  const [holidays, setHolidays] = useState<StoreHoliday[]>([]);
+  const [newHours, setNewHours] = useState({ day_of_week: '1', opens_at: '11:00', closes_at: '23:00' });
+  const [newHoliday, setNewHoliday] = useState({ holiday_date: '', reason: '' });
+
+  useEffect(() => {
+    fetchHours();
+    fetchHolidays();
+  }, []);
+
+  const fetchHours = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('operating_hours')
+        .select('id, day_of_week, opens_at, closes_at')
+        .order('day_of_week', { ascending: true })
+        .order('opens_at', { ascending: true });
+
+      if (error) throw error;
+      setHours(data || []);
+    } catch (error) {
+      console.error('Error fetching operating hours:', error);
+    }
+  };
+
+  const fetchHolidays = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('store_holidays')
+        .select('id, holiday_date, reason')
+        .gte('holiday_date', format(new Date(), 'yyyy-MM-dd'))
+        .order('holiday_date', { ascending: true });
+
+      if (error) throw error;
+      setHolidays(data || []);
+    } catch (error) {
+      console.error('Error fetching holidays:', error);
+    }
+  };
+
+  const togglePaused = async (paused: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('restaurant_settings')
+        .update({ orders_paused: paused })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast.success(paused ? 'Orders paused' : 'Orders resumed');
+      refreshSettings();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update order intake');
+    }
+  };
+
+  const handleAddHours = async () => {
+    if (!newHours.opens_at || !newHours.closes_at || newHours.closes_at <= newHours.opens_at) {
+      toast.error('Closing time must be after opening time');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('operating_hours')
+        .insert({
+          day_of_week: parseInt(newHours.day_of_week, 10),
+          opens_at: newHours.opens_at,
+          closes_at: newHours.closes_at,
+        });
+
+      if (error) throw error;
+
+      toast.success('Opening hours added');
+      fetchHours();
+    } catch (error) {
+      toast.error(error.message || 'Failed to add opening hours');
+    }
+  };
+
+  const handleDeleteHours = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('operating_hours')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchHours();
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove opening hours');
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!newHoliday.holiday_date) {
+      toast.error('Please pick a date');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('store_holidays')
+        .insert({
+          holiday_date: newHoliday.holiday_date,
+          reason: newHoliday.reason || null,
+        });
+
+      if (error) throw error;
+
+      toast.success('Holiday added');
+      setNewHoliday({ holiday_date: '', reason: '' });
+      fetchHolidays();
+    } catch (error) {
+      toast.error(error.message || 'Failed to add holiday');
+    }
+  };
+
+  const handleDeleteHoliday = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('store_holidays')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchHolidays();
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove holiday');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold">Pause Orders</h3>
+            <p className="text-sm text-muted-foreground">
+              Stop accepting new orders immediately, regardless of opening hours.
+            </p>
+          </div>
+          <Switch
+            checked={!!settings?.orders_paused}
+            disabled={!settings}
+            onCheckedChange={togglePaused}
+          />
+        </div>
+      </Card>
+
+      <Card className="p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-bold">Opening Hours</h3>
+          <p className="text-sm text-muted-foreground">
+            Days without hours are closed. Times are in {settings?.timezone ?? 'the restaurant time zone'}.
+          </p>
+        </div>
+        <ul className="space-y-2">
+          {DAY_NAMES.map((dayName, day) => {
+            const windows = hours.filter(h => h.day_of_week === day);
+            return (
+              <li key={dayName} className="flex items-start gap-4 text-sm">
+                <span className="w-24 font-medium">{dayName}</span>
+                <div className="flex-1 space-y-1">
+                  {windows.length === 0 ? (
+                    <span className="text-muted-foreground">Closed</span>
+                  ) : (
+                    windows.map(window => (
+                      <div key={window.id} className="flex items-center gap-2">
+                        <span>{window.opens_at.slice(0, 5)} – {window.closes_at.slice(0, 5)}</span>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={() => handleDeleteHours(window.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex gap-2">
+          <Select
+            value={newHours.day_of_week}
+            onValueChange={(value) => setNewHours({ ...newHours, day_of_week: value })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_NAMES.map((dayName, day) => (
+                <SelectItem key={dayName} value={String(day)}>{dayName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="time"
+            value={newHours.opens_at}
+            onChange={(e) => setNewHours({ ...newHours, opens_at: e.target.value })}
+          />
+          <Input
+            type="time"
+            value={newHours.closes_at}
+            onChange={(e) => setNewHours({ ...newHours, closes_at: e.target.value })}
+          />
+          <Button size="icon" variant="outline" onClick={handleAddHours}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </Card>
+
+      <Card className="p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-bold">Holidays</h3>
+          <p className="text-sm text-muted-foreground">The restaurant is closed all day on these dates.</p>
+        </div>
+        <ul className="space-y-2">
+          {holidays.map(holiday => (
+            <li key={holiday.id} className="flex items-center gap-2 text-sm">
+              <span className="w-32 font-medium">{format(new Date(`${holiday.holiday_date}T00:00`), 'PP')}</span>
+              <span className="flex-1 text-muted-foreground">{holiday.reason}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => handleDeleteHoliday(holiday.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+          {holidays.length === 0 && (
+            <li className="text-sm text-muted-foreground">No upcoming holidays</li>
+          )}
+        </ul>
+        <div className="flex gap-2">
+          <div className="w-44">
+            <Label htmlFor="holiday-date" className="sr-only">Date</Label>
+            <Input
+              id="holiday-date"
+              type="date"
+              value={newHoliday.holiday_date}
+              onChange={(e) => setNewHoliday({ ...newHoliday, holiday_date: e.target.value })}
+            />
+          </div>
+          <Input
+            placeholder="Reason (optional)"
+            value={newHoliday.reason}
+            onChange={(e) => setNewHoliday({ ...newHoliday, reason: e.target.value })}
+          />
+          <Button size="icon" variant="outline" onClick={handleAddHoliday}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
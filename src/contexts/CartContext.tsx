@@ -1,18 +1,29 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { SelectedModifier } from '@/lib/modifiers';
+
+interface CartItemModifier extends SelectedModifier {
+  optionId: string;
+}
 
 interface CartItem {
+  lineId: string;
   id: string;
   title: string;
   price: number;
   quantity: number;
   image_url?: string;
+  variantId?: string;
+  variantName?: string;
+  modifiers?: CartItemModifier[];
 }
 
+type NewCartItem = Omit<CartItem, 'quantity' | 'lineId'>;
+
 interface CartContextType {
   items: CartItem[];
-  addItem: (item: Omit<CartItem, 'quantity'>) => void;
-  removeItem: (id: string) => void;
-  updateQuantity: (id: string, quantity: number) => void;
+  addItem: (item: NewCartItem) => void;
+  removeItem: (lineId: string) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
   clearCart: () => void;
   total: number;
   itemCount: number;
@@ -20,39 +31,54 @@ interface CartContextType {
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// The same menu item with a different variant or modifiers is kept on a separate line
+const getLineId = (item: NewCartItem) => {
+  const parts = [item.id];
+  if (item.variantId) {
+    parts.push(item.variantId);
+  }
+  if (item.modifiers && item.modifiers.length > 0) {
+    parts.push(item.modifiers.map(m => m.optionId).sort().join(','));
+  }
+  return parts.join(':');
+};
+
 export const CartProvider = ({ children }: { children: React.ReactNode }) => {
   const [items, setItems] = useState<CartItem[]>(() => {
     const saved = localStorage.getItem('cart');
-    return saved ? JSON.parse(saved) : [];
+    const parsed: CartItem[] = saved ? JSON.parse(saved) : [];
+    // Carts saved before line ids existed are keyed by menu item id
+    return parsed.map(item => ({ ...item, lineId: item.lineId || getLineId(item) }));
   });
 
   useEffect(() => {
     localStorage.setItem('cart', JSON.stringify(items));
   }, [items]);
 
-  const addItem = (item: Omit<CartItem, 'quantity'>) => {
+  const addItem = (item: NewCartItem) => {
+    const lineId = getLineId(item);
     setItems(current => {
-      const existing = current.find(i => i.id === item.id);
+      const existing = current.find(i => i.lineId === lineId);
       if (existing) {
         return current.map(i =>
-          i.id === item.id ? { ...i, quantity: i.quantity + 1 } : i
+          i.lineId === lineId ? { ...i, quantity: i.quantity + 1 } : i
         );
       }
-      return [...current, { ...item, quantity: 1 }];
+      return [...current, { ...item, lineId, quantity: 1 }];
     });
   };
 
-  const removeItem = (id: string) => {
-    setItems(current => current.filter(i => i.id !== id));
+  const removeItem = (lineId: string) => {
+    setItems(current => current.filter(i => i.lineId !== lineId));
   };
 
-  const updateQuantity = (id: string, quantity: number) => {
+  const updateQuantity = (lineId: string, quantity: number) => {
     if (quantity <= 0) {
-      removeItem(id);
+      removeItem(lineId);
       return;
     }
     setItems(current =>
-      current.map(i => (i.id === id ? { ...i, quantity } : i))
+      current.map(i => (i.lineId === lineId ? { ...i, quantity } : i))
     );
   };
 
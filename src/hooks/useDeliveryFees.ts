@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DeliveryFeeTier } from '@/lib/deliveryFee';
+
+export function useDeliveryFees() {
+  const [tiers, setTiers] = useState<DeliveryFeeTier[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('delivery_fee_tiers')
+        .select('id, up_to_km, fee')
+        .order('up_to_km', { ascending: true });
+
+      if (error) throw error;
+      setTiers(data || []);
+    } catch (error) {
+      console.error('Error fetching delivery fees:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    tiers,
+    loading,
+    refresh,
+  };
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DeliverySlot {
+  slot_start: string;
+  slot_end: string;
+  remaining: number;
+}
+
+export function useDeliverySlots() {
+  const [slots, setSlots] = useState<DeliverySlot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_delivery_slots');
+
+      if (error) throw error;
+      setSlots(data || []);
+    } catch (error) {
+      console.error('Error fetching delivery slots:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    slots,
+    loading,
+    refresh,
+  };
+}
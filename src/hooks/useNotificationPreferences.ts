@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  defaultNotificationPreference,
+  NotificationChannel,
+  NotificationEvent,
+  notificationPreferenceKey,
+} from '@/lib/notificationPreferences';
+import { toast } from 'sonner';
+
+export function useNotificationPreferences() {
+  const { user } = useAuth();
+  const [saved, setSaved] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('event, channel, enabled')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      const next: Record<string, boolean> = {};
+      (data || []).forEach(row => {
+        next[notificationPreferenceKey(row.event as NotificationEvent, row.channel as NotificationChannel)] = row.enabled;
+      });
+      setSaved(next);
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const isEnabled = (event: NotificationEvent, channel: NotificationChannel) =>
+    saved[notificationPreferenceKey(event, channel)] ?? defaultNotificationPreference(event, channel);
+
+  const setPreference = async (event: NotificationEvent, channel: NotificationChannel, enabled: boolean) => {
+    if (!user) return;
+
+    const key = notificationPreferenceKey(event, channel);
+    const previous = saved[key];
+    setSaved(current => ({ ...current, [key]: enabled }));
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: user.id, event, channel, enabled }, {
+          onConflict: 'user_id,event,channel'
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      setSaved(current => ({ ...current, [key]: previous }));
+      toast.error(error.message || 'Failed to save preference');
+    }
+  };
+
+  return {
+    isEnabled,
+    setPreference,
+    loading,
+    refresh,
+  };
+}
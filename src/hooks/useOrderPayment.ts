@@ -0,0 +1,59 @@
+import { useRef, useState } from 'react';
+import {
+  completeMockPayment,
+  createPaymentSession,
+  openRazorpayCheckout,
+  PaymentOutcome,
+  PaymentSession,
+} from '@/lib/payments';
+
+// Runs the configured gateway's checkout for an order. The mock gateway has
+// no checkout page of its own, so pages using this render MockPaymentDialog
+// with mockSession and settleMockPayment.
+export function useOrderPayment() {
+  const [paying, setPaying] = useState(false);
+  const [mockSession, setMockSession] = useState<PaymentSession | null>(null);
+  const resolveMockPayment = useRef<((outcome: PaymentOutcome) => void) | null>(null);
+
+  const pay = async (orderId: string): Promise<PaymentOutcome> => {
+    setPaying(true);
+    try {
+      const session = await createPaymentSession(orderId);
+
+      if (session.provider === 'razorpay') {
+        return await openRazorpayCheckout(session, orderId);
+      }
+
+      return await new Promise<PaymentOutcome>(resolve => {
+        resolveMockPayment.current = resolve;
+        setMockSession(session);
+      });
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const settleMockPayment = async (outcome: PaymentOutcome) => {
+    if (!mockSession) return;
+
+    try {
+      if (outcome !== 'dismissed') {
+        await completeMockPayment(mockSession.payment_id, outcome);
+      }
+      resolveMockPayment.current?.(outcome);
+    } catch (error) {
+      console.error('Error settling mock payment:', error);
+      resolveMockPayment.current?.('failed');
+    } finally {
+      resolveMockPayment.current = null;
+      setMockSession(null);
+    }
+  };
+
+  return {
+    pay,
+    paying,
+    mockSession,
+    settleMockPayment,
+  };
+}
@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SelectedModifier } from '@/lib/modifiers';
+import { OrderStatus } from '@/lib/orderStatus';
+import { PaymentMethod, PaymentStatus } from '@/lib/payments';
+import { Refund } from '@/lib/refunds';
+
+export interface QueueOrder {
+  id: string;
+  status: OrderStatus;
+  payment_method: PaymentMethod;
+  payment_status: PaymentStatus;
+  cash_collected: number | null;
+  cash_collected_at: string | null;
+  subtotal: number;
+  discount: number;
+  coupon_code: string | null;
+  tax: number;
+  cgst: number;
+  sgst: number;
+  delivery_fee: number;
+  total: number;
+  invoice_number: string | null;
+  notes: string | null;
+  scheduled_for: string | null;
+  cancellation_reason: string | null;
+  cancelled_by: string | null;
+  rider_id: string | null;
+  picked_up_at: string | null;
+  estimated_delivery_at: string | null;
+  predicted_delivery_at: string | null;
+  created_at: string;
+  updated_at: string;
+  user_id: string;
+  profiles: {
+    full_name: string | null;
+    phone: string;
+  } | null;
+  addresses: {
+    label: string;
+    address_line: string;
+  } | null;
+  order_items: Array<{
+    id: string;
+    quantity: number;
+    price: number;
+    item_title: string;
+    variant_name: string | null;
+    modifiers: SelectedModifier[];
+    taxable_value: number;
+    cgst: number;
+    sgst: number;
+  }>;
+  order_status_history: Array<{
+    status: OrderStatus;
+    created_at: string;
+  }>;
+  delivery_overrides: Array<{
+    reason: string;
+    created_at: string;
+  }>;
+  payments: Array<{
+    id: string;
+    amount: number;
+    status: PaymentStatus;
+  }>;
+  refunds: Refund[];
+}
+
+const ORDER_SELECT = `
+  *,
+  addresses (label, address_line),
+  order_items (id, quantity, price, item_title, variant_name, modifiers, taxable_value, cgst, sgst),
+  order_status_history (status, created_at),
+  delivery_overrides (reason, created_at),
+  payments (id, amount, status),
+  refunds (id, payment_id, amount, status, reason, items, created_at)
+`;
+
+async function withProfile<T extends { user_id: string }>(order: T) {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('full_name, phone')
+    .eq('id', order.user_id)
+    .single();
+
+  return { ...order, profiles: profile };
+}
+
+async function fetchQueueOrder(orderId: string) {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_SELECT)
+    .eq('id', orderId)
+    .single();
+
+  if (error) throw error;
+
+  return await withProfile(data) as unknown as QueueOrder;
+}
+
+// All orders, newest first, kept current over realtime. Pass enabled = false
+// until the viewer is known to be staff so nothing is fetched for anyone else.
+export function useOrderQueue(enabled: boolean, onNewOrder?: (order: QueueOrder) => void) {
+  const [orders, setOrders] = useState<QueueOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const onNewOrderRef = useRef(onNewOrder);
+  onNewOrderRef.current = onNewOrder;
+  const ordersRef = useRef(orders);
+  ordersRef.current = orders;
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const ordersWithProfiles = await Promise.all((data || []).map(withProfile));
+      setOrders(ordersWithProfiles as unknown as QueueOrder[]);
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // place_order inserts the items in the same transaction, so they are
+    // already there by the time the INSERT is broadcast
+    const addOrder = async (orderId: string) => {
+      try {
+        const order = await fetchQueueOrder(orderId);
+        setOrders(prev => prev.some(o => o.id === order.id) ? prev : [order, ...prev]);
+        // Online orders are announced once paid, see the UPDATE handler
+        if (order.status !== 'pending_payment') onNewOrderRef.current?.(order);
+      } catch (error) {
+        console.error('Error fetching new order:', error);
+      }
+    };
+
+    // Refetched like a new order so items, refunds and history stay current
+    // too. Responses can arrive out of order, so an older copy never
+    // replaces a newer one.
+    const updateOrder = async (orderId: string, justPaid: boolean) => {
+      try {
+        const order = await fetchQueueOrder(orderId);
+        setOrders(prev => prev.map(o => o.id === order.id && o.updated_at <= order.updated_at ? order : o));
+
+        if (justPaid) onNewOrderRef.current?.(order);
+      } catch (error) {
+        console.error('Error fetching updated order:', error);
+      }
+    };
+
+    const channel = supabase
+      .channel('order-queue')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'orders' },
+        (payload) => {
+          addOrder(payload.new.id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'orders' },
+        (payload) => {
+          const previous = ordersRef.current.find(o => o.id === payload.new.id);
+          if (!previous) return;
+
+          // A captured payment is what brings an online order to the kitchen
+          updateOrder(previous.id, previous.status === 'pending_payment' && payload.new.status === 'placed');
+        }
+      )
+      .subscribe((status) => {
+        // Also covers reconnects, catching up on anything missed while offline
+        if (status === 'SUBSCRIBED') refresh();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, refresh]);
+
+  return {
+    orders,
+    loading,
+    refresh,
+  };
+}
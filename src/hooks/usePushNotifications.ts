@@ -1,18 +1,50 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { requestNotificationPermission, subscribeToPushNotifications } from '@/lib/pushNotifications';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  getCurrentSubscription,
+  isPushSupported,
+  registerServiceWorker,
+  requestNotificationPermission,
+  subscribeToPushNotifications,
+  unsubscribeFromPushNotifications,
+} from '@/lib/pushNotifications';
 import { toast } from 'sonner';
 
 export function usePushNotifications() {
   const { user } = useAuth();
   const [isSubscribed, setIsSubscribed] = useState(false);
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const isSupported = isPushSupported();
+
+  // Subscribed means this browser has a subscription that is still on file;
+  // revoking the device from another one removes only the database row
+  const checkSubscription = useCallback(async () => {
+    try {
+      const subscription = await getCurrentSubscription();
+      setCurrentEndpoint(subscription?.endpoint ?? null);
+
+      if (!subscription) {
+        setIsSubscribed(false);
+        return;
+      }
+
+      const { count, error } = await supabase
+        .from('push_subscriptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('endpoint', subscription.endpoint);
+
+      if (error) throw error;
+      setIsSubscribed(!!count);
+    } catch (error) {
+      console.error('Error checking subscription:', error);
+    }
+  }, []);
 
   useEffect(() => {
-    if (user && 'serviceWorker' in navigator) {
-      // Register service worker
-      navigator.serviceWorker
-        .register('/sw.js')
+    if (user && isSupported) {
+      registerServiceWorker()
         .then(() => {
           checkSubscription();
         })
@@ -20,17 +52,7 @@ export function usePushNotifications() {
           console.error('Service Worker registration failed:', error);
         });
     }
-  }, [user]);
-
-  const checkSubscription = async () => {
-    try {
-      const registration = await navigator.serviceWorker.ready;
-      const subscription = await registration.pushManager.getSubscription();
-      setIsSubscribed(!!subscription);
-    } catch (error) {
-      console.error('Error checking subscription:', error);
-    }
-  };
+  }, [user, isSupported, checkSubscription]);
 
   const enableNotifications = async () => {
     if (!user) {
@@ -41,20 +63,20 @@ export function usePushNotifications() {
     setLoading(true);
     try {
       const permissionGranted = await requestNotificationPermission();
-      
+
       if (!permissionGranted) {
         toast.error('Notification permission denied');
         return;
       }
 
       const subscribed = await subscribeToPushNotifications(user.id);
-      
+
       if (subscribed) {
-        setIsSubscribed(true);
         toast.success('Notifications enabled!');
       } else {
         toast.error('Failed to enable notifications');
       }
+      await checkSubscription();
     } catch (error) {
       console.error('Error enabling notifications:', error);
       toast.error('Failed to enable notifications');
@@ -63,9 +85,24 @@ export function usePushNotifications() {
     }
   };
 
+  const disableNotifications = async () => {
+    setLoading(true);
+    try {
+      await unsubscribeFromPushNotifications();
+      await checkSubscription();
+      toast.success('Notifications turned off on this device');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return {
+    isSupported,
     isSubscribed,
+    currentEndpoint,
     loading,
     enableNotifications,
+    disableNotifications,
+    refresh: checkSubscription,
   };
 }
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface RestaurantSettings {
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  max_delivery_distance_km: number;
+  free_delivery_min_subtotal: number | null;
+  orders_paused: boolean;
+  timezone: string;
+  slot_minutes: number;
+  slot_capacity: number;
+  schedule_days_ahead: number;
+  cancellation_grace_minutes: number;
+  target_prep_minutes: number;
+  kitchen_capacity: number;
+  rider_speed_kmh: number;
+  cod_enabled: boolean;
+  cod_max_order_total: number | null;
+  cod_min_delivered_orders: number;
+  gstin: string | null;
+  legal_name: string | null;
+  invoice_prefix: string;
+}
+
+export function useRestaurantSettings() {
+  const [settings, setSettings] = useState<RestaurantSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('restaurant_settings')
+        .select('name, address, latitude, longitude, max_delivery_distance_km, free_delivery_min_subtotal, orders_paused, timezone, slot_minutes, slot_capacity, schedule_days_ahead, cancellation_grace_minutes, target_prep_minutes, kitchen_capacity, rider_speed_kmh, cod_enabled, cod_max_order_total, cod_min_delivered_orders, gstin, legal_name, invoice_prefix')
+        .maybeSingle();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      console.error('Error fetching restaurant settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    settings,
+    loading,
+    refresh,
+  };
+}
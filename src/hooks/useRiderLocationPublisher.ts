@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+
+// How often at most a new position is written while the rider is moving
+const PUBLISH_INTERVAL_MS = 10_000;
+
+// Shares this device's GPS position in rider_locations while active, so the
+// customer can follow the delivery on their tracking page
+export function useRiderLocationPublisher(active: boolean) {
+  const { user } = useAuth();
+  const [sharing, setSharing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const lastPublishedAt = useRef(0);
+
+  useEffect(() => {
+    if (!active || !user) return;
+
+    if (!('geolocation' in navigator)) {
+      setError('Location is not available on this device');
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        setSharing(true);
+        setError(null);
+
+        if (Date.now() - lastPublishedAt.current < PUBLISH_INTERVAL_MS) return;
+        lastPublishedAt.current = Date.now();
+
+        const { error: publishError } = await supabase
+          .from('rider_locations')
+          .upsert({
+            rider_id: user.id,
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            heading: position.coords.heading,
+            accuracy_m: position.coords.accuracy,
+          }, {
+            onConflict: 'rider_id'
+          });
+
+        if (publishError) console.error('Error publishing rider location:', publishError);
+      },
+      (positionError) => {
+        console.error('Error watching rider location:', positionError);
+        setSharing(false);
+        setError(positionError.code === positionError.PERMISSION_DENIED
+          ? 'Allow location access so customers can follow their delivery'
+          : 'Unable to get your location');
+      },
+      { enableHighAccuracy: true, maximumAge: 5000 },
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      setSharing(false);
+    };
+  }, [active, user]);
+
+  return {
+    sharing,
+    error,
+  };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Rider {
+  id: string;
+  full_name: string | null;
+  phone: string;
+}
+
+// Everyone with the rider role. Only admins can read other people's roles.
+export function useRiders(enabled: boolean) {
+  const [riders, setRiders] = useState<Rider[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data: roles, error: rolesError } = await supabase
+        .from('user_roles')
+        .select('user_id')
+        .eq('role', 'rider');
+
+      if (rolesError) throw rolesError;
+
+      const riderIds = (roles || []).map(role => role.user_id);
+      if (riderIds.length === 0) {
+        setRiders([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, phone')
+        .in('id', riderIds)
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      setRiders(data || []);
+    } catch (error) {
+      console.error('Error fetching riders:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  return {
+    riders,
+    loading,
+    refresh,
+  };
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { StoreStatus } from '@/lib/storeStatus';
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+export function useStoreStatus() {
+  const [status, setStatus] = useState<StoreStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_store_status').single();
+
+      if (error) throw error;
+      setStatus(data as StoreStatus);
+    } catch (error) {
+      console.error('Error fetching store status:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // Opening and closing times pass while the page stays open
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return {
+    status,
+    // Unknown status is treated as open; place_order has the final say
+    isOpen: status?.is_open ?? true,
+    loading,
+    refresh,
+  };
+}
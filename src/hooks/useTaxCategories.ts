@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TaxCategory } from '@/lib/gst';
+
+export function useTaxCategories() {
+  const [categories, setCategories] = useState<TaxCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tax_categories')
+        .select('id, name, hsn_sac_code, gst_rate, is_default')
+        .order('is_default', { ascending: false })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching tax categories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    categories,
+    defaultCategory: categories.find(category => category.is_default) ?? null,
+    loading,
+    refresh,
+  };
+}
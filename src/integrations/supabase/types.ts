@@ -19,6 +19,7 @@ export type Database = {
           address_line: string
           created_at: string
           id: string
+          is_archived: boolean
           is_default: boolean | null
           label: string
           latitude: number
@@ -29,6 +30,7 @@ export type Database = {
           address_line: string
           created_at?: string
           id?: string
+          is_archived?: boolean
           is_default?: boolean | null
           label: string
           latitude: number
@@ -39,6 +41,7 @@ export type Database = {
           address_line?: string
           created_at?: string
           id?: string
+          is_archived?: boolean
           is_default?: boolean | null
           label?: string
           latitude?: number
@@ -47,6 +50,205 @@ export type Database = {
         }
         Relationships: []
       }
+      cash_handovers: {
+        Row: {
+          amount: number
+          business_date: string
+          collector_id: string
+          created_at: string
+          id: string
+          notes: string | null
+          received_by: string | null
+        }
+        Insert: {
+          amount: number
+          business_date: string
+          collector_id: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          received_by?: string | null
+        }
+        Update: {
+          amount?: number
+          business_date?: string
+          collector_id?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          received_by?: string | null
+        }
+        Relationships: []
+      }
+      coupons: {
+        Row: {
+          categories: string[]
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: Database["public"]["Enums"]["coupon_discount_type"]
+          discount_value: number
+          ends_at: string | null
+          first_order_only: boolean
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          menu_item_ids: string[]
+          min_subtotal: number
+          per_user_limit: number | null
+          starts_at: string | null
+          updated_at: string
+          usage_limit: number | null
+        }
+        Insert: {
+          categories?: string[]
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: Database["public"]["Enums"]["coupon_discount_type"]
+          discount_value: number
+          ends_at?: string | null
+          first_order_only?: boolean
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          menu_item_ids?: string[]
+          min_subtotal?: number
+          per_user_limit?: number | null
+          starts_at?: string | null
+          updated_at?: string
+          usage_limit?: number | null
+        }
+        Update: {
+          categories?: string[]
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: Database["public"]["Enums"]["coupon_discount_type"]
+          discount_value?: number
+          ends_at?: string | null
+          first_order_only?: boolean
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          menu_item_ids?: string[]
+          min_subtotal?: number
+          per_user_limit?: number | null
+          starts_at?: string | null
+          updated_at?: string
+          usage_limit?: number | null
+        }
+        Relationships: []
+      }
+      delivery_fee_tiers: {
+        Row: {
+          created_at: string
+          fee: number
+          id: string
+          up_to_km: number
+        }
+        Insert: {
+          created_at?: string
+          fee: number
+          id?: string
+          up_to_km: number
+        }
+        Update: {
+          created_at?: string
+          fee?: number
+          id?: string
+          up_to_km?: number
+        }
+        Relationships: []
+      }
+      delivery_overrides: {
+        Row: {
+          created_at: string
+          id: string
+          order_id: string
+          overridden_by: string | null
+          reason: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          order_id: string
+          overridden_by?: string | null
+          reason: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string
+          overridden_by?: string | null
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_overrides_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_sequences: {
+        Row: {
+          financial_year: string
+          last_number: number
+        }
+        Insert: {
+          financial_year: string
+          last_number: number
+        }
+        Update: {
+          financial_year?: string
+          last_number?: number
+        }
+        Relationships: []
+      }
+      menu_item_variants: {
+        Row: {
+          created_at: string
+          id: string
+          is_available: boolean | null
+          menu_item_id: string
+          name: string
+          price: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_available?: boolean | null
+          menu_item_id: string
+          name: string
+          price: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_available?: boolean | null
+          menu_item_id?: string
+          name?: string
+          price?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_variants_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu_items: {
         Row: {
           category: string
@@ -56,6 +258,7 @@ export type Database = {
           image_url: string | null
           is_available: boolean | null
           price: number
+          tax_category_id: string | null
           title: string
           updated_at: string
         }
@@ -67,6 +270,7 @@ export type Database = {
           image_url?: string | null
           is_available?: boolean | null
           price: number
+          tax_category_id?: string | null
           title: string
           updated_at?: string
         }
@@ -78,38 +282,233 @@ export type Database = {
           image_url?: string | null
           is_available?: boolean | null
           price?: number
+          tax_category_id?: string | null
           title?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "menu_items_tax_category_id_fkey"
+            columns: ["tax_category_id"]
+            isOneToOne: false
+            referencedRelation: "tax_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_groups: {
+        Row: {
+          created_at: string
+          id: string
+          max_select: number
+          menu_item_id: string
+          min_select: number
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          max_select?: number
+          menu_item_id: string
+          min_select?: number
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          max_select?: number
+          menu_item_id?: string
+          min_select?: number
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_options: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          is_available: boolean | null
+          name: string
+          price: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          is_available?: boolean | null
+          name: string
+          price?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          is_available?: boolean | null
+          name?: string
+          price?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          channel: string
+          enabled: boolean
+          event: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          enabled: boolean
+          event: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          enabled?: boolean
+          event?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      operating_hours: {
+        Row: {
+          closes_at: string
+          created_at: string
+          day_of_week: number
+          id: string
+          opens_at: string
+        }
+        Insert: {
+          closes_at: string
+          created_at?: string
+          day_of_week: number
+          id?: string
+          opens_at: string
+        }
+        Update: {
+          closes_at?: string
+          created_at?: string
+          day_of_week?: number
+          id?: string
+          opens_at?: string
+        }
         Relationships: []
       }
+      order_delivery_codes: {
+        Row: {
+          code: string
+          created_at: string
+          failed_attempts: number
+          order_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          failed_attempts?: number
+          order_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          failed_attempts?: number
+          order_id?: string
+          verified_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_delivery_codes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
+          cgst: number
           created_at: string
+          gst_rate: number
+          hsn_sac_code: string
           id: string
           item_title: string
           menu_item_id: string
+          modifiers: Json
           order_id: string
           price: number
           quantity: number
+          sgst: number
+          taxable_value: number
+          variant_id: string | null
+          variant_name: string | null
         }
         Insert: {
+          cgst: number
           created_at?: string
+          gst_rate: number
+          hsn_sac_code: string
           id?: string
           item_title: string
           menu_item_id: string
+          modifiers?: Json
           order_id: string
           price: number
           quantity: number
+          sgst: number
+          taxable_value: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Update: {
+          cgst?: number
           created_at?: string
+          gst_rate?: number
+          hsn_sac_code?: string
           id?: string
           item_title?: string
           menu_item_id?: string
+          modifiers?: Json
           order_id?: string
           price?: number
           quantity?: number
+          sgst?: number
+          taxable_value?: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Relationships: [
           {
@@ -126,16 +525,77 @@ export type Database = {
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "menu_item_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          order_id: string
+          status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          order_id: string
+          status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          order_id?: string
+          status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
           address_id: string
+          cancellation_reason: string | null
+          cancelled_by: string | null
+          cash_collected: number | null
+          cash_collected_at: string | null
+          cash_collected_by: string | null
+          cgst: number
+          coupon_code: string | null
+          coupon_id: string | null
           created_at: string
           delivery_fee: number
+          discount: number
           distance_km: number
+          estimated_delivery_at: string | null
           id: string
+          invoice_date: string | null
+          invoice_number: string | null
           notes: string | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          picked_up_at: string | null
+          predicted_delivery_at: string | null
+          rider_id: string | null
+          scheduled_for: string | null
+          seller_address: string | null
+          seller_gstin: string | null
+          seller_legal_name: string | null
+          sgst: number
           status: Database["public"]["Enums"]["order_status"]
           subtotal: number
           tax: number
@@ -145,11 +605,33 @@ export type Database = {
         }
         Insert: {
           address_id: string
+          cancellation_reason?: string | null
+          cancelled_by?: string | null
+          cash_collected?: number | null
+          cash_collected_at?: string | null
+          cash_collected_by?: string | null
+          cgst?: number
+          coupon_code?: string | null
+          coupon_id?: string | null
           created_at?: string
           delivery_fee: number
+          discount?: number
           distance_km: number
+          estimated_delivery_at?: string | null
           id?: string
+          invoice_date?: string | null
+          invoice_number?: string | null
           notes?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_status?: Database["public"]["Enums"]["payment_status"]
+          picked_up_at?: string | null
+          predicted_delivery_at?: string | null
+          rider_id?: string | null
+          scheduled_for?: string | null
+          seller_address?: string | null
+          seller_gstin?: string | null
+          seller_legal_name?: string | null
+          sgst?: number
           status?: Database["public"]["Enums"]["order_status"]
           subtotal: number
           tax: number
@@ -159,11 +641,33 @@ export type Database = {
         }
         Update: {
           address_id?: string
+          cancellation_reason?: string | null
+          cancelled_by?: string | null
+          cash_collected?: number | null
+          cash_collected_at?: string | null
+          cash_collected_by?: string | null
+          cgst?: number
+          coupon_code?: string | null
+          coupon_id?: string | null
           created_at?: string
           delivery_fee?: number
+          discount?: number
           distance_km?: number
+          estimated_delivery_at?: string | null
           id?: string
+          invoice_date?: string | null
+          invoice_number?: string | null
           notes?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_status?: Database["public"]["Enums"]["payment_status"]
+          picked_up_at?: string | null
+          predicted_delivery_at?: string | null
+          rider_id?: string | null
+          scheduled_for?: string | null
+          seller_address?: string | null
+          seller_gstin?: string | null
+          seller_legal_name?: string | null
+          sgst?: number
           status?: Database["public"]["Enums"]["order_status"]
           subtotal?: number
           tax?: number
@@ -179,6 +683,66 @@ export type Database = {
             referencedRelation: "addresses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          checkout: Json | null
+          created_at: string
+          currency: string
+          failure_reason: string | null
+          id: string
+          order_id: string
+          provider: string
+          provider_order_id: string
+          provider_payment_id: string | null
+          status: Database["public"]["Enums"]["payment_status"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          checkout?: Json | null
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id: string
+          provider: string
+          provider_order_id: string
+          provider_payment_id?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          checkout?: Json | null
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id?: string
+          provider?: string
+          provider_order_id?: string
+          provider_payment_id?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -208,7 +772,10 @@ export type Database = {
           created_at: string
           endpoint: string
           id: string
+          locale: string | null
           p256dh: string
+          updated_at: string
+          user_agent: string | null
           user_id: string
         }
         Insert: {
@@ -216,7 +783,10 @@ export type Database = {
           created_at?: string
           endpoint: string
           id?: string
+          locale?: string | null
           p256dh: string
+          updated_at?: string
+          user_agent?: string | null
           user_id: string
         }
         Update: {
@@ -224,11 +794,233 @@ export type Database = {
           created_at?: string
           endpoint?: string
           id?: string
+          locale?: string | null
           p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          failure_reason: string | null
+          id: string
+          items: Json
+          order_id: string
+          payment_id: string | null
+          processed_at: string | null
+          provider_refund_id: string | null
+          reason: string
+          status: Database["public"]["Enums"]["refund_status"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          failure_reason?: string | null
+          id?: string
+          items?: Json
+          order_id: string
+          payment_id?: string | null
+          processed_at?: string | null
+          provider_refund_id?: string | null
+          reason: string
+          status?: Database["public"]["Enums"]["refund_status"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          failure_reason?: string | null
+          id?: string
+          items?: Json
+          order_id?: string
+          payment_id?: string | null
+          processed_at?: string | null
+          provider_refund_id?: string | null
+          reason?: string
+          status?: Database["public"]["Enums"]["refund_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restaurant_settings: {
+        Row: {
+          address: string
+          cancellation_grace_minutes: number
+          cod_enabled: boolean
+          cod_max_order_total: number | null
+          cod_min_delivered_orders: number
+          free_delivery_min_subtotal: number | null
+          gstin: string | null
+          id: boolean
+          invoice_prefix: string
+          kitchen_capacity: number
+          latitude: number
+          legal_name: string | null
+          longitude: number
+          max_delivery_distance_km: number
+          name: string
+          orders_paused: boolean
+          rider_speed_kmh: number
+          schedule_days_ahead: number
+          slot_capacity: number
+          slot_minutes: number
+          target_prep_minutes: number
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          address: string
+          cancellation_grace_minutes?: number
+          cod_enabled?: boolean
+          cod_max_order_total?: number | null
+          cod_min_delivered_orders?: number
+          free_delivery_min_subtotal?: number | null
+          gstin?: string | null
+          id?: boolean
+          invoice_prefix?: string
+          kitchen_capacity?: number
+          latitude: number
+          legal_name?: string | null
+          longitude: number
+          max_delivery_distance_km: number
+          name: string
+          orders_paused?: boolean
+          rider_speed_kmh?: number
+          schedule_days_ahead?: number
+          slot_capacity?: number
+          slot_minutes?: number
+          target_prep_minutes?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          cancellation_grace_minutes?: number
+          cod_enabled?: boolean
+          cod_max_order_total?: number | null
+          cod_min_delivered_orders?: number
+          free_delivery_min_subtotal?: number | null
+          gstin?: string | null
+          id?: boolean
+          invoice_prefix?: string
+          kitchen_capacity?: number
+          latitude?: number
+          legal_name?: string | null
+          longitude?: number
+          max_delivery_distance_km?: number
+          name?: string
+          orders_paused?: boolean
+          rider_speed_kmh?: number
+          schedule_days_ahead?: number
+          slot_capacity?: number
+          slot_minutes?: number
+          target_prep_minutes?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rider_locations: {
+        Row: {
+          accuracy_m: number | null
+          heading: number | null
+          latitude: number
+          longitude: number
+          rider_id: string
+          updated_at: string
+        }
+        Insert: {
+          accuracy_m?: number | null
+          heading?: number | null
+          latitude: number
+          longitude: number
+          rider_id: string
+          updated_at?: string
+        }
+        Update: {
+          accuracy_m?: number | null
+          heading?: number | null
+          latitude?: number
+          longitude?: number
+          rider_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      store_holidays: {
+        Row: {
+          created_at: string
+          holiday_date: string
+          id: string
+          reason: string | null
+        }
+        Insert: {
+          created_at?: string
+          holiday_date: string
+          id?: string
+          reason?: string | null
+        }
+        Update: {
+          created_at?: string
+          holiday_date?: string
+          id?: string
+          reason?: string | null
+        }
+        Relationships: []
+      }
+      tax_categories: {
+        Row: {
+          created_at: string
+          gst_rate: number
+          hsn_sac_code: string
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          gst_rate: number
+          hsn_sac_code: string
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          gst_rate?: number
+          hsn_sac_code?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -255,6 +1047,75 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      assign_rider: {
+        Args: { _order_id: string; _rider_id: string }
+        Returns: undefined
+      }
+      calculate_delivery_fee: {
+        Args: { _distance: number; _subtotal: number }
+        Returns: number
+      }
+      cancel_order: {
+        Args: { _order_id: string; _reason: string }
+        Returns: undefined
+      }
+      check_coupon: {
+        Args: { _code: string; _items: Json }
+        Returns: {
+          code: string
+          description: string
+          discount: number
+        }[]
+      }
+      distance_km: {
+        Args: { lat1: number; lat2: number; lng1: number; lng2: number }
+        Returns: number
+      }
+      estimate_delivery_at: {
+        Args: {
+          _order_id: string
+          _status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: string
+      }
+      expire_unpaid_orders: { Args: never; Returns: undefined }
+      get_cash_reconciliation: {
+        Args: { _date: string }
+        Returns: {
+          cash_collected: number
+          cash_handed_over: number
+          collector_id: string
+          full_name: string
+          order_count: number
+          phone: string
+        }[]
+      }
+      get_delivery_slots: {
+        Args: never
+        Returns: {
+          remaining: number
+          slot_end: string
+          slot_start: string
+        }[]
+      }
+      get_sales_report: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          day: string
+          gross_sales: number
+          net_sales: number
+          order_count: number
+          refunds: number
+        }[]
+      }
+      get_store_status: {
+        Args: never
+        Returns: {
+          is_open: boolean
+          next_open_at: string
+          reason: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -262,15 +1123,132 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_delivery_confirmed: {
+        Args: { _order_id: string }
+        Returns: boolean
+      }
+      is_unpaid_order_expired: {
+        Args: {
+          _created_at: string
+          _status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      is_valid_order_status_transition: {
+        Args: {
+          _from: Database["public"]["Enums"]["order_status"]
+          _to: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      mark_order_delivered: {
+        Args: { _code: string; _order_id: string }
+        Returns: boolean
+      }
+      mark_order_picked_up: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      next_invoice_number: {
+        Args: { _at?: string }
+        Returns: string
+      }
+      override_order_delivery: {
+        Args: { _order_id: string; _reason: string }
+        Returns: undefined
+      }
+      place_order: {
+        Args: {
+          _address?: Json
+          _address_id?: string
+          _coupon_code?: string
+          _items: Json
+          _notes?: string
+          _payment_method?: Database["public"]["Enums"]["payment_method"]
+          _scheduled_for?: string
+        }
+        Returns: string
+      }
+      price_coupon: {
+        Args: { _code: string; _items: Json; _user_id: string }
+        Returns: Record<string, unknown>
+      }
+      price_order_line: {
+        Args: { _line: Json }
+        Returns: Record<string, unknown>
+      }
+      record_payment_result: {
+        Args: {
+          _amount: number
+          _failure_reason?: string
+          _paid: boolean
+          _provider: string
+          _provider_order_id: string
+          _provider_payment_id: string
+        }
+        Returns: string
+      }
+      record_refund_result: {
+        Args: {
+          _failure_reason?: string
+          _provider_refund_id: string
+          _refund_id: string
+          _status: Database["public"]["Enums"]["refund_status"]
+        }
+        Returns: undefined
+      }
+      request_refund: {
+        Args: {
+          _admin_id: string
+          _amount?: number
+          _items?: Json
+          _order_id: string
+          _reason: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          failure_reason: string | null
+          id: string
+          items: Json
+          order_id: string
+          payment_id: string | null
+          processed_at: string | null
+          provider_refund_id: string | null
+          reason: string
+          status: Database["public"]["Enums"]["refund_status"]
+          updated_at: string
+        }
+      }
+      rotate_push_subscription: {
+        Args: {
+          _auth: string
+          _endpoint: string
+          _old_endpoint: string
+          _p256dh: string
+        }
+        Returns: boolean
+      }
+      wants_notification: {
+        Args: { _channel: string; _event: string; _user_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
-      app_role: "admin" | "user"
+      app_role: "admin" | "user" | "rider"
+      coupon_discount_type: "percentage" | "flat"
       order_status:
+        | "pending_payment"
         | "placed"
         | "preparing"
+        | "ready"
         | "out_for_delivery"
         | "delivered"
         | "cancelled"
+      payment_method: "online" | "cod"
+      payment_status: "pending" | "paid" | "failed"
+      refund_status: "pending" | "processed" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -398,14 +1376,20 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
+      app_role: ["admin", "user", "rider"],
+      coupon_discount_type: ["percentage", "flat"],
       order_status: [
+        "pending_payment",
         "placed",
         "preparing",
+        "ready",
         "out_for_delivery",
         "delivered",
         "cancelled",
       ],
+      payment_method: ["online", "cod"],
+      payment_status: ["pending", "paid", "failed"],
+      refund_status: ["pending", "processed", "failed"],
     },
   },
 } as const
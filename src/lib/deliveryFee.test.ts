@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDeliveryFee, DeliveryFeeTier } from '@/lib/deliveryFee';
+
+// Deliberately out of order; tiers are matched by distance, not position
+const tiers: DeliveryFeeTier[] = [
+  { id: 'far', up_to_km: 10, fee: 60 },
+  { id: 'near', up_to_km: 3, fee: 20 },
+  { id: 'mid', up_to_km: 6, fee: 40 },
+];
+
+describe('calculateDeliveryFee', () => {
+  it('charges the nearest tier that covers the distance', () => {
+    expect(calculateDeliveryFee(1.2, 100, tiers, null)).toBe(20);
+    expect(calculateDeliveryFee(4.5, 100, tiers, null)).toBe(40);
+    expect(calculateDeliveryFee(9, 100, tiers, null)).toBe(60);
+  });
+
+  it('includes the distance at the edge of a tier', () => {
+    expect(calculateDeliveryFee(3, 100, tiers, null)).toBe(20);
+    expect(calculateDeliveryFee(3.01, 100, tiers, null)).toBe(40);
+  });
+
+  it('returns null when no tier covers the distance', () => {
+    expect(calculateDeliveryFee(12, 100, tiers, null)).toBeNull();
+    expect(calculateDeliveryFee(1, 100, [], null)).toBeNull();
+  });
+
+  it('delivers free from the minimum subtotal', () => {
+    expect(calculateDeliveryFee(4.5, 499.99, tiers, 500)).toBe(40);
+    expect(calculateDeliveryFee(4.5, 500, tiers, 500)).toBe(0);
+  });
+});
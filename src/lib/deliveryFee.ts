@@ -0,0 +1,24 @@
+export interface DeliveryFeeTier {
+  id: string;
+  up_to_km: number;
+  fee: number;
+}
+
+// Mirrors public.calculate_delivery_fee; place_order charges the server's result.
+// Returns null when no tier covers the distance.
+export function calculateDeliveryFee(
+  distanceKm: number,
+  subtotal: number,
+  tiers: DeliveryFeeTier[],
+  freeDeliveryMinSubtotal: number | null
+): number | null {
+  if (freeDeliveryMinSubtotal !== null && subtotal >= freeDeliveryMinSubtotal) {
+    return 0;
+  }
+
+  const tier = [...tiers]
+    .sort((a, b) => a.up_to_km - b.up_to_km)
+    .find(t => t.up_to_km >= distanceKm);
+
+  return tier ? tier.fee : null;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { encodeEscPos } from '@/lib/escpos';
+import { PaperWidth, TicketLine } from '@/lib/tickets';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Printed text only, one entry per line, with the printer commands skipped
+function printedLines(lines: TicketLine[], width: PaperWidth = 58): string[] {
+  const bytes = encodeEscPos(lines, width);
+  let text = '';
+
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] === ESC) {
+      // ESC @ takes no argument, the others one
+      i += bytes[i + 1] === 0x40 ? 1 : 2;
+    } else if (bytes[i] === GS) {
+      // GS V B n cuts the paper; GS ! n sets the size
+      i += bytes[i + 1] === 0x56 ? 3 : 2;
+    } else {
+      text += String.fromCharCode(bytes[i]);
+    }
+  }
+
+  return text.split('\n').slice(0, -1);
+}
+
+describe('encodeEscPos', () => {
+  it('initialises the printer first and cuts the paper last', () => {
+    const bytes = [...encodeEscPos([{ type: 'rule' }], 58)];
+
+    expect(bytes.slice(0, 2)).toEqual([ESC, 0x40]);
+    expect(bytes.slice(-7)).toEqual([ESC, 0x64, 4, GS, 0x56, 0x42, 0]);
+  });
+
+  it('draws rules across the paper', () => {
+    expect(printedLines([{ type: 'rule' }], 58)).toEqual(['-'.repeat(32)]);
+    expect(printedLines([{ type: 'rule' }], 80)).toEqual(['-'.repeat(48)]);
+  });
+
+  it('pushes the right-hand text of a row to the edge', () => {
+    expect(printedLines([{ type: 'row', left: 'Total', right: '₹420.00' }])).toEqual([
+      `Total${' '.repeat(18)}Rs.420.00`,
+    ]);
+  });
+
+  it('wraps a long left-hand text clear of the right-hand text', () => {
+    const lines = printedLines([{ type: 'row', left: '2 x Paneer Butter Masala with Garlic Naan', right: '640.00' }]);
+
+    expect(lines).toEqual([
+      '2 x Paneer Butter Masala',
+      `with Garlic Naan${' '.repeat(10)}640.00`,
+    ]);
+  });
+
+  it('puts right-hand text wider than the paper on lines of its own', () => {
+    const right = 'x'.repeat(40);
+    const lines = printedLines([{ type: 'row', left: 'Note', right }]);
+
+    expect(lines).toEqual(['Note', 'x'.repeat(32), `${' '.repeat(24)}${'x'.repeat(8)}`]);
+  });
+
+  it('sends only ASCII', () => {
+    expect(printedLines([{ type: 'text', text: 'Crème brûlée – “chef’s” ₹90 🍮' }])).toEqual([
+      'Creme brulee - "chef\'s" Rs.90 ??',
+    ]);
+  });
+
+  it('wraps text at half the width when printed large', () => {
+    expect(printedLines([{ type: 'text', text: 'KITCHEN ORDER TICKET', large: true }])).toEqual([
+      'KITCHEN ORDER',
+      'TICKET',
+    ]);
+  });
+});
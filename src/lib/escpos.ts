@@ -0,0 +1,115 @@
+import { PAPER_COLUMNS, PaperWidth, TicketLine } from '@/lib/tickets';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const INIT = [ESC, 0x40];
+const alignCommand = (center: boolean) => [ESC, 0x61, center ? 1 : 0];
+const boldCommand = (on: boolean) => [ESC, 0x45, on ? 1 : 0];
+// Double width and height
+const sizeCommand = (large: boolean) => [GS, 0x21, large ? 0x11 : 0x00];
+const FEED_AND_CUT = [ESC, 0x64, 4, GS, 0x56, 0x42, 0x00];
+
+// Thermal printers only reliably share plain ASCII; spell out the rest
+const ASCII_REPLACEMENTS: Record<string, string> = {
+  '₹': 'Rs.',
+  '–': '-',
+  '—': '-',
+  '·': '-',
+  '×': 'x',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+};
+
+function toAscii(text: string): string {
+  return text
+    .replace(/[₹–—·×‘’“”]/g, char => ASCII_REPLACEMENTS[char])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+function wrap(text: string, columns: number): string[] {
+  const lines: string[] = [];
+  // Keep any indent on the first line
+  let current = text.match(/^ */)![0];
+
+  for (const word of text.trimStart().split(' ')) {
+    if (!current.trim()) {
+      current += word;
+    } else if (current.length + 1 + word.length <= columns) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+
+    while (current.length > columns) {
+      lines.push(current.slice(0, columns));
+      current = current.slice(columns);
+    }
+  }
+
+  return [...lines, current];
+}
+
+// Raw bytes for a thermal printer, for a local print bridge to send as-is
+export function encodeEscPos(lines: TicketLine[], width: PaperWidth): Uint8Array {
+  const columns = PAPER_COLUMNS[width];
+  const bytes: number[] = [...INIT];
+
+  const pushText = (text: string) => {
+    for (let i = 0; i < text.length; i++) bytes.push(text.charCodeAt(i));
+    bytes.push(LF);
+  };
+
+  for (const line of lines) {
+    if (line.type === 'rule') {
+      pushText('-'.repeat(columns));
+      continue;
+    }
+
+    if (line.type === 'row') {
+      const left = toAscii(line.left);
+      const right = toAscii(line.right);
+      const leftColumns = columns - right.length - 1;
+
+      bytes.push(...boldCommand(!!line.bold));
+      if (leftColumns < 1) {
+        // No room beside the right-hand text, so it goes on lines of its own
+        wrap(left, columns).forEach(pushText);
+        wrap(right, columns).forEach(text => pushText(text.padStart(columns)));
+      } else {
+        const leftLines = wrap(left, leftColumns);
+        const last = leftLines.pop()!;
+        leftLines.forEach(pushText);
+        pushText(last + ' '.repeat(columns - last.length - right.length) + right);
+      }
+      bytes.push(...boldCommand(false));
+      continue;
+    }
+
+    bytes.push(
+      ...alignCommand(line.align === 'center'),
+      ...boldCommand(!!line.bold),
+      ...sizeCommand(!!line.large),
+    );
+    wrap(toAscii(line.text), line.large ? Math.floor(columns / 2) : columns).forEach(pushText);
+    bytes.push(...alignCommand(false), ...boldCommand(false), ...sizeCommand(false));
+  }
+
+  bytes.push(...FEED_AND_CUT);
+  return new Uint8Array(bytes);
+}
+
+export function downloadEscPos(bytes: Uint8Array, filename: string): void {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,11 @@
+// Minutes between the first predicted delivery time and the real one;
+// positive when the order arrived late
+export function etaErrorMinutes(predicted: string, actual: string): number {
+  return Math.round((new Date(actual).getTime() - new Date(predicted).getTime()) / 60000);
+}
+
+// e.g. "12 min late", "3 min early", "on time"
+export function describeEtaError(minutes: number): string {
+  if (minutes === 0) return 'on time';
+  return minutes > 0 ? `${minutes} min late` : `${-minutes} min early`;
+}
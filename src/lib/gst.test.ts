@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGst, formatGstRate, gstinStateCode } from '@/lib/gst';
+
+describe('calculateGst', () => {
+  it('taxes each line at its own rate', () => {
+    const lines = [
+      { amount: 200, gst_rate: 0.05 },
+      { amount: 100, gst_rate: 0.18 },
+    ];
+
+    expect(calculateGst(lines, 300, 0)).toEqual({ cgst: 14, sgst: 14 });
+  });
+
+  // Same order as supabase/tests/database/gst.test.sql: taxable values of
+  // 96.67, 96.67 and 96.66 once ₹10 comes off ₹300
+  it('spreads the discount over the lines before tax', () => {
+    const lines = [
+      { amount: 100, gst_rate: 0.05 },
+      { amount: 100, gst_rate: 0.05 },
+      { amount: 100, gst_rate: 0.05 },
+    ];
+
+    expect(calculateGst(lines, 300, 10)).toEqual({ cgst: 7.26, sgst: 7.26 });
+  });
+
+  it('does not tax free orders', () => {
+    expect(calculateGst([{ amount: 0, gst_rate: 0.05 }], 0, 0)).toEqual({ cgst: 0, sgst: 0 });
+  });
+
+  it('handles an empty cart', () => {
+    expect(calculateGst([], 0, 0)).toEqual({ cgst: 0, sgst: 0 });
+  });
+});
+
+describe('formatGstRate', () => {
+  it('shows rates as percentages', () => {
+    expect(formatGstRate(0.18)).toBe('18%');
+    expect(formatGstRate(0.09)).toBe('9%');
+    expect(formatGstRate(0.025)).toBe('2.5%');
+    expect(formatGstRate(0)).toBe('0%');
+  });
+});
+
+describe('gstinStateCode', () => {
+  it('reads the state code off a GSTIN', () => {
+    expect(gstinStateCode('33AAAAA0000A1Z5')).toBe('33');
+    expect(gstinStateCode(null)).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+export interface TaxCategory {
+  id: string;
+  name: string;
+  hsn_sac_code: string;
+  gst_rate: number;
+  is_default: boolean;
+}
+
+export interface GstLine {
+  amount: number;
+  gst_rate: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// Mirrors public.place_order: each line takes its share of the discount off
+// before tax, the last line takes the rounding remainder, and CGST and SGST
+// are half the rate each. place_order stores the server's lines on the order.
+export function calculateGst(lines: GstLine[], subtotal: number, discount: number): { cgst: number; sgst: number } {
+  const share = subtotal > 0 ? (subtotal - discount) / subtotal : 1;
+  const taxableValues = lines.map(line => roundAmount(line.amount * share));
+
+  if (taxableValues.length > 0) {
+    const remainder = subtotal - discount - taxableValues.reduce((sum, value) => sum + value, 0);
+    taxableValues[taxableValues.length - 1] = roundAmount(taxableValues[taxableValues.length - 1] + remainder);
+  }
+
+  const cgst = lines.reduce((sum, line, idx) => sum + roundAmount(taxableValues[idx] * line.gst_rate / 2), 0);
+
+  return { cgst: roundAmount(cgst), sgst: roundAmount(cgst) };
+}
+
+// 0.18 -> "18%", 0.09 -> "9%", 0.025 -> "2.5%"
+export function formatGstRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+// The first two digits of a GSTIN are the state code, which is also the place
+// of supply for a restaurant delivering within its own state
+export function gstinStateCode(gstin: string | null): string | null {
+  return gstin ? gstin.slice(0, 2) : null;
+}
@@ -0,0 +1,154 @@
+import { format } from 'date-fns';
+import { formatGstRate, gstinStateCode } from '@/lib/gst';
+import { escapeHtml } from '@/lib/tickets';
+
+export interface InvoiceOrder {
+  invoice_number: string;
+  invoice_date: string;
+  seller_legal_name: string;
+  seller_address: string;
+  seller_gstin: string | null;
+  subtotal: number;
+  discount: number;
+  coupon_code: string | null;
+  cgst: number;
+  sgst: number;
+  delivery_fee: number;
+  total: number;
+  order_items: Array<{
+    quantity: number;
+    price: number;
+    item_title: string;
+    variant_name: string | null;
+    hsn_sac_code: string;
+    gst_rate: number;
+    taxable_value: number;
+    cgst: number;
+    sgst: number;
+  }>;
+}
+
+export interface InvoiceCustomer {
+  name: string;
+  phone: string | null;
+  address: string;
+}
+
+function formatAmount(amount: number): string {
+  return Number(amount).toFixed(2);
+}
+
+// A4 tax invoice as a standalone HTML page. Everything on it comes from what
+// was stored on the order when it was placed and paid, never from current
+// settings or prices.
+export function renderInvoiceHtml(order: InvoiceOrder, customer: InvoiceCustomer): string {
+  const stateCode = gstinStateCode(order.seller_gstin);
+
+  const rows = order.order_items.map((item, idx) => `
+    <tr>
+      <td>${idx + 1}</td>
+      <td>${escapeHtml(item.item_title)}${item.variant_name ? ` (${escapeHtml(item.variant_name)})` : ''}</td>
+      <td>${escapeHtml(item.hsn_sac_code)}</td>
+      <td class="num">${item.quantity}</td>
+      <td class="num">${formatAmount(item.price)}</td>
+      <td class="num">${formatAmount(item.taxable_value)}</td>
+      <td class="num">${formatGstRate(item.gst_rate / 2)}</td>
+      <td class="num">${formatAmount(item.cgst)}</td>
+      <td class="num">${formatGstRate(item.gst_rate / 2)}</td>
+      <td class="num">${formatAmount(item.sgst)}</td>
+    </tr>`).join('');
+
+  const totals: Array<[string, string]> = [['Item total', formatAmount(order.subtotal)]];
+  if (order.discount > 0) {
+    totals.push([
+      order.coupon_code ? `Discount (${escapeHtml(order.coupon_code)})` : 'Discount',
+      `-${formatAmount(order.discount)}`,
+    ]);
+  }
+  totals.push(
+    ['Taxable value', formatAmount(order.subtotal - order.discount)],
+    ['CGST', formatAmount(order.cgst)],
+    ['SGST', formatAmount(order.sgst)],
+    ['Delivery charges', formatAmount(order.delivery_fee)],
+  );
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Tax Invoice ${escapeHtml(order.invoice_number)}</title>
+<style>
+  @page { size: A4; margin: 15mm; }
+  body { max-width: 180mm; margin: 0 auto; font: 12px/1.4 sans-serif; color: #000; }
+  h1 { font-size: 18px; text-align: center; margin: 0 0 12px; }
+  .parties { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 12px; }
+  .parties p { margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #000; padding: 4px; text-align: left; vertical-align: top; }
+  th { background: #eee; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals { width: 50%; margin: 12px 0 0 auto; }
+  .totals .grand td { font-weight: bold; }
+  .footer { margin-top: 24px; font-size: 11px; color: #444; }
+</style>
+</head>
+<body>
+<h1>Tax Invoice</h1>
+<div class="parties">
+  <div>
+    <p><strong>${escapeHtml(order.seller_legal_name)}</strong></p>
+    <p>${escapeHtml(order.seller_address)}</p>
+    ${order.seller_gstin ? `<p>GSTIN: ${escapeHtml(order.seller_gstin)}</p>` : ''}
+  </div>
+  <div>
+    <p>Invoice No: <strong>${escapeHtml(order.invoice_number)}</strong></p>
+    <p>Invoice Date: ${format(new Date(order.invoice_date), 'd MMM yyyy')}</p>
+    ${stateCode ? `<p>Place of Supply: ${escapeHtml(stateCode)}</p>` : ''}
+  </div>
+</div>
+<div class="parties">
+  <div>
+    <p><strong>Bill to</strong></p>
+    <p>${escapeHtml(customer.name)}${customer.phone ? ` · ${escapeHtml(customer.phone)}` : ''}</p>
+    <p>${escapeHtml(customer.address)}</p>
+  </div>
+</div>
+<table>
+  <thead>
+    <tr>
+      <th>#</th>
+      <th>Item</th>
+      <th>HSN/SAC</th>
+      <th class="num">Qty</th>
+      <th class="num">Rate</th>
+      <th class="num">Taxable Value</th>
+      <th class="num">CGST %</th>
+      <th class="num">CGST</th>
+      <th class="num">SGST %</th>
+      <th class="num">SGST</th>
+    </tr>
+  </thead>
+  <tbody>${rows}
+  </tbody>
+</table>
+<table class="totals">
+  ${totals.map(([label, amount]) => `<tr><td>${label}</td><td class="num">${amount}</td></tr>`).join('\n  ')}
+  <tr class="grand"><td>Total (₹)</td><td class="num">${formatAmount(order.total)}</td></tr>
+</table>
+<p class="footer">Amounts in Indian Rupees. This is a computer generated invoice and needs no signature.</p>
+</body>
+</html>`;
+}
+
+// Saves the invoice as an HTML file the customer can open and print to PDF
+export function downloadInvoice(order: InvoiceOrder, customer: InvoiceCustomer): void {
+  const blob = new Blob([renderInvoiceHtml(order, customer)], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `Invoice-${order.invoice_number.replace(/\//g, '-')}.html`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,38 @@
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+// Fix for default marker icon
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
+
+delete (L.Icon.Default.prototype as any)._getIconUrl;
+L.Icon.Default.mergeOptions({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+});
+
+export function addBaseTiles(map: L.Map): L.TileLayer {
+  return L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  }).addTo(map);
+}
+
+// Leaflet draws lines and circles as SVG attributes, where var() does not
+// resolve, so theme colours are passed in as their current value
+export function themeColor(variable: string): string {
+  return `hsl(${getComputedStyle(document.documentElement).getPropertyValue(variable).trim()})`;
+}
+
+// Round marker in the given CSS colour, e.g. the restaurant or a rider
+export function dotIcon(color: string, size = 12): L.DivIcon {
+  return L.divIcon({
+    className: 'dot-marker',
+    html: `<div style="background: ${color}; width: ${size}px; height: ${size}px; border-radius: 50%; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);"></div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+export default L;
@@ -0,0 +1,26 @@
+export interface SelectedModifier {
+  group: string;
+  option: string;
+  price: number;
+}
+
+// "Spice level: Hot · Extra toppings: Fried Egg, Cashews"
+export function formatModifiers(modifiers: SelectedModifier[] | null | undefined): string {
+  if (!modifiers || modifiers.length === 0) return '';
+
+  const byGroup = new Map<string, string[]>();
+  for (const modifier of modifiers) {
+    byGroup.set(modifier.group, [...(byGroup.get(modifier.group) || []), modifier.option]);
+  }
+
+  return [...byGroup.entries()]
+    .map(([group, options]) => `${group}: ${options.join(', ')}`)
+    .join(' · ');
+}
+
+// Selection hint shown next to a modifier group name
+export function describeSelectionRule(minSelect: number, maxSelect: number): string {
+  if (minSelect === maxSelect) return `Choose ${minSelect}`;
+  if (minSelect === 0) return `Choose up to ${maxSelect}`;
+  return `Choose ${minSelect}–${maxSelect}`;
+}
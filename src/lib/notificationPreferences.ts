@@ -0,0 +1,33 @@
+export type NotificationEvent =
+  | 'placed'
+  | 'preparing'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'cancelled'
+  | 'promotions';
+
+export type NotificationChannel = 'push' | 'email' | 'sms';
+
+export const NOTIFICATION_EVENTS: { value: NotificationEvent; label: string }[] = [
+  { value: 'placed', label: 'Order placed' },
+  { value: 'preparing', label: 'Being prepared' },
+  { value: 'out_for_delivery', label: 'Out for delivery' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'promotions', label: 'Offers & promotions' },
+];
+
+export const NOTIFICATION_CHANNELS: { value: NotificationChannel; label: string }[] = [
+  { value: 'push', label: 'Push' },
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+];
+
+// Mirrors the fallback in public.wants_notification for events with no saved row
+export function defaultNotificationPreference(event: NotificationEvent, channel: NotificationChannel): boolean {
+  return channel === 'push' && event !== 'promotions';
+}
+
+export function notificationPreferenceKey(event: NotificationEvent, channel: NotificationChannel): string {
+  return `${event}:${channel}`;
+}
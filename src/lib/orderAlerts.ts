@@ -0,0 +1,50 @@
+// Sound and desktop alerts for the Admin order queue. Browsers only allow audio
+// and notification prompts after a user gesture, so call enableOrderAlerts from
+// a click handler before relying on the others.
+
+let audioContext: AudioContext | null = null;
+
+export function orderAlertsEnabled(): boolean {
+  return audioContext?.state === 'running';
+}
+
+export async function enableOrderAlerts(): Promise<boolean> {
+  audioContext ??= new AudioContext();
+  await audioContext.resume();
+
+  if ('Notification' in window && Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+
+  return orderAlertsEnabled();
+}
+
+// Two short rising tones, loud enough to hear over a busy kitchen
+export function playOrderAlert(): void {
+  if (!audioContext || audioContext.state !== 'running') return;
+
+  [0, 0.25].forEach((offset, index) => {
+    const start = audioContext!.currentTime + offset;
+    const oscillator = audioContext!.createOscillator();
+    const gain = audioContext!.createGain();
+
+    oscillator.type = 'sine';
+    oscillator.frequency.value = index === 0 ? 880 : 1320;
+    gain.gain.setValueAtTime(0.4, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2);
+
+    oscillator.connect(gain).connect(audioContext!.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.2);
+  });
+}
+
+export function showOrderNotification(title: string, body: string, tag: string): void {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(title, { body, tag });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { ORDER_STATUS_LABELS, ORDER_STATUS_TRANSITIONS, OrderStatus } from '@/lib/orderStatus';
+
+const statuses = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+
+describe('ORDER_STATUS_TRANSITIONS', () => {
+  it('treats delivered and cancelled as final', () => {
+    expect(ORDER_STATUS_TRANSITIONS.delivered).toEqual([]);
+    expect(ORDER_STATUS_TRANSITIONS.cancelled).toEqual([]);
+  });
+
+  it('lets every open order be cancelled', () => {
+    for (const status of statuses) {
+      if (status === 'delivered' || status === 'cancelled') continue;
+      expect(ORDER_STATUS_TRANSITIONS[status]).toContain('cancelled');
+    }
+  });
+
+  it('keeps unpaid orders away from the kitchen', () => {
+    expect(ORDER_STATUS_TRANSITIONS.pending_payment).toEqual(['cancelled']);
+  });
+
+  it('lets kitchens without a display skip ready', () => {
+    expect(ORDER_STATUS_TRANSITIONS.preparing).toContain('out_for_delivery');
+  });
+
+  it('never moves an order back to placed', () => {
+    for (const status of statuses) {
+      expect(ORDER_STATUS_TRANSITIONS[status]).not.toContain('placed');
+    }
+  });
+});
+
+describe('ORDER_STATUS_LABELS', () => {
+  it('has a label for every status', () => {
+    expect(Object.keys(ORDER_STATUS_LABELS).sort()).toEqual([...statuses].sort());
+  });
+});
@@ -0,0 +1,24 @@
+export type OrderStatus = 'pending_payment' | 'placed' | 'preparing' | 'ready' | 'out_for_delivery' | 'delivered' | 'cancelled';
+
+// The changes staff can make, as public.is_valid_order_status_transition allows
+// them; the database rejects anything else. It also moves pending_payment to
+// placed itself once the payment is captured, which nobody does by hand.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending_payment: ['cancelled'],
+  placed: ['preparing', 'cancelled'],
+  preparing: ['ready', 'out_for_delivery', 'cancelled'],
+  ready: ['out_for_delivery', 'cancelled'],
+  out_for_delivery: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending_payment: 'Awaiting Payment',
+  placed: 'Placed',
+  preparing: 'Preparing',
+  ready: 'Ready',
+  out_for_delivery: 'Out for Delivery',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
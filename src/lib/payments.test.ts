@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { codUnavailableReason } from '@/lib/payments';
+
+// payments.ts calls edge functions through the app's client, which needs a browser
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const settings = {
+  cod_enabled: true,
+  cod_max_order_total: 1000,
+  cod_min_delivered_orders: 0,
+};
+
+describe('codUnavailableReason', () => {
+  it('allows cash within the limits', () => {
+    expect(codUnavailableReason(settings, 1000, 0)).toBeNull();
+  });
+
+  it('refuses cash when it is turned off', () => {
+    expect(codUnavailableReason({ ...settings, cod_enabled: false }, 100, 5))
+      .toBe('Cash on delivery is not available right now');
+  });
+
+  it('refuses cash over the order limit', () => {
+    expect(codUnavailableReason(settings, 1000.01, 0)).toBe('Available for orders up to ₹1000');
+  });
+
+  it('has no order limit when none is set', () => {
+    expect(codUnavailableReason({ ...settings, cod_max_order_total: null }, 50000, 0)).toBeNull();
+  });
+
+  it('waits for enough delivered orders', () => {
+    expect(codUnavailableReason({ ...settings, cod_min_delivered_orders: 1 }, 100, 0))
+      .toBe('Available from your second order');
+    expect(codUnavailableReason({ ...settings, cod_min_delivered_orders: 3 }, 100, 2))
+      .toBe('Available once we have delivered 3 orders to you');
+    expect(codUnavailableReason({ ...settings, cod_min_delivered_orders: 3 }, 100, 3)).toBeNull();
+  });
+});
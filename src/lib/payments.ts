@@ -0,0 +1,155 @@
+import { supabase } from '@/integrations/supabase/client';
+import { RestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { shortOrderId } from '@/lib/tickets';
+import { RefundItem, RefundStatus } from '@/lib/refunds';
+
+export type PaymentMethod = 'online' | 'cod';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  online: 'Online',
+  cod: 'Cash on delivery',
+};
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Payment pending',
+  paid: 'Paid online',
+  failed: 'Payment failed',
+};
+
+// e.g. "Cash on delivery · Collect ₹420.00" on order cards
+export function describePayment(order: {
+  payment_method: PaymentMethod;
+  payment_status: PaymentStatus;
+  total: number;
+  cash_collected: number | null;
+}): string {
+  if (order.payment_method === 'online') {
+    return PAYMENT_STATUS_LABELS[order.payment_status];
+  }
+
+  return order.cash_collected !== null
+    ? `Cash collected ₹${Number(order.cash_collected).toFixed(2)}`
+    : `Cash on delivery · Collect ₹${order.total.toFixed(2)}`;
+}
+
+// Same rules as public.place_order, which has the final say. Null when the
+// customer may pay cash for this order.
+export function codUnavailableReason(
+  settings: Pick<RestaurantSettings, 'cod_enabled' | 'cod_max_order_total' | 'cod_min_delivered_orders'>,
+  orderTotal: number,
+  deliveredOrders: number,
+): string | null {
+  if (!settings.cod_enabled) {
+    return 'Cash on delivery is not available right now';
+  }
+
+  if (settings.cod_max_order_total !== null && orderTotal > settings.cod_max_order_total) {
+    return `Available for orders up to ₹${settings.cod_max_order_total}`;
+  }
+
+  if (deliveredOrders < settings.cod_min_delivered_orders) {
+    return settings.cod_min_delivered_orders === 1
+      ? 'Available from your second order'
+      : `Available once we have delivered ${settings.cod_min_delivered_orders} orders to you`;
+  }
+
+  return null;
+}
+
+// 'paid' only means the customer finished the gateway's checkout; the order
+// is confirmed once payment-webhook has heard from the gateway
+export type PaymentOutcome = 'paid' | 'failed' | 'dismissed';
+
+export interface PaymentSession {
+  payment_id: string;
+  provider: 'mock' | 'razorpay';
+  amount: number;
+  currency: string;
+  checkout: Record<string, unknown>;
+}
+
+interface RazorpayOptions extends Record<string, unknown> {
+  handler: () => void;
+  modal: { ondismiss: () => void };
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: RazorpayOptions) => { open: () => void };
+  }
+}
+
+const RAZORPAY_SCRIPT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+
+async function invokeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    // Prefer the function's own message over the generic non-2xx one
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+
+  return data as T;
+}
+
+export function createPaymentSession(orderId: string) {
+  return invokeFunction<PaymentSession>('create-payment', { order_id: orderId });
+}
+
+// Settles a mock gateway payment as if the customer had paid or been declined
+export function completeMockPayment(paymentId: string, outcome: Exclude<PaymentOutcome, 'dismissed'>) {
+  return invokeFunction<{ outcome: PaymentOutcome }>('mock-payment', { payment_id: paymentId, outcome });
+}
+
+export interface RefundRequest {
+  reason: string;
+  // Item-level refund; leave out with amount for a full refund of what's left
+  items?: RefundItem[];
+  amount?: number;
+}
+
+// Refunds online payments through the gateway; cash refunds are just recorded
+export function issueRefund(orderId: string, request: RefundRequest) {
+  return invokeFunction<{ refund_id: string; amount: number; status: RefundStatus }>('create-refund', {
+    order_id: orderId,
+    ...request,
+  });
+}
+
+let razorpayScript: Promise<void> | null = null;
+
+function loadRazorpay() {
+  razorpayScript ??= new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = RAZORPAY_SCRIPT_URL;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      razorpayScript = null;
+      reject(new Error('Failed to load the payment page. Check your connection and try again.'));
+    };
+    document.body.appendChild(script);
+  });
+
+  return razorpayScript;
+}
+
+// Razorpay Checkout handles retries after a failed attempt itself, so the
+// customer either completes a payment or closes it
+export async function openRazorpayCheckout(session: PaymentSession, orderId: string): Promise<PaymentOutcome> {
+  await loadRazorpay();
+
+  return new Promise(resolve => {
+    const checkout = new window.Razorpay!({
+      ...session.checkout,
+      name: 'FriendHome',
+      description: `Order #${shortOrderId(orderId)}`,
+      handler: () => resolve('paid'),
+      modal: { ondismiss: () => resolve('dismissed') },
+    });
+
+    checkout.open();
+  });
+}
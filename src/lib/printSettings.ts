@@ -0,0 +1,28 @@
+import { PaperWidth } from '@/lib/tickets';
+
+// Kept per device, since each till or kitchen tablet has its own printer
+export interface PrintSettings {
+  paperWidth: PaperWidth;
+  // Print a kitchen ticket as soon as a new order arrives in the Admin queue
+  autoPrintKot: boolean;
+}
+
+const STORAGE_KEY = 'print-settings';
+
+const defaultPrintSettings: PrintSettings = {
+  paperWidth: 80,
+  autoPrintKot: false,
+};
+
+export function getPrintSettings(): PrintSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...defaultPrintSettings, ...JSON.parse(saved) } : defaultPrintSettings;
+  } catch {
+    return defaultPrintSettings;
+  }
+}
+
+export function savePrintSettings(settings: PrintSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -1,6 +1,27 @@
 import { supabase } from '@/integrations/supabase/client';
 
-const VAPID_PUBLIC_KEY = 'BKxBw6K5t7MqI9gC_xN8jY3pL2vR5wS8uT6oP1mK4nH9fG7dC3bA2xZ1yW0vU5tS8rQ7pO6nM5lK4jI3hG2fE1dC0b';
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+// Shared with public/sw.js, which reads the endpoint back on pushsubscriptionchange
+const ENDPOINT_CACHE = 'push-subscription';
+const ENDPOINT_CACHE_KEY = '/current-endpoint';
+
+export function isPushSupported(): boolean {
+  return !!VAPID_PUBLIC_KEY
+    && 'Notification' in window
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window;
+}
+
+// The worker gets what it needs to re-register a rotated subscription on its own
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration> {
+  const params = new URLSearchParams({
+    supabaseUrl: import.meta.env.VITE_SUPABASE_URL,
+    supabaseKey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    vapidPublicKey: VAPID_PUBLIC_KEY,
+  });
+  return navigator.serviceWorker.register(`/sw.js?${params}`);
+}
 
 export async function requestNotificationPermission(): Promise<boolean> {
   if (!('Notification' in window)) {
@@ -17,17 +38,27 @@ export async function requestNotificationPermission(): Promise<boolean> {
   return permission === 'granted';
 }
 
+export async function getCurrentSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
 export async function subscribeToPushNotifications(userId: string): Promise<boolean> {
+  if (!VAPID_PUBLIC_KEY) {
+    console.warn('VITE_VAPID_PUBLIC_KEY is not set');
+    return false;
+  }
+
   try {
     const registration = await navigator.serviceWorker.ready;
-    
+
     const subscription = await registration.pushManager.subscribe({
       userVisibleOnly: true,
       applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY) as BufferSource,
     });
 
     const subscriptionData = JSON.parse(JSON.stringify(subscription));
-    
+
     // Save subscription to database
     const { error } = await supabase
       .from('push_subscriptions')
@@ -36,12 +67,16 @@ export async function subscribeToPushNotifications(userId: string): Promise<bool
         endpoint: subscriptionData.endpoint,
         p256dh: subscriptionData.keys.p256dh,
         auth: subscriptionData.keys.auth,
+        locale: navigator.language,
+        user_agent: navigator.userAgent,
       }, {
         onConflict: 'endpoint'
       });
 
     if (error) throw error;
-    
+
+    await rememberEndpoint(subscriptionData.endpoint);
+
     return true;
   } catch (error) {
     console.error('Error subscribing to push notifications:', error);
@@ -49,25 +84,58 @@ export async function subscribeToPushNotifications(userId: string): Promise<bool
   }
 }
 
-export async function unsubscribeFromPushNotifications(userId: string): Promise<void> {
+// Turns off push on this device only; the user's other devices keep theirs
+export async function unsubscribeFromPushNotifications(): Promise<void> {
   try {
-    const registration = await navigator.serviceWorker.ready;
-    const subscription = await registration.pushManager.getSubscription();
-    
+    const subscription = await getCurrentSubscription();
+
     if (subscription) {
-      await subscription.unsubscribe();
-      
       // Remove from database
       await supabase
         .from('push_subscriptions')
         .delete()
-        .eq('user_id', userId);
+        .eq('endpoint', subscription.endpoint);
+
+      await subscription.unsubscribe();
+      await forgetEndpoint();
     }
   } catch (error) {
     console.error('Error unsubscribing from push notifications:', error);
   }
 }
 
+// e.g. "Chrome on Android"
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+
+  const os = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+async function rememberEndpoint(endpoint: string): Promise<void> {
+  if (!('caches' in window)) return;
+  const cache = await caches.open(ENDPOINT_CACHE);
+  await cache.put(ENDPOINT_CACHE_KEY, new Response(endpoint));
+}
+
+async function forgetEndpoint(): Promise<void> {
+  if (!('caches' in window)) return;
+  await caches.delete(ENDPOINT_CACHE);
+}
+
 function urlBase64ToUint8Array(base64String: string): Uint8Array {
   const padding = '='.repeat((4 - base64String.length % 4) % 4);
   const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Refund, refundableAmount } from '@/lib/refunds';
+
+const refund = (amount: number, paymentId: string | null, status: Refund['status'] = 'processed'): Refund => ({
+  id: crypto.randomUUID(),
+  payment_id: paymentId,
+  amount,
+  status,
+  reason: 'Item missing',
+  items: [],
+  created_at: '2025-12-30T12:00:00Z',
+});
+
+describe('refundableAmount', () => {
+  it('takes cash refunds out of the order total', () => {
+    const order = { total: 420, payment_method: 'cod' as const, payments: [], refunds: [refund(120, null)] };
+    expect(refundableAmount(order)).toBe(300);
+  });
+
+  it('ignores failed refunds', () => {
+    const order = {
+      total: 105,
+      payment_method: 'online' as const,
+      payments: [{ id: 'pay_1', amount: 105, status: 'paid' as const }],
+      refunds: [refund(105, 'pay_1', 'failed')],
+    };
+    expect(refundableAmount(order)).toBe(105);
+  });
+
+  it('leaves a returned duplicate payment out of what can be refunded', () => {
+    const order = {
+      total: 105,
+      payment_method: 'online' as const,
+      payments: [
+        { id: 'pay_1', amount: 105, status: 'paid' as const },
+        { id: 'pay_2', amount: 105, status: 'paid' as const },
+        { id: 'pay_3', amount: 105, status: 'failed' as const },
+      ],
+      refunds: [refund(105, 'pay_2'), refund(5.5, 'pay_1')],
+    };
+    expect(refundableAmount(order)).toBe(99.5);
+  });
+
+  it('is nothing once every payment is refunded', () => {
+    const order = {
+      total: 105,
+      payment_method: 'online' as const,
+      payments: [{ id: 'pay_1', amount: 105, status: 'paid' as const }],
+      refunds: [refund(105, 'pay_1', 'pending')],
+    };
+    expect(refundableAmount(order)).toBe(0);
+  });
+});
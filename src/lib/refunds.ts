@@ -0,0 +1,82 @@
+import type { PaymentMethod, PaymentStatus } from '@/lib/payments';
+
+export type RefundStatus = 'pending' | 'processed' | 'failed';
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: 'Processing',
+  processed: 'Refunded',
+  failed: 'Refund failed',
+};
+
+export interface RefundItem {
+  order_item_id: string;
+  quantity: number;
+}
+
+export interface Refund {
+  id: string;
+  // NULL for cash refunds
+  payment_id: string | null;
+  amount: number;
+  status: RefundStatus;
+  reason: string;
+  items: RefundItem[];
+  created_at: string;
+}
+
+// Failed refunds gave nothing back, so they don't count
+export function refundedAmount(refunds: Refund[]): number {
+  return refunds
+    .filter(refund => refund.status !== 'failed')
+    .reduce((sum, refund) => sum + Number(refund.amount), 0);
+}
+
+// Same as public.request_refund: an online refund comes out of the captured
+// payment with the most left, so a duplicate payment that was already
+// returned doesn't count against the order
+export function refundableAmount(order: {
+  total: number;
+  payment_method: PaymentMethod;
+  payments: Array<{ id: string; amount: number; status: PaymentStatus }>;
+  refunds: Refund[];
+}): number {
+  const left = order.payment_method === 'cod'
+    ? [order.total - refundedAmount(order.refunds)]
+    : order.payments
+      .filter(payment => payment.status === 'paid')
+      .map(payment => Number(payment.amount) - refundedAmount(order.refunds.filter(refund => refund.payment_id === payment.id)));
+
+  return Math.round(Math.max(0, ...left) * 100) / 100;
+}
+
+export function refundedQuantity(refunds: Refund[], orderItemId: string): number {
+  return refunds
+    .filter(refund => refund.status !== 'failed')
+    .flatMap(refund => refund.items)
+    .filter(item => item.order_item_id === orderItemId)
+    .reduce((sum, item) => sum + item.quantity, 0);
+}
+
+// Same as public.request_refund: what each line was charged after the
+// discount, with the GST stored on it, for the quantity refunded
+export function itemsRefundAmount(
+  order: {
+    order_items: Array<{ id: string; quantity: number; taxable_value: number; cgst: number; sgst: number }>;
+  },
+  items: RefundItem[],
+): number {
+  const itemsTotal = items.reduce((sum, item) => {
+    const orderItem = order.order_items.find(i => i.id === item.order_item_id);
+    if (!orderItem) return sum;
+
+    const lineTotal = Number(orderItem.taxable_value) + Number(orderItem.cgst) + Number(orderItem.sgst);
+    return sum + (lineTotal * item.quantity) / orderItem.quantity;
+  }, 0);
+
+  return Math.round(itemsTotal * 100) / 100;
+}
+
+// e.g. "₹126.00 Refunded · Item missing"
+export function describeRefund(refund: Refund): string {
+  return `₹${Number(refund.amount).toFixed(2)} ${REFUND_STATUS_LABELS[refund.status]} · ${refund.reason}`;
+}
@@ -0,0 +1,34 @@
+import { format, isToday, isTomorrow } from 'date-fns';
+
+export interface StoreStatus {
+  is_open: boolean;
+  reason: 'paused' | 'holiday' | 'closed' | null;
+  next_open_at: string | null;
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Short customer-facing explanation for a closed store, e.g. "Closed today · Opens tomorrow at 11:00 AM"
+export function describeStoreStatus(status: StoreStatus): string {
+  if (status.is_open) return 'Open now';
+
+  const headline = status.reason === 'paused'
+    ? 'Not accepting orders right now'
+    : status.reason === 'holiday'
+      ? 'Closed today'
+      : 'Closed now';
+
+  if (!status.next_open_at) return headline;
+
+  const opensAt = new Date(status.next_open_at);
+  const day = isToday(opensAt) ? 'today' : isTomorrow(opensAt) ? 'tomorrow' : format(opensAt, 'EEEE');
+  return `${headline} · Opens ${day} at ${format(opensAt, 'p')}`;
+}
+
+// e.g. "Today, 7:00 PM – 7:30 PM"
+export function formatDeliverySlot(start: string, end?: string): string {
+  const startDate = new Date(start);
+  const day = isToday(startDate) ? 'Today' : isTomorrow(startDate) ? 'Tomorrow' : format(startDate, 'EEE, d MMM');
+  const range = end ? `${format(startDate, 'p')} – ${format(new Date(end), 'p')}` : format(startDate, 'p');
+  return `${day}, ${range}`;
+}
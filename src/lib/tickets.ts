@@ -0,0 +1,220 @@
+import { format } from 'date-fns';
+import { formatModifiers, SelectedModifier } from '@/lib/modifiers';
+import { formatDeliverySlot } from '@/lib/storeStatus';
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's default font
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+// A ticket is a list of lines that both the HTML and ESC/POS renderers understand
+export type TicketLine =
+  | { type: 'text'; text: string; align?: 'left' | 'center'; bold?: boolean; large?: boolean }
+  | { type: 'row'; left: string; right: string; bold?: boolean }
+  | { type: 'rule' };
+
+export interface TicketOrder {
+  id: string;
+  created_at: string;
+  scheduled_for: string | null;
+  notes: string | null;
+  subtotal: number;
+  discount: number;
+  coupon_code: string | null;
+  tax: number;
+  cgst: number;
+  sgst: number;
+  delivery_fee: number;
+  total: number;
+  profiles: {
+    full_name: string | null;
+    phone: string;
+  } | null;
+  addresses: {
+    label: string;
+    address_line: string;
+  } | null;
+  order_items: Array<{
+    quantity: number;
+    price: number;
+    item_title: string;
+    variant_name: string | null;
+    modifiers: SelectedModifier[];
+  }>;
+}
+
+export interface TicketRestaurant {
+  name: string;
+  address: string;
+  gstin: string | null;
+}
+
+export function shortOrderId(orderId: string): string {
+  return orderId.slice(0, 6).toUpperCase();
+}
+
+// Kitchen order ticket: what to cook, no prices
+export function buildKitchenTicket(order: TicketOrder): TicketLine[] {
+  const lines: TicketLine[] = [
+    { type: 'text', text: 'KOT', align: 'center', bold: true, large: true },
+    { type: 'text', text: `#${shortOrderId(order.id)}`, align: 'center', bold: true },
+    { type: 'text', text: format(new Date(order.created_at), 'd MMM yyyy, p') },
+  ];
+
+  if (order.scheduled_for) {
+    lines.push({ type: 'text', text: `Deliver: ${formatDeliverySlot(order.scheduled_for)}`, bold: true });
+  }
+
+  lines.push({ type: 'rule' });
+
+  for (const item of order.order_items) {
+    lines.push({
+      type: 'text',
+      text: `${item.quantity} x ${item.item_title}${item.variant_name ? ` (${item.variant_name})` : ''}`,
+      bold: true,
+      large: true,
+    });
+    if (item.modifiers.length > 0) {
+      lines.push({ type: 'text', text: `  ${formatModifiers(item.modifiers)}` });
+    }
+  }
+
+  if (order.notes) {
+    lines.push({ type: 'rule' }, { type: 'text', text: `Note: ${order.notes}`, bold: true });
+  }
+
+  return lines;
+}
+
+// Customer bill with prices and totals
+export function buildReceipt(order: TicketOrder, restaurant: TicketRestaurant): TicketLine[] {
+  const lines: TicketLine[] = [
+    { type: 'text', text: restaurant.name, align: 'center', bold: true, large: true },
+    { type: 'text', text: restaurant.address, align: 'center' },
+  ];
+
+  if (restaurant.gstin) {
+    lines.push({ type: 'text', text: `GSTIN: ${restaurant.gstin}`, align: 'center' });
+  }
+
+  lines.push(
+    { type: 'rule' },
+    { type: 'row', left: `Bill #${shortOrderId(order.id)}`, right: format(new Date(order.created_at), 'd MMM yyyy, p') },
+  );
+
+  if (order.profiles) {
+    lines.push({ type: 'text', text: `${order.profiles.full_name || 'Guest'} · ${order.profiles.phone}` });
+  }
+  if (order.addresses) {
+    lines.push({ type: 'text', text: `${order.addresses.label}: ${order.addresses.address_line}` });
+  }
+  if (order.scheduled_for) {
+    lines.push({ type: 'text', text: `Deliver: ${formatDeliverySlot(order.scheduled_for)}` });
+  }
+
+  lines.push({ type: 'rule' });
+
+  for (const item of order.order_items) {
+    lines.push({
+      type: 'row',
+      left: `${item.quantity} x ${item.item_title}${item.variant_name ? ` (${item.variant_name})` : ''}`,
+      right: formatAmount(item.price * item.quantity),
+    });
+    if (item.modifiers.length > 0) {
+      lines.push({ type: 'text', text: `  ${formatModifiers(item.modifiers)}` });
+    }
+  }
+
+  lines.push(
+    { type: 'rule' },
+    { type: 'row', left: 'Subtotal', right: formatAmount(order.subtotal) },
+  );
+  if (order.discount > 0) {
+    lines.push({
+      type: 'row',
+      left: order.coupon_code ? `Discount (${order.coupon_code})` : 'Discount',
+      right: `-${formatAmount(order.discount)}`,
+    });
+  }
+  lines.push(
+    { type: 'row', left: 'CGST', right: formatAmount(order.cgst) },
+    { type: 'row', left: 'SGST', right: formatAmount(order.sgst) },
+    { type: 'row', left: 'Delivery', right: order.delivery_fee === 0 ? 'FREE' : formatAmount(order.delivery_fee) },
+    { type: 'row', left: 'Total', right: formatAmount(order.total), bold: true },
+    { type: 'rule' },
+    { type: 'text', text: 'Thank you!', align: 'center' },
+  );
+
+  return lines;
+}
+
+function formatAmount(amount: number): string {
+  return `₹${amount.toFixed(2)}`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderTicketHtml(lines: TicketLine[], width: PaperWidth, title: string): string {
+  const body = lines.map(line => {
+    if (line.type === 'rule') return '<hr>';
+
+    if (line.type === 'row') {
+      return `<div class="row${line.bold ? ' bold' : ''}"><span>${escapeHtml(line.left)}</span><span>${escapeHtml(line.right)}</span></div>`;
+    }
+
+    const classes = [line.align === 'center' && 'center', line.bold && 'bold', line.large && 'large'].filter(Boolean);
+    return `<div class="${classes.join(' ')}">${escapeHtml(line.text)}</div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: ${width}mm auto; margin: 0; }
+  body { width: ${width - 8}mm; margin: 0 4mm; font: 12px/1.35 monospace; color: #000; }
+  hr { border: 0; border-top: 1px dashed #000; margin: 4px 0; }
+  .row { display: flex; justify-content: space-between; gap: 8px; }
+  .row span:last-child { white-space: nowrap; }
+  .center { text-align: center; }
+  .bold { font-weight: bold; }
+  .large { font-size: 16px; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+// Prints through a hidden iframe so the app's own styles stay out of the way.
+// Browsers still show the print dialog unless launched in kiosk printing mode.
+export function printTicket(lines: TicketLine[], width: PaperWidth, title: string): void {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  iframe.srcdoc = renderTicketHtml(lines, width, title);
+
+  iframe.onload = () => {
+    const frameWindow = iframe.contentWindow;
+    if (!frameWindow) return;
+
+    frameWindow.addEventListener('afterprint', () => iframe.remove());
+    frameWindow.focus();
+    frameWindow.print();
+  };
+
+  document.body.appendChild(iframe);
+}
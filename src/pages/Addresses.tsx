@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { MapLocationPicker } from '@/components/MapLocationPicker';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { Pencil, Star, Trash2 } from 'lucide-react';
+import { z } from 'zod';
+
+interface SavedAddress {
+  id: string;
+  label: string;
+  address_line: string;
+  latitude: number;
+  longitude: number;
+  is_default: boolean | null;
+}
+
+const addressSchema = z.object({
+  label: z.string().min(1, 'Label is required'),
+  address_line: z.string().min(10, 'Address must be at least 10 characters'),
+  latitude: z.number(),
+  longitude: z.number(),
+});
+
+export default function Addresses() {
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<SavedAddress | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  const fetchAddresses = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('addresses')
+        .select('id, label, address_line, latitude, longitude, is_default')
+        .eq('user_id', user.id)
+        .eq('is_archived', false)
+        .order('is_default', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setAddresses(data || []);
+    } catch (error) {
+      console.error('Error fetching addresses:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    fetchAddresses();
+  }, [user, navigate, fetchAddresses]);
+
+  // Past orders still reference the address, so an edit is saved as a new
+  // address and the old one archived, as when it is removed
+  const handleSave = async () => {
+    if (!editing || !user) return;
+
+    const validation = addressSchema.safeParse(editing);
+
+    if (!validation.success) {
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { error: insertError } = await supabase
+        .from('addresses')
+        .insert({
+          user_id: user.id,
+          label: editing.label,
+          address_line: editing.address_line,
+          latitude: editing.latitude,
+          longitude: editing.longitude,
+          is_default: editing.is_default ?? false,
+        });
+
+      if (insertError) throw insertError;
+
+      const { error: archiveError } = await supabase
+        .from('addresses')
+        .update({ is_archived: true, is_default: false })
+        .eq('id', editing.id);
+
+      if (archiveError) throw archiveError;
+
+      toast.success('Address updated');
+      setEditing(null);
+      fetchAddresses();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update address');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (addressId: string) => {
+    try {
+      const { error } = await supabase
+        .from('addresses')
+        .update({ is_default: true })
+        .eq('id', addressId);
+
+      if (error) throw error;
+
+      toast.success('Default address updated');
+      fetchAddresses();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update default address');
+    }
+  };
+
+  // Past orders still reference the address, so it is archived rather than deleted
+  const handleDelete = async (addressId: string) => {
+    try {
+      const { error } = await supabase
+        .from('addresses')
+        .update({ is_archived: true, is_default: false })
+        .eq('id', addressId);
+
+      if (error) throw error;
+
+      toast.success('Address removed');
+      fetchAddresses();
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove address');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container py-8 max-w-4xl">
+        <h1 className="text-3xl font-bold mb-6">Saved Addresses</h1>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(2)].map((_, i) => (
+              <Card key={i} className="p-6">
+                <Skeleton className="h-6 w-32 mb-4" />
+                <Skeleton className="h-4 w-full" />
+              </Card>
+            ))}
+          </div>
+        ) : addresses.length === 0 ? (
+          <Card className="p-12 text-center">
+            <p className="text-muted-foreground">
+              No saved addresses yet. Addresses you use at checkout will appear here.
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {addresses.map(address => (
+              <Card key={address.id} className="p-6">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold">{address.label}</p>
+                      {address.is_default && <Badge>Default</Badge>}
+                    </div>
+                    <p className="text-sm mt-1">{address.address_line}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    {!address.is_default && (
+                      <Button variant="outline" size="sm" onClick={() => handleSetDefault(address.id)}>
+                        <Star className="mr-2 h-4 w-4" />
+                        Set Default
+                      </Button>
+                    )}
+                    <Button variant="outline" size="icon" onClick={() => setEditing(address)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="icon">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Remove this address?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            "{address.label}" will no longer be offered at checkout.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleDelete(address.id)}>
+                            Remove
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Address</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="label">Address Label</Label>
+                <Input
+                  id="label"
+                  value={editing.label}
+                  onChange={(e) => setEditing({ ...editing, label: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="address">Complete Address</Label>
+                <Textarea
+                  id="address"
+                  value={editing.address_line}
+                  onChange={(e) => setEditing({ ...editing, address_line: e.target.value })}
+                  rows={3}
+                />
+              </div>
+              <MapLocationPicker
+                onLocationSelect={(lat, lng) =>
+                  setEditing(current => current && { ...current, latitude: lat, longitude: lng })
+                }
+                initialLat={editing.latitude}
+                initialLng={editing.longitude}
+              />
+              <p className="text-sm text-muted-foreground">
+                Location: {editing.latitude.toFixed(4)}, {editing.longitude.toFixed(4)}
+              </p>
+              <Button onClick={handleSave} className="w-full" disabled={saving}>
+                {saving ? 'Saving...' : 'Save Address'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -6,18 +6,46 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import { formatModifiers } from '@/lib/modifiers';
+import { formatDeliverySlot } from '@/lib/storeStatus';
+import { ORDER_STATUS_LABELS, ORDER_STATUS_TRANSITIONS, OrderStatus } from '@/lib/orderStatus';
+import { enableOrderAlerts, playOrderAlert, showOrderNotification } from '@/lib/orderAlerts';
+import { QueueOrder, useOrderQueue } from '@/hooks/useOrderQueue';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { useRiders } from '@/hooks/useRiders';
+import { useTaxCategories } from '@/hooks/useTaxCategories';
+import { getPrintSettings } from '@/lib/printSettings';
+import { buildKitchenTicket, printTicket, shortOrderId } from '@/lib/tickets';
+import { describeEtaError, etaErrorMinutes } from '@/lib/eta';
+import { describePayment, issueRefund, RefundRequest } from '@/lib/payments';
+import { describeRefund, refundableAmount } from '@/lib/refunds';
+import { formatGstRate } from '@/lib/gst';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MenuImageUpload } from '@/components/MenuImageUpload';
+import { MenuItemVariants } from '@/components/MenuItemVariants';
+import { MenuItemModifiers } from '@/components/MenuItemModifiers';
+import { DeliveryFeeSettings } from '@/components/DeliveryFeeSettings';
+import { RestaurantSettingsForm } from '@/components/RestaurantSettingsForm';
+import { StoreHoursSettings } from '@/components/StoreHoursSettings';
+import { CancelOrderDialog } from '@/components/CancelOrderDialog';
+import { DeliveryOverrideDialog } from '@/components/DeliveryOverrideDialog';
+import { OrderPrintMenu } from '@/components/OrderPrintMenu';
+import { PrintSettingsForm } from '@/components/PrintSettingsForm';
+import { RiderSettings } from '@/components/RiderSettings';
+import { CashOnDeliverySettings } from '@/components/CashOnDeliverySettings';
+import { CashReconciliation } from '@/components/CashReconciliation';
+import { CouponSettings } from '@/components/CouponSettings';
+import { GstSettings } from '@/components/GstSettings';
+import { RefundDialog } from '@/components/RefundDialog';
+import { SalesReport } from '@/components/SalesReport';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus } from 'lucide-react';
-
-type OrderStatus = 'placed' | 'preparing' | 'out_for_delivery' | 'delivered' | 'cancelled';
+import { Bell, BellOff, ChefHat, Plus } from 'lucide-react';
 
 interface MenuItem {
   id: string;
@@ -27,41 +55,33 @@ interface MenuItem {
   category: string;
   image_url: string | null;
   is_available: boolean | null;
+  tax_category_id: string | null;
 }
 
-interface Order {
-  id: string;
-  status: OrderStatus;
-  total: number;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    full_name: string | null;
-    phone: string;
-  } | null;
-  addresses: {
-    address_line: string;
-  } | null;
-  order_items: Array<{
-    quantity: number;
-    item_title: string;
-  }>;
-}
+const CANCELLATION_REASONS = [
+  'Items out of stock',
+  'Restaurant too busy',
+  'Unable to reach customer',
+];
 
 const statusColors = {
+  pending_payment: 'bg-gray-400',
   placed: 'bg-blue-500',
   preparing: 'bg-yellow-500',
+  ready: 'bg-orange-500',
   out_for_delivery: 'bg-purple-500',
   delivered: 'bg-green-500',
   cancelled: 'bg-red-500',
 };
 
 export default function Admin() {
-  const [orders, setOrders] = useState<Order[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
-  const [loading, setLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [alertsEnabled, setAlertsEnabled] = useState(false);
   const [showAddMenuItem, setShowAddMenuItem] = useState(false);
+  const [cancellingOrderId, setCancellingOrderId] = useState<string | null>(null);
+  const [deliveringOrderId, setDeliveringOrderId] = useState<string | null>(null);
+  const [refundingOrderId, setRefundingOrderId] = useState<string | null>(null);
   const [newMenuItem, setNewMenuItem] = useState({
     title: '',
     description: '',
@@ -70,6 +90,22 @@ export default function Admin() {
   });
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { settings } = useRestaurantSettings();
+  const { riders, refresh: refreshRiders } = useRiders(isAdmin);
+  const { categories: taxCategories, refresh: refreshTaxCategories } = useTaxCategories();
+  const { orders, refresh: refreshOrders } = useOrderQueue(isAdmin, (order) => {
+    if (order.status !== 'placed') return;
+
+    const customer = order.profiles?.full_name || 'Guest';
+    playOrderAlert();
+    showOrderNotification('New order', `${customer} · ₹${order.total.toFixed(2)}`, `order-${order.id}`);
+    toast.info(`New order from ${customer}`);
+
+    const printSettings = getPrintSettings();
+    if (printSettings.autoPrintKot) {
+      printTicket(buildKitchenTicket(order), printSettings.paperWidth, `KOT #${shortOrderId(order.id)}`);
+    }
+  });
 
   useEffect(() => {
     if (!user) {
@@ -99,7 +135,6 @@ export default function Admin() {
       }
 
       setIsAdmin(true);
-      fetchOrders();
       fetchMenuItems();
     } catch (error) {
       console.error('Error checking admin status:', error);
@@ -121,41 +156,29 @@ export default function Admin() {
     }
   };
 
-  const fetchOrders = async () => {
+  const handleEnableAlerts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          *,
-          addresses (address_line),
-          order_items (quantity, item_title)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      // Fetch profiles separately
-      const ordersWithProfiles = await Promise.all(
-        (data || []).map(async (order) => {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('full_name, phone')
-            .eq('id', order.user_id)
-            .single();
-          
-          return { ...order, profiles: profile };
-        })
-      );
-
-      setOrders(ordersWithProfiles as Order[]);
+      setAlertsEnabled(await enableOrderAlerts());
     } catch (error) {
-      console.error('Error fetching orders:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error enabling order alerts:', error);
+      toast.error('Failed to enable order alerts');
     }
   };
 
   const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
+    // Cancelling needs a reason, collected by the cancel dialog
+    if (newStatus === 'cancelled') {
+      setCancellingOrderId(orderId);
+      return;
+    }
+
+    // Riders confirm deliveries with the customer's code; without it an
+    // admin has to give a reason, collected by the override dialog
+    if (newStatus === 'delivered') {
+      setDeliveringOrderId(orderId);
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('orders')
@@ -165,12 +188,82 @@ export default function Admin() {
       if (error) throw error;
 
       toast.success('Order status updated');
-      fetchOrders();
     } catch (error: any) {
       toast.error(error.message || 'Failed to update status');
     }
   };
 
+  const overrideDelivery = async (reason: string) => {
+    if (!deliveringOrderId) return false;
+
+    try {
+      const { error } = await supabase.rpc('override_order_delivery', {
+        _order_id: deliveringOrderId,
+        _reason: reason,
+      });
+
+      if (error) throw error;
+
+      toast.success('Order marked delivered');
+      // The override reason is not part of the realtime order update
+      refreshOrders();
+      return true;
+    } catch (error) {
+      toast.error(error.message || 'Failed to mark order delivered');
+      return false;
+    }
+  };
+
+  const cancelOrder = async (reason: string) => {
+    if (!cancellingOrderId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('orders')
+        .update({ status: 'cancelled', cancellation_reason: reason })
+        .eq('id', cancellingOrderId);
+
+      if (error) throw error;
+
+      toast.success('Order cancelled');
+      return true;
+    } catch (error) {
+      toast.error(error.message || 'Failed to cancel order');
+      return false;
+    }
+  };
+
+  const refundOrder = async (request: RefundRequest) => {
+    if (!refundingOrderId) return false;
+
+    try {
+      const { status } = await issueRefund(refundingOrderId, request);
+
+      toast.success(status === 'pending' ? 'Refund requested; the payment gateway will confirm it' : 'Refund issued');
+      // Refunds are not part of the realtime order update
+      refreshOrders();
+      return true;
+    } catch (error) {
+      toast.error(error.message || 'Failed to issue refund');
+      return false;
+    }
+  };
+
+  const assignRider = async (orderId: string, riderId: string) => {
+    try {
+      const { error } = await supabase.rpc('assign_rider', {
+        _order_id: orderId,
+        _rider_id: riderId,
+      });
+
+      if (error) throw error;
+
+      toast.success('Rider assigned');
+    } catch (error) {
+      toast.error(error.message || 'Failed to assign rider');
+    }
+  };
+
   const handleAddMenuItem = async () => {
     if (!newMenuItem.title || !newMenuItem.price || !newMenuItem.category) {
       toast.error('Please fill all required fields');
@@ -215,6 +308,23 @@ export default function Admin() {
     }
   };
 
+  // 'default' clears the item's own category so it follows the default
+  const updateMenuItemTaxCategory = async (itemId: string, taxCategoryId: string) => {
+    try {
+      const { error } = await supabase
+        .from('menu_items')
+        .update({ tax_category_id: taxCategoryId === 'default' ? null : taxCategoryId })
+        .eq('id', itemId);
+
+      if (error) throw error;
+
+      toast.success('Menu item updated');
+      fetchMenuItems();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update menu item');
+    }
+  };
+
   if (!isAdmin) {
     return (
       <div className="min-h-screen bg-background">
@@ -228,75 +338,202 @@ export default function Admin() {
 
   const activeOrders = orders.filter(o => !['delivered', 'cancelled'].includes(o.status));
   const completedOrders = orders.filter(o => ['delivered', 'cancelled'].includes(o.status));
+  // A delivery that just came in over realtime has no history row yet; its updated_at is the delivery time
+  const deliveredAt = (order: QueueOrder) =>
+    order.order_status_history.find(change => change.status === 'delivered')?.created_at
+    ?? (order.status === 'delivered' ? order.updated_at : null);
+  const etaErrors = completedOrders
+    .filter(o => o.status === 'delivered' && o.predicted_delivery_at)
+    .map(o => etaErrorMinutes(o.predicted_delivery_at!, deliveredAt(o)!));
+  const averageEtaError = etaErrors.length > 0
+    ? Math.round(etaErrors.reduce((sum, error) => sum + error, 0) / etaErrors.length)
+    : null;
+  const averageAbsoluteEtaError = etaErrors.length > 0
+    ? Math.round(etaErrors.reduce((sum, error) => sum + Math.abs(error), 0) / etaErrors.length)
+    : null;
+  const asapOrders = activeOrders.filter(o => !o.scheduled_for);
+  // Earliest slot first so the kitchen knows what to start next
+  const scheduledOrders = activeOrders
+    .filter(o => o.scheduled_for)
+    .sort((a, b) => new Date(a.scheduled_for!).getTime() - new Date(b.scheduled_for!).getTime());
+
+  const canRefund = (order: QueueOrder) =>
+    order.payment_status === 'paid' && refundableAmount(order) > 0;
+
+  const renderRefunds = (order: QueueOrder) => order.refunds.map(refund => (
+    <p
+      key={refund.id}
+      className={`text-sm mt-1 ${refund.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}
+    >
+      {describeRefund(refund)}
+    </p>
+  ));
+
+  const renderActiveOrder = (order: QueueOrder) => (
+    <Card key={order.id} className="p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <p className="font-semibold">{order.profiles?.full_name || 'Guest'}</p>
+          <p className="text-sm text-muted-foreground">{order.profiles?.phone}</p>
+          <p className="text-sm mt-1">{order.addresses?.address_line}</p>
+          <p className="text-xs text-muted-foreground mt-2">
+            {format(new Date(order.created_at), 'PPp')}
+          </p>
+          {order.scheduled_for && (
+            <p className="text-sm font-semibold mt-1">
+              Deliver: {formatDeliverySlot(order.scheduled_for)}
+            </p>
+          )}
+          {order.estimated_delivery_at && (
+            <p className="text-sm text-muted-foreground mt-1">
+              ETA {format(new Date(order.estimated_delivery_at), 'p')}
+            </p>
+          )}
+        </div>
+        <Badge className={statusColors[order.status as keyof typeof statusColors]}>
+          {order.status}
+        </Badge>
+      </div>
+      
+      <div className="mb-4">
+        <p className="text-sm font-medium mb-2">Items:</p>
+        <ul className="text-sm space-y-1">
+          {order.order_items.map((item, idx) => (
+            <li key={idx}>
+              {item.quantity}x {item.item_title}
+              {item.variant_name && (
+                <span className="font-semibold"> ({item.variant_name})</span>
+              )}
+              {item.modifiers.length > 0 && (
+                <span className="block pl-6 text-muted-foreground">
+                  {formatModifiers(item.modifiers)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+        <p className="text-lg font-bold text-primary mt-2">₹{order.total.toFixed(2)}</p>
+        <p className={`text-sm ${order.payment_status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {describePayment(order)}
+        </p>
+        {renderRefunds(order)}
+      </div>
+
+      {/* Riders take over once the food is ready; after pickup the assignment is fixed */}
+      {['ready', 'out_for_delivery'].includes(order.status) && (
+        <div className="mb-4">
+          <Label className="text-sm font-medium">Rider</Label>
+          {order.picked_up_at ? (
+            <p className="text-sm">
+              {riders.find(r => r.id === order.rider_id)?.full_name || 'Rider'} picked up at{' '}
+              {format(new Date(order.picked_up_at), 'p')}
+            </p>
+          ) : (
+            <Select
+              value={order.rider_id ?? undefined}
+              onValueChange={(value) => assignRider(order.id, value)}
+            >
+              <SelectTrigger className="w-full mt-1">
+                <SelectValue placeholder={riders.length === 0 ? 'Add riders in the Riders tab' : 'Assign a rider'} />
+              </SelectTrigger>
+              <SelectContent>
+                {riders.map(rider => (
+                  <SelectItem key={rider.id} value={rider.id}>
+                    {rider.full_name || rider.phone}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Select
+          value={order.status}
+          onValueChange={(value) => updateOrderStatus(order.id, value as OrderStatus)}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {/* Only the current status and the moves allowed from it */}
+            {[order.status, ...ORDER_STATUS_TRANSITIONS[order.status]].map(status => (
+              <SelectItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canRefund(order) && (
+          <Button variant="outline" onClick={() => setRefundingOrderId(order.id)}>
+            Refund
+          </Button>
+        )}
+        <OrderPrintMenu order={order} restaurant={settings} />
+      </div>
+    </Card>
+  );
 
   return (
     <div className="min-h-screen bg-background">
       <Header />
       <div className="container py-8">
-        <h1 className="text-3xl font-bold mb-6">Admin Panel</h1>
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold">Admin Panel</h1>
+          <Button variant="outline" onClick={() => navigate('/kitchen')}>
+            <ChefHat className="mr-2 h-4 w-4" />
+            Kitchen Display
+          </Button>
+        </div>
 
         <Tabs defaultValue="active" className="w-full">
           <TabsList>
             <TabsTrigger value="active">Active Orders ({activeOrders.length})</TabsTrigger>
             <TabsTrigger value="completed">Completed ({completedOrders.length})</TabsTrigger>
             <TabsTrigger value="menu">Menu Items ({menuItems.length})</TabsTrigger>
+            <TabsTrigger value="hours">Hours</TabsTrigger>
+            <TabsTrigger value="delivery">Delivery</TabsTrigger>
+            <TabsTrigger value="riders">Riders ({riders.length})</TabsTrigger>
+            <TabsTrigger value="coupons">Promo Codes</TabsTrigger>
+            <TabsTrigger value="reports">Reports</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
           </TabsList>
 
           <TabsContent value="active" className="space-y-4 mt-6">
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={handleEnableAlerts} disabled={alertsEnabled}>
+                {alertsEnabled ? (
+                  <><Bell className="mr-2 h-4 w-4" /> New order alerts on</>
+                ) : (
+                  <><BellOff className="mr-2 h-4 w-4" /> Turn on new order alerts</>
+                )}
+              </Button>
+            </div>
             {activeOrders.length === 0 ? (
               <Card className="p-12 text-center">
                 <p className="text-muted-foreground">No active orders</p>
               </Card>
             ) : (
-              activeOrders.map(order => (
-                <Card key={order.id} className="p-6">
-                  <div className="flex items-start justify-between mb-4">
-                    <div>
-                      <p className="font-semibold">{order.profiles?.full_name || 'Guest'}</p>
-                      <p className="text-sm text-muted-foreground">{order.profiles?.phone}</p>
-                      <p className="text-sm mt-1">{order.addresses?.address_line}</p>
-                      <p className="text-xs text-muted-foreground mt-2">
-                        {format(new Date(order.created_at), 'PPp')}
-                      </p>
-                    </div>
-                    <Badge className={statusColors[order.status as keyof typeof statusColors]}>
-                      {order.status}
-                    </Badge>
-                  </div>
-                  
-                  <div className="mb-4">
-                    <p className="text-sm font-medium mb-2">Items:</p>
-                    <ul className="text-sm space-y-1">
-                      {order.order_items.map((item, idx) => (
-                        <li key={idx}>{item.quantity}x {item.item_title}</li>
-                      ))}
-                    </ul>
-                    <p className="text-lg font-bold text-primary mt-2">₹{order.total.toFixed(2)}</p>
-                  </div>
-
-                  <div className="flex gap-2">
-                    <Select
-                      value={order.status}
-                      onValueChange={(value) => updateOrderStatus(order.id, value as OrderStatus)}
-                    >
-                      <SelectTrigger className="w-full">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="placed">Placed</SelectItem>
-                        <SelectItem value="preparing">Preparing</SelectItem>
-                        <SelectItem value="out_for_delivery">Out for Delivery</SelectItem>
-                        <SelectItem value="delivered">Delivered</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </Card>
-              ))
+              <>
+                {asapOrders.map(renderActiveOrder)}
+                {scheduledOrders.length > 0 && (
+                  <>
+                    <h2 className="text-xl font-semibold pt-4">Scheduled ({scheduledOrders.length})</h2>
+                    {scheduledOrders.map(renderActiveOrder)}
+                  </>
+                )}
+              </>
             )}
           </TabsContent>
 
           <TabsContent value="completed" className="space-y-4 mt-6">
+            {averageEtaError !== null && (
+              <Card className="p-4">
+                <p className="text-sm">
+                  <span className="font-medium">ETA accuracy:</span> off by {averageAbsoluteEtaError} min on average
+                  across {etaErrors.length} deliveries, {describeEtaError(averageEtaError)} overall
+                </p>
+              </Card>
+            )}
             {completedOrders.length === 0 ? (
               <Card className="p-12 text-center">
                 <p className="text-muted-foreground">No completed orders</p>
@@ -311,13 +548,52 @@ export default function Admin() {
                         {format(new Date(order.created_at), 'PPp')}
                       </p>
                       <p className="text-sm mt-2">
-                        {order.order_items.map(i => `${i.quantity}x ${i.item_title}`).join(', ')}
+                        {order.order_items
+                          .map(i => {
+                            const details = [i.variant_name, formatModifiers(i.modifiers)].filter(Boolean).join(', ');
+                            return `${i.quantity}x ${i.item_title}${details ? ` (${details})` : ''}`;
+                          })
+                          .join(', ')}
                       </p>
                       <p className="font-bold text-primary mt-1">₹{order.total.toFixed(2)}</p>
+                      <p className="text-sm text-muted-foreground">{describePayment(order)}</p>
+                      {order.invoice_number && (
+                        <p className="text-sm text-muted-foreground">Invoice {order.invoice_number}</p>
+                      )}
+                      {renderRefunds(order)}
+                      {order.status === 'delivered' && order.predicted_delivery_at && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Predicted {format(new Date(order.predicted_delivery_at), 'p')} · Delivered{' '}
+                          {format(new Date(deliveredAt(order)!), 'p')} (
+                          {describeEtaError(etaErrorMinutes(order.predicted_delivery_at, deliveredAt(order)!))})
+                        </p>
+                      )}
+                      {order.delivery_overrides.map(override => (
+                        <p key={override.created_at} className="text-sm text-muted-foreground mt-1">
+                          Delivered without code: {override.reason}
+                        </p>
+                      ))}
+                      {order.status === 'cancelled' && order.cancellation_reason && (
+                        <p className="text-sm text-destructive mt-1">
+                          Cancelled by {order.cancelled_by === order.user_id ? 'customer' : 'restaurant'}:{' '}
+                          {order.cancellation_reason}
+                        </p>
+                      )}
+                      {order.status === 'cancelled' && canRefund(order) && (
+                        <p className="text-sm text-destructive mt-1">Paid after it was cancelled: refund the customer</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge className={statusColors[order.status as keyof typeof statusColors]}>
+                        {order.status}
+                      </Badge>
+                      {canRefund(order) && (
+                        <Button variant="outline" size="sm" onClick={() => setRefundingOrderId(order.id)}>
+                          Refund
+                        </Button>
+                      )}
+                      <OrderPrintMenu order={order} restaurant={settings} />
                     </div>
-                    <Badge className={statusColors[order.status as keyof typeof statusColors]}>
-                      {order.status}
-                    </Badge>
                   </div>
                 </Card>
               ))
@@ -398,6 +674,30 @@ export default function Admin() {
                       <Badge variant="outline" className="mt-1">{item.category}</Badge>
                     </div>
 
+                    <MenuItemVariants menuItemId={item.id} />
+
+                    <MenuItemModifiers menuItemId={item.id} />
+
+                    <div>
+                      <Label>GST</Label>
+                      <Select
+                        value={item.tax_category_id ?? 'default'}
+                        onValueChange={(value) => updateMenuItemTaxCategory(item.id, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">Default category</SelectItem>
+                          {taxCategories.map(category => (
+                            <SelectItem key={category.id} value={category.id}>
+                              {category.name} · {formatGstRate(category.gst_rate)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <Button
                       onClick={() => toggleMenuItemAvailability(item.id, item.is_available)}
                       variant={item.is_available ? 'default' : 'secondary'}
@@ -410,7 +710,54 @@ export default function Admin() {
               ))}
             </div>
           </TabsContent>
+
+          <TabsContent value="hours" className="mt-6">
+            <StoreHoursSettings />
+          </TabsContent>
+
+          <TabsContent value="delivery" className="mt-6">
+            <DeliveryFeeSettings />
+          </TabsContent>
+
+          <TabsContent value="riders" className="mt-6">
+            <RiderSettings riders={riders} onChange={refreshRiders} />
+          </TabsContent>
+
+          <TabsContent value="coupons" className="mt-6">
+            <CouponSettings menuItems={menuItems} />
+          </TabsContent>
+
+          <TabsContent value="reports" className="space-y-4 mt-6">
+            <SalesReport />
+            <CashReconciliation />
+          </TabsContent>
+
+          <TabsContent value="settings" className="space-y-4 mt-6">
+            <RestaurantSettingsForm />
+            <CashOnDeliverySettings />
+            <GstSettings categories={taxCategories} onChange={refreshTaxCategories} />
+            <PrintSettingsForm />
+          </TabsContent>
         </Tabs>
+
+        <CancelOrderDialog
+          open={cancellingOrderId !== null}
+          onOpenChange={(open) => !open && setCancellingOrderId(null)}
+          reasons={CANCELLATION_REASONS}
+          onConfirm={cancelOrder}
+        />
+
+        <DeliveryOverrideDialog
+          open={deliveringOrderId !== null}
+          onOpenChange={(open) => !open && setDeliveringOrderId(null)}
+          onConfirm={overrideDelivery}
+        />
+
+        <RefundDialog
+          order={orders.find(o => o.id === refundingOrderId) ?? null}
+          onOpenChange={(open) => !open && setRefundingOrderId(null)}
+          onConfirm={refundOrder}
+        />
       </div>
     </div>
   );
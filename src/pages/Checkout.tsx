@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { Button } from '@/components/ui/button';
@@ -6,19 +6,27 @@ import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { MapPin } from 'lucide-react';
+import { Banknote, CreditCard, MapPin, Tag } from 'lucide-react';
 import { z } from 'zod';
 import { MapLocationPicker } from '@/components/MapLocationPicker';
-import { usePushNotifications } from '@/hooks/usePushNotifications';
-
-// FriendHome location (Anna Nagar)
-const RESTAURANT_LAT = 13.0878;
-const RESTAURANT_LNG = 80.2085;
-const MAX_DELIVERY_DISTANCE = 10; // KM
+import { formatModifiers } from '@/lib/modifiers';
+import { calculateDeliveryFee } from '@/lib/deliveryFee';
+import { useDeliveryFees } from '@/hooks/useDeliveryFees';
+import { useTaxCategories } from '@/hooks/useTaxCategories';
+import { calculateGst } from '@/lib/gst';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { useStoreStatus } from '@/hooks/useStoreStatus';
+import { useDeliverySlots } from '@/hooks/useDeliverySlots';
+import { useOrderPayment } from '@/hooks/useOrderPayment';
+import { MockPaymentDialog } from '@/components/MockPaymentDialog';
+import { codUnavailableReason, PaymentMethod } from '@/lib/payments';
+import { describeStoreStatus, formatDeliverySlot } from '@/lib/storeStatus';
 
 const addressSchema = z.object({
   label: z.string().min(1, 'Label is required'),
@@ -27,6 +35,23 @@ const addressSchema = z.object({
   longitude: z.number(),
 });
 
+interface SavedAddress {
+  id: string;
+  label: string;
+  address_line: string;
+  latitude: number;
+  longitude: number;
+  is_default: boolean | null;
+}
+
+const NEW_ADDRESS = 'new';
+
+interface AppliedCoupon {
+  code: string;
+  description: string | null;
+  discount: number;
+}
+
 function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371; // Earth's radius in km
   const dLat = (lat2 - lat1) * Math.PI / 180;
@@ -43,14 +68,30 @@ export default function Checkout() {
   const { items, total, clearCart } = useCart();
   const { user } = useAuth();
   const navigate = useNavigate();
-  const { enableNotifications, isSubscribed } = usePushNotifications();
+  const { tiers } = useDeliveryFees();
+  const { categories: taxCategories, defaultCategory } = useTaxCategories();
+  const { settings } = useRestaurantSettings();
+  const { status: storeStatus, isOpen } = useStoreStatus();
+  const { slots, refresh: refreshSlots } = useDeliverySlots();
   const [loading, setLoading] = useState(false);
+  const { pay, mockSession, settleMockPayment } = useOrderPayment();
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<string>(NEW_ADDRESS);
   const [label, setLabel] = useState('');
   const [addressLine, setAddressLine] = useState('');
   const [latitude, setLatitude] = useState<number | null>(null);
   const [longitude, setLongitude] = useState<number | null>(null);
   const [notes, setNotes] = useState('');
+  const [timing, setTiming] = useState<'asap' | 'scheduled'>('asap');
+  const [scheduledFor, setScheduledFor] = useState('');
   const [showMap, setShowMap] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('online');
+  const [deliveredOrders, setDeliveredOrders] = useState(0);
+  const [promoCode, setPromoCode] = useState('');
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null);
+  const [checkingCoupon, setCheckingCoupon] = useState(false);
+  // Tax category of each menu item in the cart; null means the default
+  const [itemTaxCategories, setItemTaxCategories] = useState<Record<string, string | null>>({});
 
   useEffect(() => {
     if (!user) {
@@ -61,12 +102,124 @@ export default function Checkout() {
       navigate('/');
       return;
     }
-    
-    // Enable notifications if not already subscribed
-    if (!isSubscribed) {
-      enableNotifications();
+  }, [user, items, navigate]);
+
+  // Cash on delivery may need a few successful deliveries first
+  const fetchDeliveredOrders = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { count, error } = await supabase
+        .from('orders')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('status', 'delivered');
+
+      if (error) throw error;
+      setDeliveredOrders(count ?? 0);
+    } catch (error) {
+      console.error('Error fetching delivered orders:', error);
+    }
+  }, [user]);
+
+  const fetchSavedAddresses = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('addresses')
+        .select('id, label, address_line, latitude, longitude, is_default')
+        .eq('user_id', user.id)
+        .eq('is_archived', false)
+        .order('is_default', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setSavedAddresses(data || []);
+      if (data && data.length > 0) {
+        setSelectedAddressId(data[0].id);
+      }
+    } catch (error) {
+      console.error('Error fetching addresses:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchSavedAddresses();
+      fetchDeliveredOrders();
+    }
+  }, [user, fetchSavedAddresses, fetchDeliveredOrders]);
+
+  const fetchItemTaxCategories = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('menu_items')
+        .select('id, tax_category_id')
+        .in('id', [...new Set(items.map(item => item.id))]);
+
+      if (error) throw error;
+      setItemTaxCategories(Object.fromEntries((data || []).map(item => [item.id, item.tax_category_id])));
+    } catch (error) {
+      console.error('Error fetching tax categories:', error);
     }
-  }, [user, items, navigate, isSubscribed, enableNotifications]);
+  }, [items]);
+
+  useEffect(() => {
+    if (items.length > 0) fetchItemTaxCategories();
+  }, [items, fetchItemTaxCategories]);
+
+  // Cart lines as place_order and check_coupon take them
+  const orderLines = useMemo(() => items.map(item => ({
+    menu_item_id: item.id,
+    variant_id: item.variantId,
+    modifier_option_ids: item.modifiers?.map(m => m.optionId) || [],
+    quantity: item.quantity,
+  })), [items]);
+
+  const checkCoupon = useCallback(async (code: string) => {
+    const { data, error } = await supabase.rpc('check_coupon', { _code: code, _items: orderLines });
+
+    if (error) throw error;
+    return data[0];
+  }, [orderLines]);
+
+  const handleApplyCoupon = async () => {
+    setCheckingCoupon(true);
+    try {
+      setCoupon(await checkCoupon(promoCode));
+      setPromoCode('');
+    } catch (error) {
+      toast.error(error.message || 'Failed to apply promo code');
+    } finally {
+      setCheckingCoupon(false);
+    }
+  };
+
+  // The discount depends on what's in the cart, so check the code again when
+  // it changes. Read through a ref, as applying a code has just checked it.
+  const couponRef = useRef(coupon);
+  couponRef.current = coupon;
+
+  useEffect(() => {
+    const applied = couponRef.current;
+    if (!applied || items.length === 0) return;
+
+    checkCoupon(applied.code)
+      .then(setCoupon)
+      .catch(error => {
+        setCoupon(null);
+        toast.error(`${applied.code} removed: ${error.message}`);
+      });
+  }, [items, checkCoupon]);
+
+  const selectedAddress = savedAddresses.find(a => a.id === selectedAddressId);
+  const deliveryLat = selectedAddress ? selectedAddress.latitude : latitude;
+  const deliveryLng = selectedAddress ? selectedAddress.longitude : longitude;
+  const distance = settings && deliveryLat && deliveryLng
+    ? calculateDistance(settings.latitude, settings.longitude, deliveryLat, deliveryLng)
+    : null;
 
   const handleGetLocation = () => {
     if (navigator.geolocation) {
@@ -85,103 +238,120 @@ export default function Checkout() {
     }
   };
 
+  const subtotal = total;
+  const discount = coupon?.discount ?? 0;
+  // GST preview; place_order works out and stores the real lines
+  const { cgst, sgst } = calculateGst(
+    items.map(item => ({
+      amount: item.price * item.quantity,
+      gst_rate: (taxCategories.find(c => c.id === itemTaxCategories[item.id]) ?? defaultCategory)?.gst_rate ?? 0,
+    })),
+    subtotal,
+    discount,
+  );
+  const tax = cgst + sgst;
+  // Shown as soon as a location is known; place_order recomputes it server-side
+  const freeDeliveryMinSubtotal = settings?.free_delivery_min_subtotal ?? null;
+  const deliveryFee = distance !== null
+    ? calculateDeliveryFee(distance, subtotal, tiers, freeDeliveryMinSubtotal)
+    : null;
+  const orderTotal = subtotal - discount + tax + (deliveryFee ?? 0);
+  const codUnavailable = settings
+    ? codUnavailableReason(settings, orderTotal, deliveredOrders)
+    : 'Cash on delivery is not available right now';
+  const paymentChoice = codUnavailable ? 'online' : paymentMethod;
+  const amountToFreeDelivery = freeDeliveryMinSubtotal !== null ? freeDeliveryMinSubtotal - subtotal : 0;
+
+  // ASAP is only possible while the store is open
+  const deliveryTiming = isOpen ? timing : 'scheduled';
+
   const handlePlaceOrder = async () => {
-    if (!user || !latitude || !longitude) {
+    if (!user || !settings || distance === null) {
       toast.error('Please provide delivery location');
       return;
     }
 
-    const validation = addressSchema.safeParse({
-      label,
-      address_line: addressLine,
-      latitude,
-      longitude,
-    });
+    if (!selectedAddress) {
+      const validation = addressSchema.safeParse({
+        label,
+        address_line: addressLine,
+        latitude,
+        longitude,
+      });
+
+      if (!validation.success) {
+        toast.error(validation.error.errors[0].message);
+        return;
+      }
+    }
 
-    if (!validation.success) {
-      toast.error(validation.error.errors[0].message);
+    if (distance > settings.max_delivery_distance_km) {
+      toast.error(`Sorry, we only deliver within ${settings.max_delivery_distance_km}km. Your location is ${distance.toFixed(1)}km away.`);
       return;
     }
 
-    const distance = calculateDistance(RESTAURANT_LAT, RESTAURANT_LNG, latitude, longitude);
+    if (deliveryFee === null) {
+      toast.error('Delivery is not available to this location');
+      return;
+    }
 
-    if (distance > MAX_DELIVERY_DISTANCE) {
-      toast.error(`Sorry, we only deliver within ${MAX_DELIVERY_DISTANCE}km. Your location is ${distance.toFixed(1)}km away.`);
+    if (deliveryTiming === 'scheduled' && !scheduledFor) {
+      toast.error('Please choose a delivery slot');
       return;
     }
 
     setLoading(true);
 
     try {
-      // Create address
-      const { data: addressData, error: addressError } = await supabase
-        .from('addresses')
-        .insert({
-          user_id: user.id,
+      // Prices, totals and distance are recomputed server-side
+      const { data: orderId, error } = await supabase.rpc('place_order', {
+        _items: orderLines,
+        _address_id: selectedAddress?.id,
+        _address: selectedAddress ? undefined : {
           label,
           address_line: addressLine,
           latitude,
           longitude,
-        })
-        .select()
-        .single();
+        },
+        _notes: notes,
+        _scheduled_for: deliveryTiming === 'scheduled' ? scheduledFor : undefined,
+        _payment_method: paymentChoice,
+        _coupon_code: coupon?.code,
+      });
 
-      if (addressError) throw addressError;
+      if (error) throw error;
 
-      // Calculate totals
-      const subtotal = total;
-      const tax = subtotal * 0.05; // 5% tax
-      const deliveryFee = 30;
-      const orderTotal = subtotal + tax + deliveryFee;
+      if (paymentChoice === 'cod') {
+        toast.success('Order placed successfully!');
+        clearCart();
+        navigate(`/orders/${orderId}`);
+        return;
+      }
+
+      // The kitchen sees the order once the payment is captured. If the
+      // customer doesn't pay now they can from the order's page.
+      try {
+        const outcome = await pay(orderId);
+        if (outcome === 'paid') {
+          toast.success('Payment successful! Confirming your order...');
+        } else {
+          toast.error('Payment not completed. You can pay from your order page.');
+        }
+      } catch (paymentError) {
+        toast.error(paymentError.message || 'Failed to start payment');
+      }
 
-      // Create order
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          user_id: user.id,
-          address_id: addressData.id,
-          subtotal,
-          tax,
-          delivery_fee: deliveryFee,
-          total: orderTotal,
-          distance_km: distance,
-          notes,
-          status: 'placed',
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create order items
-      const orderItems = items.map(item => ({
-        order_id: orderData.id,
-        menu_item_id: item.id,
-        quantity: item.quantity,
-        price: item.price,
-        item_title: item.title,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      toast.success('Order placed successfully!');
       clearCart();
-      navigate(`/orders/${orderData.id}`);
+      navigate(`/orders/${orderId}`);
     } catch (error: any) {
       toast.error(error.message || 'Failed to place order');
+      // The chosen slot may have filled up in the meantime
+      refreshSlots();
     } finally {
       setLoading(false);
     }
   };
 
-  const subtotal = total;
-  const tax = subtotal * 0.05;
-  const deliveryFee = 30;
-  const orderTotal = subtotal + tax + deliveryFee;
 
   return (
     <div className="min-h-screen bg-background">
@@ -193,54 +363,88 @@ export default function Checkout() {
           <Card className="p-6">
             <h2 className="text-xl font-semibold mb-4">Delivery Address</h2>
             <div className="space-y-4">
-              <div>
-                <Label htmlFor="label">Address Label</Label>
-                <Input
-                  id="label"
-                  placeholder="Home, Office, etc."
-                  value={label}
-                  onChange={(e) => setLabel(e.target.value)}
-                />
-              </div>
-              <div>
-                <Label htmlFor="address">Complete Address</Label>
-                <Textarea
-                  id="address"
-                  placeholder="House/Flat no, Street, Landmark"
-                  value={addressLine}
-                  onChange={(e) => setAddressLine(e.target.value)}
-                  rows={3}
-                />
-              </div>
-              <Button onClick={handleGetLocation} variant="outline" className="w-full">
-                <MapPin className="mr-2 h-4 w-4" />
-                Get Current Location
-              </Button>
-              
-              <Button 
-                onClick={() => setShowMap(!showMap)} 
-                variant="secondary" 
-                className="w-full"
-              >
-                {showMap ? 'Hide Map' : 'Choose on Map'}
-              </Button>
-              
-              {showMap && (
-                <MapLocationPicker
-                  onLocationSelect={(lat, lng) => {
-                    setLatitude(lat);
-                    setLongitude(lng);
-                    toast.success('Location selected!');
-                  }}
-                  initialLat={latitude || 13.0878}
-                  initialLng={longitude || 80.2085}
-                />
+              {savedAddresses.length > 0 && (
+                <RadioGroup value={selectedAddressId} onValueChange={setSelectedAddressId}>
+                  {savedAddresses.map(address => (
+                    <Label
+                      key={address.id}
+                      htmlFor={`address-${address.id}`}
+                      className="flex items-start gap-3 rounded-lg border p-3 cursor-pointer font-normal"
+                    >
+                      <RadioGroupItem value={address.id} id={`address-${address.id}`} className="mt-1" />
+                      <div className="flex-1">
+                        <p className="font-medium">
+                          {address.label}
+                          {address.is_default && (
+                            <span className="ml-2 text-xs text-muted-foreground">(Default)</span>
+                          )}
+                        </p>
+                        <p className="text-sm text-muted-foreground">{address.address_line}</p>
+                      </div>
+                    </Label>
+                  ))}
+                  <Label
+                    htmlFor="address-new"
+                    className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer font-normal"
+                  >
+                    <RadioGroupItem value={NEW_ADDRESS} id="address-new" />
+                    <span className="font-medium">Use a new address</span>
+                  </Label>
+                </RadioGroup>
               )}
-              
-              {latitude && longitude && (
-                <p className="text-sm text-muted-foreground">
-                  Location: {latitude.toFixed(4)}, {longitude.toFixed(4)}
-                </p>
+
+              {!selectedAddress && (
+                <>
+                  <div>
+                    <Label htmlFor="label">Address Label</Label>
+                    <Input
+                      id="label"
+                      placeholder="Home, Office, etc."
+                      value={label}
+                      onChange={(e) => setLabel(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="address">Complete Address</Label>
+                    <Textarea
+                      id="address"
+                      placeholder="House/Flat no, Street, Landmark"
+                      value={addressLine}
+                      onChange={(e) => setAddressLine(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                  <Button onClick={handleGetLocation} variant="outline" className="w-full">
+                    <MapPin className="mr-2 h-4 w-4" />
+                    Get Current Location
+                  </Button>
+
+                  <Button
+                    onClick={() => setShowMap(!showMap)}
+                    variant="secondary"
+                    className="w-full"
+                  >
+                    {showMap ? 'Hide Map' : 'Choose on Map'}
+                  </Button>
+
+                  {showMap && (
+                    <MapLocationPicker
+                      onLocationSelect={(lat, lng) => {
+                        setLatitude(lat);
+                        setLongitude(lng);
+                        toast.success('Location selected!');
+                      }}
+                      initialLat={latitude ?? undefined}
+                      initialLng={longitude ?? undefined}
+                    />
+                  )}
+
+                  {latitude && longitude && (
+                    <p className="text-sm text-muted-foreground">
+                      Location: {latitude.toFixed(4)}, {longitude.toFixed(4)}
+                    </p>
+                  )}
+                </>
               )}
               <div>
                 <Label htmlFor="notes">Delivery Notes (Optional)</Label>
@@ -256,28 +460,177 @@ export default function Checkout() {
           </Card>
 
           <div className="space-y-6">
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold mb-4">Delivery Time</h2>
+              <div className="space-y-4">
+                {storeStatus && !isOpen && (
+                  <p className="text-sm text-destructive">{describeStoreStatus(storeStatus)}</p>
+                )}
+                <RadioGroup
+                  value={deliveryTiming}
+                  onValueChange={(value) => setTiming(value as 'asap' | 'scheduled')}
+                >
+                  <Label
+                    htmlFor="timing-asap"
+                    className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer font-normal"
+                  >
+                    <RadioGroupItem value="asap" id="timing-asap" disabled={!isOpen} />
+                    <span className="font-medium">As soon as possible</span>
+                  </Label>
+                  <Label
+                    htmlFor="timing-scheduled"
+                    className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer font-normal"
+                  >
+                    <RadioGroupItem value="scheduled" id="timing-scheduled" />
+                    <span className="font-medium">Schedule for later</span>
+                  </Label>
+                </RadioGroup>
+
+                {deliveryTiming === 'scheduled' && (
+                  slots.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No delivery slots available</p>
+                  ) : (
+                    <Select value={scheduledFor} onValueChange={setScheduledFor}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a delivery slot" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {slots.map(slot => (
+                          <SelectItem
+                            key={slot.slot_start}
+                            value={slot.slot_start}
+                            disabled={slot.remaining <= 0}
+                          >
+                            {formatDeliverySlot(slot.slot_start, slot.slot_end)}
+                            {slot.remaining <= 0 && ' (Full)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )
+                )}
+              </div>
+            </Card>
+
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold mb-4">Payment</h2>
+              <RadioGroup
+                value={paymentChoice}
+                onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+              >
+                <Label
+                  htmlFor="payment-online"
+                  className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer font-normal"
+                >
+                  <RadioGroupItem value="online" id="payment-online" />
+                  <CreditCard className="h-5 w-5 text-muted-foreground" />
+                  <span className="font-medium">Pay online (UPI, cards, netbanking)</span>
+                </Label>
+                <Label
+                  htmlFor="payment-cod"
+                  className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer font-normal"
+                >
+                  <RadioGroupItem value="cod" id="payment-cod" disabled={codUnavailable !== null} />
+                  <Banknote className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">Cash on delivery</p>
+                    {codUnavailable && (
+                      <p className="text-xs text-muted-foreground">{codUnavailable}</p>
+                    )}
+                  </div>
+                </Label>
+              </RadioGroup>
+            </Card>
+
             <Card className="p-6">
               <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
               <div className="space-y-3">
                 {items.map(item => (
-                  <div key={item.id} className="flex justify-between text-sm">
-                    <span>{item.title} x {item.quantity}</span>
+                  <div key={item.lineId} className="flex justify-between text-sm">
+                    <span>
+                      {item.title}
+                      {item.variantName && ` (${item.variantName})`} x {item.quantity}
+                      {item.modifiers && item.modifiers.length > 0 && (
+                        <span className="block text-xs text-muted-foreground">
+                          {formatModifiers(item.modifiers)}
+                        </span>
+                      )}
+                    </span>
                     <span>₹{(item.price * item.quantity).toFixed(2)}</span>
                   </div>
                 ))}
+                <div className="border-t pt-3">
+                  {coupon ? (
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="flex items-center gap-2">
+                        <Tag className="h-4 w-4 text-primary" />
+                        <span>
+                          <span className="font-medium">{coupon.code}</span> applied
+                          {coupon.description && ` · ${coupon.description}`}
+                        </span>
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => setCoupon(null)}>
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Promo code"
+                        className="uppercase"
+                        value={promoCode}
+                        onChange={(e) => setPromoCode(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && promoCode.trim() && handleApplyCoupon()}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={handleApplyCoupon}
+                        disabled={!promoCode.trim() || checkingCoupon}
+                      >
+                        {checkingCoupon ? 'Checking...' : 'Apply'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
                 <div className="border-t pt-3 space-y-2">
                   <div className="flex justify-between text-sm">
                     <span>Subtotal</span>
                     <span>₹{subtotal.toFixed(2)}</span>
                   </div>
+                  {coupon && (
+                    <div className="flex justify-between text-sm text-primary">
+                      <span>Discount ({coupon.code})</span>
+                      <span>−₹{discount.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
-                    <span>Tax (5%)</span>
-                    <span>₹{tax.toFixed(2)}</span>
+                    <span>CGST</span>
+                    <span>₹{cgst.toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span>Delivery Fee</span>
-                    <span>₹{deliveryFee.toFixed(2)}</span>
+                    <span>SGST</span>
+                    <span>₹{sgst.toFixed(2)}</span>
                   </div>
+                  <div className="flex justify-between text-sm">
+                    <span>
+                      Delivery Fee
+                      {distance !== null && ` (${distance.toFixed(1)} km)`}
+                    </span>
+                    <span>
+                      {distance === null
+                        ? 'Select a location'
+                        : deliveryFee === null
+                          ? 'Not deliverable'
+                          : deliveryFee === 0
+                            ? 'FREE'
+                            : `₹${deliveryFee.toFixed(2)}`}
+                    </span>
+                  </div>
+                  {amountToFreeDelivery > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Add ₹{amountToFreeDelivery.toFixed(2)} more for free delivery
+                    </p>
+                  )}
                   <div className="flex justify-between font-bold text-lg pt-2 border-t">
                     <span>Total</span>
                     <span className="text-primary">₹{orderTotal.toFixed(2)}</span>
@@ -290,13 +643,17 @@ export default function Checkout() {
               onClick={handlePlaceOrder} 
               className="w-full" 
               size="lg"
-              disabled={loading || !latitude || !longitude}
+              disabled={loading || !settings || !deliveryLat || !deliveryLng}
             >
-              {loading ? 'Placing Order...' : 'Place Order'}
+              {loading
+                ? 'Placing Order...'
+                : paymentChoice === 'cod' ? 'Place Order' : `Pay ₹${orderTotal.toFixed(2)} & Place Order`}
             </Button>
           </div>
         </div>
       </div>
+
+      <MockPaymentDialog session={mockSession} onSettle={settleMockPayment} />
     </div>
   );
 }
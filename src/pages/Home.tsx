@@ -4,6 +4,11 @@ import { MenuCard } from '@/components/MenuCard';
 import { Header } from '@/components/Header';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { useStoreStatus } from '@/hooks/useStoreStatus';
+import { describeStoreStatus } from '@/lib/storeStatus';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
 
 interface MenuItem {
   id: string;
@@ -12,12 +17,35 @@ interface MenuItem {
   category: string;
   price: number;
   image_url: string | null;
+  menu_item_variants: Array<{
+    id: string;
+    name: string;
+    price: number;
+    is_available: boolean | null;
+    sort_order: number;
+  }>;
+  modifier_groups: Array<{
+    id: string;
+    name: string;
+    min_select: number;
+    max_select: number;
+    sort_order: number;
+    modifier_options: Array<{
+      id: string;
+      name: string;
+      price: number;
+      is_available: boolean | null;
+      sort_order: number;
+    }>;
+  }>;
 }
 
 export default function Home() {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [categories, setCategories] = useState<string[]>([]);
+  const { settings } = useRestaurantSettings();
+  const { status } = useStoreStatus();
 
   useEffect(() => {
     fetchMenuItems();
@@ -27,7 +55,14 @@ export default function Home() {
     try {
       const { data, error } = await supabase
         .from('menu_items')
-        .select('*')
+        .select(`
+          *,
+          menu_item_variants (id, name, price, is_available, sort_order),
+          modifier_groups (
+            id, name, min_select, max_select, sort_order,
+            modifier_options (id, name, price, is_available, sort_order)
+          )
+        `)
         .eq('is_available', true)
         .order('category', { ascending: true });
 
@@ -43,6 +78,22 @@ export default function Home() {
     }
   };
 
+  const getVariants = (item: MenuItem) =>
+    item.menu_item_variants
+      .filter(v => v.is_available)
+      .sort((a, b) => a.sort_order - b.sort_order);
+
+  const getModifierGroups = (item: MenuItem) =>
+    item.modifier_groups
+      .map(group => ({
+        ...group,
+        options: group.modifier_options
+          .filter(o => o.is_available)
+          .sort((a, b) => a.sort_order - b.sort_order),
+      }))
+      .filter(group => group.options.length > 0)
+      .sort((a, b) => a.sort_order - b.sort_order);
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -50,12 +101,35 @@ export default function Home() {
       {/* Hero Section */}
       <section className="bg-hero-gradient text-white py-16">
         <div className="container">
-          <h1 className="text-4xl md:text-5xl font-bold mb-4">Welcome to FriendHome</h1>
-          <p className="text-xl opacity-90 mb-2">Bathel Complex, 3rd Street, Anna Nagar</p>
-          <p className="text-lg opacity-80">Delivering delicious food within 10 KM radius</p>
+          <h1 className="text-4xl md:text-5xl font-bold mb-4">Welcome to {settings?.name ?? 'FriendHome'}</h1>
+          {settings && (
+            <>
+              <p className="text-xl opacity-90 mb-2">{settings.address}</p>
+              <p className="text-lg opacity-80">
+                Delivering delicious food within {settings.max_delivery_distance_km} KM radius
+              </p>
+            </>
+          )}
         </div>
       </section>
 
+      {/* Open/closed banner */}
+      {status && (
+        <div
+          className={cn(
+            'py-3 text-sm font-medium',
+            status.is_open ? 'bg-green-600 text-white' : 'bg-destructive text-destructive-foreground'
+          )}
+        >
+          <div className="container flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            <span>
+              {status.is_open ? "We're open - order now!" : describeStoreStatus(status)}
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Menu Section */}
       <section className="container py-8">
         <h2 className="text-3xl font-bold mb-6">Our Menu</h2>
@@ -84,7 +158,12 @@ export default function Home() {
             <TabsContent value="all">
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {menuItems.map(item => (
-                  <MenuCard key={item.id} {...item} />
+                  <MenuCard
+                    key={item.id}
+                    {...item}
+                    variants={getVariants(item)}
+                    modifierGroups={getModifierGroups(item)}
+                  />
                 ))}
               </div>
             </TabsContent>
@@ -95,7 +174,12 @@ export default function Home() {
                   {menuItems
                     .filter(item => item.category === category)
                     .map(item => (
-                      <MenuCard key={item.id} {...item} />
+                      <MenuCard
+                        key={item.id}
+                        {...item}
+                        variants={getVariants(item)}
+                        modifierGroups={getModifierGroups(item)}
+                      />
                     ))}
                 </div>
               </TabsContent>
@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { QueueOrder, useOrderQueue } from '@/hooks/useOrderQueue';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { formatModifiers } from '@/lib/modifiers';
+import { formatDeliverySlot } from '@/lib/storeStatus';
+import { OrderStatus } from '@/lib/orderStatus';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ArrowLeft, Maximize } from 'lucide-react';
+
+// What one tap on a tile moves the order to
+const BUMP_TO: Partial<Record<OrderStatus, { status: OrderStatus; label: string }>> = {
+  placed: { status: 'preparing', label: 'Start' },
+  preparing: { status: 'ready', label: 'Ready' },
+};
+
+// Share of the target prep time after which a tile turns amber
+const WARNING_SHARE = 0.75;
+
+const urgencyStyles = {
+  ok: 'border-green-600 bg-green-950/40',
+  warning: 'border-amber-500 bg-amber-950/50',
+  late: 'border-red-600 bg-red-950/60 animate-pulse',
+};
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export default function Kitchen() {
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [bumping, setBumping] = useState<string[]>([]);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { orders, loading } = useOrderQueue(isAdmin);
+  const { settings } = useRestaurantSettings();
+
+  const checkAdminStatus = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('role', 'admin')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!data) {
+        toast.error('Access denied. Admin privileges required.');
+        navigate('/');
+        return;
+      }
+
+      setIsAdmin(true);
+    } catch (error) {
+      console.error('Error checking admin status:', error);
+      navigate('/');
+    }
+  }, [user, navigate]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    checkAdminStatus();
+  }, [user, navigate, checkAdminStatus]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const bumpOrder = async (order: QueueOrder) => {
+    const next = BUMP_TO[order.status];
+    if (!next || bumping.includes(order.id)) return;
+
+    setBumping(prev => [...prev, order.id]);
+    try {
+      const { error } = await supabase
+        .from('orders')
+        .update({ status: next.status })
+        .eq('id', order.id);
+
+      if (error) throw error;
+    } catch (error) {
+      toast.error(error.message || 'Failed to update order');
+    } finally {
+      setBumping(prev => prev.filter(id => id !== order.id));
+    }
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {});
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-neutral-950 text-white p-8">
+        <p>Checking permissions...</p>
+      </div>
+    );
+  }
+
+  const targetMs = (settings?.target_prep_minutes ?? 15) * 60 * 1000;
+
+  // Pre-orders start counting when they need to go on the stove to make their
+  // slot; the rest once placed, which for online orders is when they're paid
+  const startedAt = (order: QueueOrder) =>
+    order.scheduled_for
+      ? new Date(order.scheduled_for).getTime() - targetMs
+      : new Date(
+        order.order_status_history.find(change => change.status === 'placed')?.created_at ?? order.created_at,
+      ).getTime();
+
+  const tickets = orders
+    .filter(o => o.status in BUMP_TO && startedAt(o) <= now)
+    .sort((a, b) => startedAt(a) - startedAt(b));
+
+  const urgency = (elapsed: number) =>
+    elapsed > targetMs ? 'late' : elapsed > targetMs * WARNING_SHARE ? 'warning' : 'ok';
+
+  return (
+    <div className="min-h-screen bg-neutral-950 text-white p-4 select-none">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Button asChild size="icon" variant="ghost" className="text-white hover:bg-neutral-800 hover:text-white">
+            <Link to="/admin" aria-label="Back to admin">
+              <ArrowLeft className="h-6 w-6" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Kitchen</h1>
+          <span className="text-lg text-neutral-400">
+            {tickets.filter(o => o.status === 'placed').length} new ·{' '}
+            {tickets.filter(o => o.status === 'preparing').length} cooking
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-2xl font-mono tabular-nums">{format(now, 'HH:mm')}</span>
+          <Button size="icon" variant="ghost" className="text-white hover:bg-neutral-800 hover:text-white" onClick={toggleFullscreen}>
+            <Maximize className="h-6 w-6" />
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-center text-neutral-400 py-24 text-xl">Loading...</p>
+      ) : tickets.length === 0 ? (
+        <p className="text-center text-neutral-400 py-24 text-2xl">No orders in the kitchen</p>
+      ) : (
+        <div className="grid gap-4 grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
+          {tickets.map(order => {
+            const elapsed = now - startedAt(order);
+            const next = BUMP_TO[order.status]!;
+
+            return (
+              <div
+                key={order.id}
+                className={`flex flex-col rounded-xl border-4 p-4 ${urgencyStyles[urgency(elapsed)]}`}
+              >
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <p className="text-xl font-bold">#{order.id.slice(0, 6).toUpperCase()}</p>
+                    <p className="text-neutral-300">{order.profiles?.full_name || 'Guest'}</p>
+                    {order.scheduled_for && (
+                      <p className="text-sm font-semibold text-sky-300">
+                        For {formatDeliverySlot(order.scheduled_for)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-3xl font-mono font-bold tabular-nums">{formatElapsed(elapsed)}</p>
+                    <p className="text-sm uppercase tracking-wide text-neutral-400">
+                      {order.status === 'placed' ? 'New' : 'Cooking'}
+                    </p>
+                  </div>
+                </div>
+
+                <ul className="flex-1 space-y-2 text-lg mb-3">
+                  {order.order_items.map((item, idx) => (
+                    <li key={idx}>
+                      <span className="font-bold">{item.quantity}×</span> {item.item_title}
+                      {item.variant_name && (
+                        <span className="font-semibold"> ({item.variant_name})</span>
+                      )}
+                      {item.modifiers.length > 0 && (
+                        <span className="block pl-7 text-base text-neutral-300">
+                          {formatModifiers(item.modifiers)}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                {order.notes && (
+                  <p className="rounded-md bg-yellow-400 text-black font-semibold px-3 py-2 mb-3">
+                    {order.notes}
+                  </p>
+                )}
+
+                <Button
+                  className="h-16 text-2xl font-bold"
+                  variant={order.status === 'placed' ? 'secondary' : 'default'}
+                  disabled={bumping.includes(order.id)}
+                  onClick={() => bumpOrder(order)}
+                >
+                  {next.label}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
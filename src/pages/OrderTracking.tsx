@@ -1,38 +1,90 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
+import { formatModifiers, SelectedModifier } from '@/lib/modifiers';
+import { formatDeliverySlot } from '@/lib/storeStatus';
 import { useAuth } from '@/contexts/AuthContext';
 import { format } from 'date-fns';
-import { CheckCircle2, Circle } from 'lucide-react';
+import { CheckCircle2, Circle, Clock, CreditCard, FileText, KeyRound, XCircle } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { CancelOrderDialog } from '@/components/CancelOrderDialog';
+import { RiderTrackingMap } from '@/components/RiderTrackingMap';
+import { MockPaymentDialog } from '@/components/MockPaymentDialog';
+import { useOrderPayment } from '@/hooks/useOrderPayment';
+import { PaymentMethod } from '@/lib/payments';
+import { describeRefund, Refund } from '@/lib/refunds';
+import { downloadInvoice } from '@/lib/invoice';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { toast } from 'sonner';
 
 interface OrderDetails {
   id: string;
   status: string;
+  payment_method: PaymentMethod;
+  payment_status: string;
   total: number;
   subtotal: number;
+  discount: number;
+  coupon_code: string | null;
   tax: number;
+  cgst: number;
+  sgst: number;
   delivery_fee: number;
   distance_km: number;
   notes: string | null;
+  scheduled_for: string | null;
+  cancellation_reason: string | null;
+  rider_id: string | null;
+  estimated_delivery_at: string | null;
+  invoice_number: string | null;
+  invoice_date: string | null;
+  seller_legal_name: string | null;
+  seller_address: string | null;
+  seller_gstin: string | null;
   created_at: string;
   order_items: Array<{
     quantity: number;
     price: number;
     item_title: string;
+    variant_name: string | null;
+    modifiers: SelectedModifier[];
+    hsn_sac_code: string;
+    gst_rate: number;
+    taxable_value: number;
+    cgst: number;
+    sgst: number;
   }>;
   addresses: {
     label: string;
     address_line: string;
+    latitude: number;
+    longitude: number;
   };
+  order_delivery_codes: {
+    code: string;
+  } | null;
+  refunds: Refund[];
 }
 
+interface StatusChange {
+  status: string;
+  created_at: string;
+}
+
+const CANCELLATION_REASONS = [
+  'Ordered by mistake',
+  'Want to change items or address',
+  'Delivery is taking too long',
+];
+
 const statusSteps = [
   { key: 'placed', label: 'Order Placed' },
   { key: 'preparing', label: 'Preparing' },
+  { key: 'ready', label: 'Ready for Delivery' },
   { key: 'out_for_delivery', label: 'Out for Delivery' },
   { key: 'delivered', label: 'Delivered' },
 ];
@@ -40,23 +92,17 @@ const statusSteps = [
 export default function OrderTracking() {
   const { id } = useParams();
   const [order, setOrder] = useState<OrderDetails | null>(null);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [showCancel, setShowCancel] = useState(false);
+  // The customer finished paying and the gateway's confirmation is on its way
+  const [confirmingPayment, setConfirmingPayment] = useState(false);
+  const { pay, paying, mockSession, settleMockPayment } = useOrderPayment();
+  const { settings } = useRestaurantSettings();
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    if (!user) {
-      navigate('/auth');
-      return;
-    }
-    if (id) {
-      fetchOrder();
-      const cleanup = subscribeToUpdates();
-      return cleanup;
-    }
-  }, [user, id, navigate]);
-
-  const fetchOrder = async () => {
+  const fetchOrder = useCallback(async () => {
     if (!id || !user) return;
 
     try {
@@ -65,23 +111,42 @@ export default function OrderTracking() {
         .select(`
           *,
           order_items (*),
-          addresses (label, address_line)
+          addresses (label, address_line, latitude, longitude),
+          order_delivery_codes (code),
+          refunds (id, payment_id, amount, status, reason, items, created_at)
         `)
         .eq('id', id)
         .eq('user_id', user.id)
         .single();
 
       if (error) throw error;
-      setOrder(data);
+      setOrder(data as unknown as OrderDetails);
     } catch (error) {
       console.error('Error fetching order:', error);
       navigate('/orders');
     } finally {
       setLoading(false);
     }
-  };
+  }, [id, user, navigate]);
+
+  const fetchHistory = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('order_status_history')
+        .select('status, created_at')
+        .eq('order_id', id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      console.error('Error fetching order history:', error);
+    }
+  }, [id]);
 
-  const subscribeToUpdates = () => {
+  const subscribeToUpdates = useCallback(() => {
     const channel = supabase
       .channel('order-updates')
       .on(
@@ -93,7 +158,21 @@ export default function OrderTracking() {
           filter: `id=eq.${id}`,
         },
         (payload) => {
-          setOrder(prev => prev ? { ...prev, status: payload.new.status } : null);
+          setOrder(prev => prev ? {
+            ...prev,
+            status: payload.new.status,
+            payment_status: payload.new.payment_status,
+            cancellation_reason: payload.new.cancellation_reason,
+            rider_id: payload.new.rider_id,
+            estimated_delivery_at: payload.new.estimated_delivery_at,
+            invoice_number: payload.new.invoice_number,
+            invoice_date: payload.new.invoice_date,
+            seller_legal_name: payload.new.seller_legal_name,
+            seller_address: payload.new.seller_address,
+            seller_gstin: payload.new.seller_gstin,
+          } : null);
+          if (payload.new.payment_status === 'failed') setConfirmingPayment(false);
+          fetchHistory();
         }
       )
       .subscribe();
@@ -101,6 +180,76 @@ export default function OrderTracking() {
     return () => {
       supabase.removeChannel(channel);
     };
+  }, [id, fetchHistory]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    if (id) {
+      fetchOrder();
+      fetchHistory();
+      const cleanup = subscribeToUpdates();
+      return cleanup;
+    }
+  }, [user, id, navigate, fetchOrder, fetchHistory, subscribeToUpdates]);
+
+  const handleCancel = async (reason: string) => {
+    if (!id) return false;
+
+    try {
+      const { error } = await supabase.rpc('cancel_order', {
+        _order_id: id,
+        _reason: reason,
+      });
+
+      if (error) throw error;
+
+      toast.success('Order cancelled');
+      return true;
+    } catch (error) {
+      toast.error(error.message || 'Failed to cancel order');
+      return false;
+    }
+  };
+
+  const handlePay = async () => {
+    if (!id) return;
+
+    setConfirmingPayment(false);
+    try {
+      const outcome = await pay(id);
+      if (outcome === 'paid') {
+        setConfirmingPayment(true);
+      } else if (outcome === 'failed') {
+        toast.error('Payment failed. Please try again.');
+      }
+    } catch (error) {
+      toast.error(error.message || 'Failed to start payment');
+    }
+  };
+
+  const handleDownloadInvoice = async () => {
+    if (!order || !user) return;
+
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('full_name, phone')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+
+      downloadInvoice(order, {
+        name: profile.full_name || 'Guest',
+        phone: profile.phone,
+        address: `${order.addresses.label}: ${order.addresses.address_line}`,
+      });
+    } catch (error) {
+      toast.error(error.message || 'Failed to download invoice');
+    }
   };
 
   const getCurrentStepIndex = () => {
@@ -126,6 +275,20 @@ export default function OrderTracking() {
   if (!order) return null;
 
   const currentStepIndex = getCurrentStepIndex();
+  const isCancelled = order.status === 'cancelled';
+  // Same rule as public.cancel_order, which has the final say
+  const graceEndsAt = new Date(order.created_at).getTime() + (settings?.cancellation_grace_minutes ?? 0) * 60 * 1000;
+  const canCancel = ['pending_payment', 'placed'].includes(order.status)
+    || (order.status === 'preparing' && Date.now() <= graceEndsAt);
+
+  // Latest time the order entered each status
+  const changedAt = (status: string) =>
+    [...history].reverse().find(change => change.status === status)?.created_at;
+
+  // A cancelled order shows the steps it got through, then the cancellation
+  const timeline = isCancelled
+    ? [...statusSteps.filter(step => changedAt(step.key)), { key: 'cancelled', label: 'Cancelled' }]
+    : statusSteps;
 
   return (
     <div className="min-h-screen bg-background">
@@ -134,18 +297,63 @@ export default function OrderTracking() {
         <h1 className="text-3xl font-bold mb-6">Order Tracking</h1>
         
         <div className="space-y-6">
+          {order.status === 'pending_payment' && (
+            <Card className="p-6 border-primary">
+              <div className="flex items-start gap-3 mb-4">
+                <CreditCard className="h-6 w-6 text-primary" />
+                <div>
+                  <h2 className="text-xl font-semibold">Complete Your Payment</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {confirmingPayment
+                      ? 'Payment received. Confirming your order...'
+                      : order.payment_status === 'failed'
+                        ? "Your last payment didn't go through. Please try again."
+                        : "We'll start on your order as soon as it's paid for."}
+                  </p>
+                </div>
+              </div>
+              <Button className="w-full" onClick={handlePay} disabled={paying || confirmingPayment}>
+                {paying ? 'Opening payment...' : `Pay ₹${order.total.toFixed(2)}`}
+              </Button>
+            </Card>
+          )}
+
           {/* Status Timeline */}
           <Card className="p-6">
             <h2 className="text-xl font-semibold mb-6">Order Status</h2>
+            {order.estimated_delivery_at && !['delivered', 'cancelled'].includes(order.status) && (
+              <div className="flex items-center gap-3 rounded-lg bg-muted p-4 mb-6">
+                <Clock className="h-6 w-6 text-primary" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Estimated delivery</p>
+                  <p className="text-lg font-semibold">
+                    {format(new Date(order.estimated_delivery_at), 'p')}
+                  </p>
+                </div>
+              </div>
+            )}
+            {order.order_delivery_codes && !['delivered', 'cancelled'].includes(order.status) && (
+              <div className="flex items-center gap-3 rounded-lg border border-primary p-4 mb-6">
+                <KeyRound className="h-6 w-6 text-primary" />
+                <div className="flex-1">
+                  <p className="text-sm text-muted-foreground">Delivery code</p>
+                  <p className="text-xs text-muted-foreground">Share it with your rider only when you receive your order</p>
+                </div>
+                <p className="text-2xl font-bold tracking-[0.3em] text-primary">{order.order_delivery_codes.code}</p>
+              </div>
+            )}
             <div className="space-y-4">
-              {statusSteps.map((step, index) => {
-                const isCompleted = index <= currentStepIndex;
-                const isCurrent = index === currentStepIndex;
+              {timeline.map((step, index) => {
+                const isCurrent = isCancelled ? step.key === 'cancelled' : index === currentStepIndex;
+                const isCompleted = isCancelled || index <= currentStepIndex;
+                const reachedAt = isCompleted ? changedAt(step.key) : undefined;
                 
                 return (
                   <div key={step.key} className="flex items-center gap-4">
                     <div className="flex-shrink-0">
-                      {isCompleted ? (
+                      {step.key === 'cancelled' ? (
+                        <XCircle className="h-8 w-8 text-destructive" />
+                      ) : isCompleted ? (
                         <CheckCircle2 className="h-8 w-8 text-primary" />
                       ) : (
                         <Circle className="h-8 w-8 text-muted-foreground" />
@@ -155,6 +363,11 @@ export default function OrderTracking() {
                       <p className={`font-medium ${isCurrent ? 'text-primary' : isCompleted ? 'text-foreground' : 'text-muted-foreground'}`}>
                         {step.label}
                       </p>
+                      {reachedAt && (
+                        <p className="text-sm text-muted-foreground">
+                          {format(new Date(reachedAt), 'PPp')}
+                        </p>
+                      )}
                     </div>
                     {isCurrent && (
                       <Badge variant="default">Current</Badge>
@@ -163,8 +376,34 @@ export default function OrderTracking() {
                 );
               })}
             </div>
+            {isCancelled && order.cancellation_reason && (
+              <p className="text-sm text-muted-foreground mt-4">
+                Reason: {order.cancellation_reason}
+              </p>
+            )}
+            {canCancel && (
+              <Button variant="outline" className="w-full mt-6" onClick={() => setShowCancel(true)}>
+                Cancel Order
+              </Button>
+            )}
           </Card>
 
+          {order.status === 'out_for_delivery' && order.rider_id && (
+            <RiderTrackingMap
+              riderId={order.rider_id}
+              destination={[order.addresses.latitude, order.addresses.longitude]}
+            />
+          )}
+
+          <CancelOrderDialog
+            open={showCancel}
+            onOpenChange={setShowCancel}
+            reasons={CANCELLATION_REASONS}
+            onConfirm={handleCancel}
+          />
+
+          <MockPaymentDialog session={mockSession} onSettle={settleMockPayment} />
+
           {/* Order Details */}
           <Card className="p-6">
             <h2 className="text-xl font-semibold mb-4">Order Details</h2>
@@ -177,6 +416,12 @@ export default function OrderTracking() {
                 <p className="text-sm text-muted-foreground">Placed on</p>
                 <p>{format(new Date(order.created_at), 'PPp')}</p>
               </div>
+              {order.scheduled_for && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Scheduled Delivery</p>
+                  <p className="font-medium">{formatDeliverySlot(order.scheduled_for)}</p>
+                </div>
+              )}
               <div>
                 <p className="text-sm text-muted-foreground">Delivery Address</p>
                 <p className="font-medium">{order.addresses.label}</p>
@@ -202,6 +447,12 @@ export default function OrderTracking() {
                 <div key={idx} className="flex justify-between">
                   <span>
                     {item.quantity}x {item.item_title}
+                    {item.variant_name && ` (${item.variant_name})`}
+                    {item.modifiers.length > 0 && (
+                      <span className="block text-sm text-muted-foreground">
+                        {formatModifiers(item.modifiers)}
+                      </span>
+                    )}
                   </span>
                   <span>₹{(item.price * item.quantity).toFixed(2)}</span>
                 </div>
@@ -211,9 +462,19 @@ export default function OrderTracking() {
                   <span>Subtotal</span>
                   <span>₹{order.subtotal.toFixed(2)}</span>
                 </div>
+                {order.discount > 0 && (
+                  <div className="flex justify-between text-sm text-primary">
+                    <span>Discount{order.coupon_code && ` (${order.coupon_code})`}</span>
+                    <span>−₹{order.discount.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-sm">
+                  <span>CGST</span>
+                  <span>₹{order.cgst.toFixed(2)}</span>
+                </div>
                 <div className="flex justify-between text-sm">
-                  <span>Tax</span>
-                  <span>₹{order.tax.toFixed(2)}</span>
+                  <span>SGST</span>
+                  <span>₹{order.sgst.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span>Delivery Fee</span>
@@ -223,6 +484,27 @@ export default function OrderTracking() {
                   <span>Total</span>
                   <span className="text-primary">₹{order.total.toFixed(2)}</span>
                 </div>
+                {order.payment_status === 'paid' ? (
+                  <p className="text-sm text-muted-foreground text-right">Paid</p>
+                ) : order.payment_method === 'cod' && order.status !== 'cancelled' && (
+                  <p className="text-sm text-muted-foreground text-right">
+                    Cash on delivery: please pay ₹{order.total.toFixed(2)} to your rider
+                  </p>
+                )}
+                {order.refunds.map(refund => (
+                  <p
+                    key={refund.id}
+                    className={`text-sm text-right ${refund.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}
+                  >
+                    {describeRefund(refund)}
+                  </p>
+                ))}
+                {order.invoice_number && (
+                  <Button variant="outline" className="w-full mt-2" onClick={handleDownloadInvoice}>
+                    <FileText className="mr-2 h-4 w-4" />
+                    Download Tax Invoice ({order.invoice_number})
+                  </Button>
+                )}
               </div>
             </div>
           </Card>
@@ -4,6 +4,8 @@ import { Header } from '@/components/Header';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
+import { formatModifiers, SelectedModifier } from '@/lib/modifiers';
+import { formatDeliverySlot } from '@/lib/storeStatus';
 import { useAuth } from '@/contexts/AuthContext';
 import { format } from 'date-fns';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -12,24 +14,31 @@ interface Order {
   id: string;
   status: string;
   total: number;
+  scheduled_for: string | null;
   created_at: string;
   order_items: Array<{
     quantity: number;
     item_title: string;
+    variant_name: string | null;
+    modifiers: SelectedModifier[];
   }>;
 }
 
 const statusColors = {
+  pending_payment: 'bg-gray-400',
   placed: 'bg-blue-500',
   preparing: 'bg-yellow-500',
+  ready: 'bg-orange-500',
   out_for_delivery: 'bg-purple-500',
   delivered: 'bg-green-500',
   cancelled: 'bg-red-500',
 };
 
 const statusLabels = {
+  pending_payment: 'Awaiting Payment',
   placed: 'Placed',
   preparing: 'Preparing',
+  ready: 'Ready',
   out_for_delivery: 'Out for Delivery',
   delivered: 'Delivered',
   cancelled: 'Cancelled',
@@ -59,14 +68,16 @@ export default function Orders() {
           *,
           order_items (
             quantity,
-            item_title
+            item_title,
+            variant_name,
+            modifiers
           )
         `)
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setOrders(data || []);
+      setOrders((data || []) as unknown as Order[]);
     } catch (error) {
       console.error('Error fetching orders:', error);
     } finally {
@@ -108,6 +119,11 @@ export default function Orders() {
                       {format(new Date(order.created_at), 'PPp')}
                     </p>
                     <p className="text-xl font-bold text-primary">₹{order.total.toFixed(2)}</p>
+                    {order.scheduled_for && (
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Scheduled for {formatDeliverySlot(order.scheduled_for)}
+                      </p>
+                    )}
                   </div>
                   <Badge className={statusColors[order.status as keyof typeof statusColors]}>
                     {statusLabels[order.status as keyof typeof statusLabels]}
@@ -117,6 +133,10 @@ export default function Orders() {
                   {order.order_items.map((item, idx) => (
                     <p key={idx} className="text-sm">
                       {item.quantity}x {item.item_title}
+                      {item.variant_name && ` (${item.variant_name})`}
+                      {item.modifiers.length > 0 && (
+                        <span className="text-muted-foreground"> - {formatModifiers(item.modifiers)}</span>
+                      )}
                     </p>
                   ))}
                 </div>
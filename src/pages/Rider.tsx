@@ -0,0 +1,353 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRiderLocationPublisher } from '@/hooks/useRiderLocationPublisher';
+import { formatModifiers, SelectedModifier } from '@/lib/modifiers';
+import { ORDER_STATUS_LABELS, OrderStatus } from '@/lib/orderStatus';
+import { shortOrderId } from '@/lib/tickets';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Banknote, LocateFixed, MapPin, Navigation, Phone } from 'lucide-react';
+
+interface Delivery {
+  id: string;
+  status: OrderStatus;
+  payment_status: string;
+  total: number;
+  notes: string | null;
+  picked_up_at: string | null;
+  created_at: string;
+  user_id: string;
+  profiles: {
+    full_name: string | null;
+    phone: string;
+  } | null;
+  addresses: {
+    label: string;
+    address_line: string;
+    latitude: number;
+    longitude: number;
+  } | null;
+  order_items: Array<{
+    quantity: number;
+    item_title: string;
+    variant_name: string | null;
+    modifiers: SelectedModifier[];
+  }>;
+}
+
+const directionsUrl = (latitude: number, longitude: number) =>
+  `https://www.google.com/maps/dir/?api=1&destination=${latitude},${longitude}`;
+
+export default function Rider() {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isRider, setIsRider] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+  // Delivery codes typed in so far, by order id
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  // Customers can follow the rider once they have picked up an order
+  const { sharing, error: locationError } = useRiderLocationPublisher(
+    deliveries.some(delivery => delivery.picked_up_at)
+  );
+
+  const checkRiderStatus = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('role', 'rider')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!data) {
+        toast.error('Access denied. Rider access required.');
+        navigate('/');
+        return;
+      }
+
+      setIsRider(true);
+    } catch (error) {
+      console.error('Error checking rider status:', error);
+      navigate('/');
+    }
+  }, [user, navigate]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    checkRiderStatus();
+  }, [user, navigate, checkRiderStatus]);
+
+  const fetchDeliveries = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          id, status, payment_status, total, notes, picked_up_at, created_at, user_id,
+          addresses (label, address_line, latitude, longitude),
+          order_items (quantity, item_title, variant_name, modifiers)
+        `)
+        .eq('rider_id', user.id)
+        .in('status', ['ready', 'out_for_delivery'])
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Fetch profiles separately
+      const deliveriesWithProfiles = await Promise.all(
+        (data || []).map(async (order) => {
+          const { data: profile } = await supabase
+            .from('profiles')
+            .select('full_name, phone')
+            .eq('id', order.user_id)
+            .maybeSingle();
+
+          return { ...order, profiles: profile };
+        })
+      );
+
+      setDeliveries(deliveriesWithProfiles as unknown as Delivery[]);
+    } catch (error) {
+      console.error('Error fetching deliveries:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!isRider || !user) return;
+
+    fetchDeliveries();
+
+    const channel = supabase
+      .channel('rider-deliveries')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'orders',
+          filter: `rider_id=eq.${user.id}`,
+        },
+        () => {
+          fetchDeliveries();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isRider, user, fetchDeliveries]);
+
+  const markPickedUp = async (orderId: string) => {
+    setUpdating(orderId);
+    try {
+      const { error } = await supabase.rpc('mark_order_picked_up', { _order_id: orderId });
+
+      if (error) throw error;
+
+      toast.success('Picked up. Drive safe!');
+      fetchDeliveries();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update delivery');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const markDelivered = async (orderId: string) => {
+    setUpdating(orderId);
+    try {
+      const { data: verified, error } = await supabase.rpc('mark_order_delivered', {
+        _order_id: orderId,
+        _code: codes[orderId] ?? '',
+      });
+
+      if (error) throw error;
+
+      if (!verified) {
+        toast.error('Wrong code. Ask the customer to check the code on their order page.');
+        setCodes(current => ({ ...current, [orderId]: '' }));
+        return;
+      }
+
+      toast.success('Order delivered');
+      fetchDeliveries();
+    } catch (error) {
+      toast.error(error.message || 'Failed to update delivery');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  if (!isRider || loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container py-8 max-w-2xl space-y-4">
+          <Skeleton className="h-10 w-48" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container py-8 max-w-2xl">
+        <h1 className="text-3xl font-bold mb-6">My Deliveries</h1>
+
+        {(sharing || locationError) && (
+          <div className={`flex items-center gap-2 text-sm mb-4 ${locationError ? 'text-destructive' : 'text-muted-foreground'}`}>
+            <LocateFixed className="h-4 w-4" />
+            {locationError || 'Sharing your location with customers'}
+          </div>
+        )}
+
+        {deliveries.length === 0 ? (
+          <Card className="p-12 text-center">
+            <p className="text-muted-foreground">No deliveries assigned to you right now</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {deliveries.map(delivery => (
+              <Card key={delivery.id} className="p-6 space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-semibold">#{shortOrderId(delivery.id)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Ordered {format(new Date(delivery.created_at), 'p')}
+                    </p>
+                  </div>
+                  <Badge variant={delivery.picked_up_at ? 'default' : 'secondary'}>
+                    {delivery.picked_up_at ? 'On the way' : ORDER_STATUS_LABELS[delivery.status]}
+                  </Badge>
+                </div>
+
+                {delivery.addresses && (
+                  <div className="flex items-start gap-3">
+                    <MapPin className="h-5 w-5 text-muted-foreground mt-0.5" />
+                    <div className="flex-1">
+                      <p className="font-medium">{delivery.profiles?.full_name || 'Customer'}</p>
+                      <p className="text-sm">{delivery.addresses.address_line}</p>
+                    </div>
+                    <Button asChild variant="outline" size="sm">
+                      <a
+                        href={directionsUrl(delivery.addresses.latitude, delivery.addresses.longitude)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <Navigation className="mr-2 h-4 w-4" />
+                        Map
+                      </a>
+                    </Button>
+                  </div>
+                )}
+
+                {delivery.profiles && (
+                  <Button asChild variant="outline" className="w-full">
+                    <a href={`tel:${delivery.profiles.phone}`}>
+                      <Phone className="mr-2 h-4 w-4" />
+                      Call {delivery.profiles.phone}
+                    </a>
+                  </Button>
+                )}
+
+                <ul className="text-sm space-y-1">
+                  {delivery.order_items.map((item, idx) => (
+                    <li key={idx}>
+                      {item.quantity}x {item.item_title}
+                      {item.variant_name && ` (${item.variant_name})`}
+                      {item.modifiers.length > 0 && (
+                        <span className="block pl-6 text-muted-foreground">
+                          {formatModifiers(item.modifiers)}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                {delivery.notes && (
+                  <p className="text-sm rounded-md bg-muted p-3">{delivery.notes}</p>
+                )}
+
+                {delivery.payment_status === 'paid' ? (
+                  <div className="flex items-center gap-2 rounded-md bg-muted p-3">
+                    <Banknote className="h-5 w-5 text-muted-foreground" />
+                    <span className="flex-1 font-medium">Paid online</span>
+                    <span className="text-sm text-muted-foreground">Nothing to collect</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 rounded-md border border-primary p-3">
+                    <Banknote className="h-5 w-5 text-primary" />
+                    <span className="flex-1 font-medium">Collect cash</span>
+                    <span className="text-lg font-bold text-primary">₹{delivery.total.toFixed(2)}</span>
+                  </div>
+                )}
+
+                {delivery.picked_up_at ? (
+                  <div className="space-y-3">
+                    <div className="flex flex-col items-center gap-2">
+                      <p className="text-sm text-muted-foreground">Ask the customer for their delivery code</p>
+                      <InputOTP
+                        maxLength={4}
+                        inputMode="numeric"
+                        pattern="^[0-9]*$"
+                        value={codes[delivery.id] ?? ''}
+                        onChange={(value) => setCodes(current => ({ ...current, [delivery.id]: value }))}
+                      >
+                        <InputOTPGroup>
+                          {[0, 1, 2, 3].map(index => (
+                            <InputOTPSlot key={index} index={index} className="h-12 w-12 text-lg" />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+                    <Button
+                      className="w-full"
+                      size="lg"
+                      disabled={updating === delivery.id || (codes[delivery.id] ?? '').length !== 4}
+                      onClick={() => markDelivered(delivery.id)}
+                    >
+                      {delivery.payment_status === 'paid' ? 'Mark Delivered' : 'Cash Collected · Mark Delivered'}
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    className="w-full"
+                    size="lg"
+                    variant="secondary"
+                    disabled={updating === delivery.id}
+                    onClick={() => markPickedUp(delivery.id)}
+                  >
+                    Mark Picked Up
+                  </Button>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
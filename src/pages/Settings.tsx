@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { NOTIFICATION_CHANNELS, NOTIFICATION_EVENTS } from '@/lib/notificationPreferences';
+import { describeDevice } from '@/lib/pushNotifications';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Smartphone, Trash2 } from 'lucide-react';
+
+interface PushDevice {
+  id: string;
+  endpoint: string;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export default function Settings() {
+  const [devices, setDevices] = useState<PushDevice[]>([]);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const {
+    isSupported,
+    isSubscribed,
+    currentEndpoint,
+    loading,
+    enableNotifications,
+    disableNotifications,
+    refresh,
+  } = usePushNotifications();
+  const { isEnabled, setPreference, loading: preferencesLoading } = useNotificationPreferences();
+
+  const fetchDevices = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('push_subscriptions')
+        .select('id, endpoint, user_agent, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setDevices(data || []);
+    } catch (error) {
+      console.error('Error fetching devices:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    fetchDevices();
+  }, [user, navigate, fetchDevices]);
+
+  const handleTogglePush = async (enabled: boolean) => {
+    if (enabled) {
+      await enableNotifications();
+    } else {
+      await disableNotifications();
+    }
+    fetchDevices();
+  };
+
+  const handleRevoke = async (device: PushDevice) => {
+    if (device.endpoint === currentEndpoint) {
+      await handleTogglePush(false);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('id', device.id);
+
+      if (error) throw error;
+
+      toast.success('Device removed');
+      fetchDevices();
+      refresh();
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove device');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container py-8 max-w-2xl">
+        <h1 className="text-3xl font-bold mb-6">Settings</h1>
+
+        <Card className="p-6 space-y-6">
+          <div>
+            <h2 className="text-xl font-semibold">Push Notifications</h2>
+            <p className="text-sm text-muted-foreground">
+              Get notified when your order status changes.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="push-toggle" className="font-normal">
+              Notifications on this device
+              {!isSupported && (
+                <span className="block text-xs text-muted-foreground">
+                  Not available in this browser
+                </span>
+              )}
+            </Label>
+            <Switch
+              id="push-toggle"
+              checked={isSubscribed}
+              disabled={!isSupported || loading}
+              onCheckedChange={handleTogglePush}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Devices receiving notifications</p>
+            {devices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No devices yet</p>
+            ) : (
+              devices.map(device => (
+                <div key={device.id} className="flex items-center gap-3 rounded-lg border p-3">
+                  <Smartphone className="h-5 w-5 text-muted-foreground" />
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">
+                      {describeDevice(device.user_agent)}
+                      {device.endpoint === currentEndpoint && (
+                        <Badge variant="secondary" className="ml-2">This device</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Added {format(new Date(device.created_at), 'PP')}
+                    </p>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleRevoke(device)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </Card>
+
+        <Card className="p-6 space-y-6 mt-6">
+          <div>
+            <h2 className="text-xl font-semibold">Notification Preferences</h2>
+            <p className="text-sm text-muted-foreground">
+              Choose which updates you receive and how.
+            </p>
+          </div>
+
+          {preferencesLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left font-medium pb-2">Event</th>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <th key={channel.value} className="font-medium pb-2 w-16">{channel.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {NOTIFICATION_EVENTS.map(event => (
+                  <tr key={event.value} className="border-t">
+                    <td className="py-3">{event.label}</td>
+                    {NOTIFICATION_CHANNELS.map(channel => (
+                      <td key={channel.value} className="py-3 text-center">
+                        <Checkbox
+                          aria-label={`${event.label} by ${channel.label}`}
+                          checked={isEnabled(event.value, channel.value)}
+                          onCheckedChange={(checked) => setPreference(event.value, channel.value, checked === true)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+// The gateway in use is picked with the PAYMENT_GATEWAY function secret.
+// To add a gateway, implement PaymentGateway and register it here.
+import { createMockGateway } from "./mock.ts";
+import { createRazorpayGateway } from "./razorpay.ts";
+import { PaymentGateway } from "./types.ts";
+
+export * from "./types.ts";
+
+const gateways: Record<string, () => PaymentGateway> = {
+  mock: createMockGateway,
+  razorpay: createRazorpayGateway,
+};
+
+export function getPaymentGateway(): PaymentGateway {
+  const name = Deno.env.get("PAYMENT_GATEWAY");
+  const create = name ? gateways[name] : undefined;
+
+  if (!create) {
+    throw new Error(`Unknown PAYMENT_GATEWAY "${name ?? ""}"; expected one of ${Object.keys(gateways).join(", ")}`);
+  }
+
+  return create();
+}
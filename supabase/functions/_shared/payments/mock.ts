@@ -0,0 +1,58 @@
+// Stand-in gateway for development and tests. Nothing is charged: the
+// mock-payment function plays the customer and sends the signed webhook a
+// real gateway would, so payment-webhook runs exactly as in production.
+// Refunds go through at once.
+import { hmacSha256Hex, verifyHmacSha256 } from "./signature.ts";
+import { PaymentGateway, WebhookSignatureError } from "./types.ts";
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+
+export interface MockWebhook {
+  event: "payment.captured" | "payment.failed";
+  order_id: string;
+  payment_id: string;
+  amount: number;
+  error?: string;
+}
+
+const webhookSecret = () => Deno.env.get("MOCK_GATEWAY_SECRET")!;
+
+export function signMockWebhook(rawBody: string): Promise<string> {
+  return hmacSha256Hex(webhookSecret(), rawBody);
+}
+
+export function createMockGateway(): PaymentGateway {
+  return {
+    name: "mock",
+
+    createOrder({ amount, currency }) {
+      const providerOrderId = `mock_order_${crypto.randomUUID()}`;
+
+      return Promise.resolve({
+        providerOrderId,
+        checkout: { order_id: providerOrderId, amount, currency },
+      });
+    },
+
+    refund() {
+      return Promise.resolve({ providerRefundId: `mock_refund_${crypto.randomUUID()}`, status: "processed" });
+    },
+
+    async parseWebhook(rawBody, headers) {
+      if (!await verifyHmacSha256(webhookSecret(), rawBody, headers.get(MOCK_SIGNATURE_HEADER))) {
+        throw new WebhookSignatureError();
+      }
+
+      const webhook: MockWebhook = JSON.parse(rawBody);
+
+      return {
+        type: "payment",
+        providerOrderId: webhook.order_id,
+        providerPaymentId: webhook.payment_id,
+        amount: webhook.amount,
+        paid: webhook.event === "payment.captured",
+        failureReason: webhook.error ?? null,
+      };
+    },
+  };
+}
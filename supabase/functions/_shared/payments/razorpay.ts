@@ -0,0 +1,133 @@
+// Razorpay: cards, netbanking and UPI through Razorpay Checkout.
+// https://razorpay.com/docs/api/orders/, https://razorpay.com/docs/api/refunds/
+// and https://razorpay.com/docs/webhooks/
+import { verifyHmacSha256 } from "./signature.ts";
+import { PaymentGateway, WebhookSignatureError } from "./types.ts";
+
+const API_URL = "https://api.razorpay.com/v1";
+
+interface RazorpayPaymentEntity {
+  id: string;
+  order_id: string;
+  amount: number;
+  error_description?: string | null;
+}
+
+interface RazorpayRefundEntity {
+  id: string;
+  receipt: string | null;
+  status: "pending" | "processed" | "failed";
+}
+
+interface RazorpayWebhook {
+  event: string;
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity };
+    refund?: { entity: RazorpayRefundEntity };
+  };
+}
+
+// Razorpay counts in paise
+const toPaise = (rupees: number) => Math.round(rupees * 100);
+const toRupees = (paise: number) => paise / 100;
+
+export function createRazorpayGateway(): PaymentGateway {
+  const keyId = Deno.env.get("RAZORPAY_KEY_ID")!;
+  const keySecret = Deno.env.get("RAZORPAY_KEY_SECRET")!;
+  const webhookSecret = Deno.env.get("RAZORPAY_WEBHOOK_SECRET")!;
+
+  const headers = {
+    "Content-Type": "application/json",
+    Authorization: `Basic ${btoa(`${keyId}:${keySecret}`)}`,
+  };
+
+  return {
+    name: "razorpay",
+
+    async createOrder({ amount, currency, receipt }) {
+      const response = await fetch(`${API_URL}/orders`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ amount: toPaise(amount), currency, receipt }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Razorpay order failed (${response.status}): ${await response.text()}`);
+      }
+
+      const order = await response.json();
+
+      return {
+        providerOrderId: order.id,
+        checkout: {
+          key: keyId,
+          order_id: order.id,
+          amount: order.amount,
+          currency: order.currency,
+        },
+      };
+    },
+
+    async refund({ providerPaymentId, amount, receipt }) {
+      const response = await fetch(`${API_URL}/payments/${providerPaymentId}/refund`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ amount: toPaise(amount), receipt }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Razorpay refund failed (${response.status}): ${await response.text()}`);
+      }
+
+      const refund: RazorpayRefundEntity = await response.json();
+
+      return { providerRefundId: refund.id, status: refund.status };
+    },
+
+    async parseWebhook(rawBody, headers) {
+      if (!await verifyHmacSha256(webhookSecret, rawBody, headers.get("x-razorpay-signature"))) {
+        throw new WebhookSignatureError();
+      }
+
+      const webhook: RazorpayWebhook = JSON.parse(rawBody);
+      const refund = webhook.payload.refund?.entity;
+
+      if (refund && refund.receipt && (webhook.event === "refund.processed" || webhook.event === "refund.failed")) {
+        return {
+          type: "refund",
+          refundId: refund.receipt,
+          providerRefundId: refund.id,
+          processed: webhook.event === "refund.processed",
+          failureReason: webhook.event === "refund.failed" ? "Razorpay could not process the refund" : null,
+        };
+      }
+
+      const payment = webhook.payload.payment?.entity;
+
+      if (!payment) return null;
+
+      switch (webhook.event) {
+        case "payment.captured":
+          return {
+            type: "payment",
+            providerOrderId: payment.order_id,
+            providerPaymentId: payment.id,
+            amount: toRupees(payment.amount),
+            paid: true,
+            failureReason: null,
+          };
+        case "payment.failed":
+          return {
+            type: "payment",
+            providerOrderId: payment.order_id,
+            providerPaymentId: payment.id,
+            amount: toRupees(payment.amount),
+            paid: false,
+            failureReason: payment.error_description ?? null,
+          };
+        default:
+          return null;
+      }
+    },
+  };
+}
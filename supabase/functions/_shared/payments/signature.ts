@@ -0,0 +1,36 @@
+const encoder = new TextEncoder();
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Compares every character so the time taken doesn't reveal how much matched
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+export async function verifyHmacSha256(
+  secret: string,
+  message: string,
+  signature: string | null,
+): Promise<boolean> {
+  if (!signature) return false;
+  return timingSafeEqual(await hmacSha256Hex(secret, message), signature.toLowerCase());
+}
@@ -0,0 +1,63 @@
+// What every payment gateway adapter provides. Amounts are in rupees here;
+// adapters convert to whatever unit their gateway uses.
+
+export interface CreateGatewayOrder {
+  amount: number;
+  currency: string;
+  // Our payment id, so gateway dashboards can be matched back to it
+  receipt: string;
+}
+
+export interface GatewayOrder {
+  providerOrderId: string;
+  // Handed to the browser to open the gateway's checkout
+  checkout: Record<string, unknown>;
+}
+
+export interface CreateGatewayRefund {
+  providerPaymentId: string;
+  amount: number;
+  // Our refund id; gateways send it back with their refund webhooks
+  receipt: string;
+}
+
+export interface GatewayRefund {
+  providerRefundId: string;
+  // Gateways often finish refunds later and report back by webhook
+  status: "pending" | "processed" | "failed";
+}
+
+export interface PaymentEvent {
+  type: "payment";
+  providerOrderId: string;
+  providerPaymentId: string | null;
+  amount: number;
+  paid: boolean;
+  failureReason: string | null;
+}
+
+export interface RefundEvent {
+  type: "refund";
+  refundId: string;
+  providerRefundId: string;
+  processed: boolean;
+  failureReason: string | null;
+}
+
+export type WebhookEvent = PaymentEvent | RefundEvent;
+
+export interface PaymentGateway {
+  name: string;
+  createOrder(order: CreateGatewayOrder): Promise<GatewayOrder>;
+  refund(refund: CreateGatewayRefund): Promise<GatewayRefund>;
+  // Throws WebhookSignatureError unless the gateway signed the body.
+  // Resolves to null for events that don't change a payment or refund.
+  parseWebhook(rawBody: string, headers: Headers): Promise<WebhookEvent | null>;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor() {
+    super("Invalid webhook signature");
+    this.name = "WebhookSignatureError";
+  }
+}
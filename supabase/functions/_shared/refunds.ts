@@ -0,0 +1,62 @@
+// Sends a pending refund to the gateway that took its payment and records
+// what the gateway said. A refund the gateway turns down is recorded as
+// failed so it no longer counts against what can still be refunded.
+import { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { GatewayRefund, getPaymentGateway } from "./payments/index.ts";
+
+export interface PendingRefund {
+  id: string;
+  payment_id: string;
+  amount: number;
+}
+
+export class GatewayRefundError extends Error {
+  constructor(cause: unknown) {
+    super("The payment gateway could not refund this payment", { cause });
+    this.name = "GatewayRefundError";
+  }
+}
+
+export async function sendRefund(supabase: SupabaseClient, refund: PendingRefund): Promise<GatewayRefund["status"]> {
+  const { data: payment, error: paymentError } = await supabase
+    .from("payments")
+    .select("provider, provider_payment_id")
+    .eq("id", refund.payment_id)
+    .single();
+
+  if (paymentError) throw paymentError;
+
+  const gateway = getPaymentGateway();
+  let result: GatewayRefund;
+
+  try {
+    if (payment.provider !== gateway.name || !payment.provider_payment_id) {
+      throw new Error(`Payment was taken through ${payment.provider}, not ${gateway.name}`);
+    }
+
+    result = await gateway.refund({
+      providerPaymentId: payment.provider_payment_id,
+      amount: refund.amount,
+      receipt: refund.id,
+    });
+  } catch (error) {
+    console.error("Error creating gateway refund:", error);
+    await supabase.rpc("record_refund_result", {
+      _refund_id: refund.id,
+      _provider_refund_id: null,
+      _status: "failed",
+      _failure_reason: error instanceof Error ? error.message : String(error),
+    });
+    throw new GatewayRefundError(error);
+  }
+
+  const { error: resultError } = await supabase.rpc("record_refund_result", {
+    _refund_id: refund.id,
+    _provider_refund_id: result.providerRefundId,
+    _status: result.status,
+  });
+
+  if (resultError) throw resultError;
+
+  return result.status;
+}
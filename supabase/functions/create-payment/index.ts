@@ -0,0 +1,146 @@
+// Starts paying for an order: creates the order at the payment gateway and
+// records the attempt in public.payments. The browser then opens the
+// gateway's checkout; payment-webhook confirms the order once it's captured.
+// Retrying checkout reopens the attempt already under way rather than
+// starting another one the customer could also pay.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getPaymentGateway } from "../_shared/payments/index.ts";
+
+interface CreatePaymentRequest {
+  order_id: string;
+}
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const userClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+
+  if (!user) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  let payload: CreatePaymentRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, user_id, status, payment_status, total")
+    .eq("id", payload.order_id)
+    .maybeSingle();
+
+  if (orderError) {
+    console.error("Error fetching order:", orderError);
+    return json({ error: orderError.message }, 500);
+  }
+
+  if (!order || order.user_id !== user.id) {
+    return json({ error: "Order not found" }, 404);
+  }
+
+  if (order.status !== "pending_payment" || order.payment_status === "paid") {
+    return json({ error: "This order doesn't need paying for" }, 409);
+  }
+
+  const gateway = getPaymentGateway();
+
+  const session = (paymentId: string, checkout: unknown) => ({
+    payment_id: paymentId,
+    provider: gateway.name,
+    amount: order.total,
+    currency: "INR",
+    checkout,
+  });
+
+  const findOpenPayment = () =>
+    supabase
+      .from("payments")
+      .select("id, provider, checkout")
+      .eq("order_id", order.id)
+      .eq("status", "pending")
+      .maybeSingle();
+
+  const { data: openPayment, error: openPaymentError } = await findOpenPayment();
+
+  if (openPaymentError) {
+    console.error("Error fetching open payment:", openPaymentError);
+    return json({ error: openPaymentError.message }, 500);
+  }
+
+  if (openPayment?.checkout && openPayment.provider === gateway.name) {
+    return json(session(openPayment.id, openPayment.checkout));
+  }
+
+  // Opened through another gateway, or before checkouts were kept, so it
+  // can't be reopened. A capture that still comes in for it is refunded.
+  if (openPayment) {
+    const { error: replaceError } = await supabase
+      .from("payments")
+      .update({ status: "failed", failure_reason: "Replaced by a later payment attempt" })
+      .eq("id", openPayment.id)
+      .eq("status", "pending");
+
+    if (replaceError) {
+      console.error("Error replacing open payment:", replaceError);
+      return json({ error: replaceError.message }, 500);
+    }
+  }
+
+  const paymentId = crypto.randomUUID();
+
+  let gatewayOrder;
+  try {
+    gatewayOrder = await gateway.createOrder({ amount: order.total, currency: "INR", receipt: paymentId });
+  } catch (error) {
+    console.error("Error creating gateway order:", error);
+    return json({ error: "Payment gateway is unavailable. Please try again." }, 502);
+  }
+
+  const { error: paymentError } = await supabase.from("payments").insert({
+    id: paymentId,
+    order_id: order.id,
+    provider: gateway.name,
+    provider_order_id: gatewayOrder.providerOrderId,
+    amount: order.total,
+    currency: "INR",
+    checkout: gatewayOrder.checkout,
+  });
+
+  // Another tab opened checkout at the same moment; both get its attempt
+  if (paymentError?.code === "23505") {
+    const { data: racedPayment, error: racedError } = await findOpenPayment();
+
+    if (racedPayment?.checkout) {
+      return json(session(racedPayment.id, racedPayment.checkout));
+    }
+    console.error("Error fetching open payment:", racedError);
+  }
+
+  if (paymentError) {
+    console.error("Error recording payment:", paymentError);
+    return json({ error: paymentError.message }, 500);
+  }
+
+  return json(session(paymentId, gatewayOrder.checkout));
+});
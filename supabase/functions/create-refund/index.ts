@@ -0,0 +1,76 @@
+// Issues a refund from the admin dashboard. request_refund checks the caller
+// is an admin and decides the amount; online payments are then refunded through the
+// gateway, which may finish the refund later through payment-webhook.
+// Cash refunds are recorded as handed back and need nothing more.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { GatewayRefundError, sendRefund } from "../_shared/refunds.ts";
+
+interface CreateRefundRequest {
+  order_id: string;
+  reason: string;
+  items?: { order_item_id: string; quantity: number }[];
+  amount?: number | null;
+}
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let payload: CreateRefundRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const userClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { data: { user } } = await userClient.auth.getUser();
+
+  if (!user) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  const { data: refund, error: refundError } = await supabase.rpc("request_refund", {
+    _admin_id: user.id,
+    _order_id: payload.order_id,
+    _reason: payload.reason,
+    _items: payload.items ?? [],
+    _amount: payload.amount ?? null,
+  });
+
+  if (refundError) {
+    return json({ error: refundError.message }, 400);
+  }
+
+  if (!refund.payment_id) {
+    return json({ refund_id: refund.id, amount: refund.amount, status: refund.status });
+  }
+
+  try {
+    const status = await sendRefund(supabase, refund);
+    return json({ refund_id: refund.id, amount: refund.amount, status });
+  } catch (error) {
+    if (error instanceof GatewayRefundError) {
+      return json({ error: error.message }, 502);
+    }
+    console.error("Error sending refund:", error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
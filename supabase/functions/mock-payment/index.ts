@@ -0,0 +1,89 @@
+// The mock gateway's "checkout": settles a payment the way the customer
+// chose in the app by sending payment-webhook the signed event a real
+// gateway would. Only available while PAYMENT_GATEWAY is "mock".
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { MOCK_SIGNATURE_HEADER, MockWebhook, signMockWebhook } from "../_shared/payments/mock.ts";
+
+interface MockPaymentRequest {
+  payment_id: string;
+  outcome: "paid" | "failed";
+}
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (Deno.env.get("PAYMENT_GATEWAY") !== "mock") {
+    return json({ error: "The mock gateway is not enabled" }, 404);
+  }
+
+  let payload: MockPaymentRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+
+  // Row level security only lets customers see payments for their own orders
+  const userClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { data: payment, error: paymentError } = await userClient
+    .from("payments")
+    .select("id, provider, provider_order_id, amount")
+    .eq("id", payload.payment_id)
+    .maybeSingle();
+
+  if (paymentError) {
+    console.error("Error fetching payment:", paymentError);
+    return json({ error: paymentError.message }, 500);
+  }
+
+  if (!payment || payment.provider !== "mock") {
+    return json({ error: "Payment not found" }, 404);
+  }
+
+  const webhook: MockWebhook = payload.outcome === "paid"
+    ? {
+      event: "payment.captured",
+      order_id: payment.provider_order_id,
+      payment_id: `mock_pay_${crypto.randomUUID()}`,
+      amount: payment.amount,
+    }
+    : {
+      event: "payment.failed",
+      order_id: payment.provider_order_id,
+      payment_id: `mock_pay_${crypto.randomUUID()}`,
+      amount: payment.amount,
+      error: "Declined in the mock checkout",
+    };
+  const rawBody = JSON.stringify(webhook);
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/payment-webhook`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [MOCK_SIGNATURE_HEADER]: await signMockWebhook(rawBody),
+    },
+    body: rawBody,
+  });
+
+  if (!response.ok) {
+    console.error("Mock webhook was rejected:", await response.text());
+    return json({ error: "Failed to settle the mock payment" }, 502);
+  }
+
+  return json({ outcome: payload.outcome });
+});
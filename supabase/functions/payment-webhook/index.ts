@@ -0,0 +1,89 @@
+// Receives payment and refund events from the gateway. The signature is
+// checked before anything is read from the body; record_payment_result then
+// updates the payment and confirms its order, and record_refund_result
+// settles refunds. A payment for an order that was already paid for or
+// cancelled is refunded straight away. Gateways retry anything but a 2xx.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getPaymentGateway, WebhookSignatureError } from "../_shared/payments/index.ts";
+import { sendRefund } from "../_shared/refunds.ts";
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  const gateway = getPaymentGateway();
+  const rawBody = await req.text();
+
+  let event;
+  try {
+    event = await gateway.parseWebhook(rawBody, req.headers);
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return json({ error: error.message }, 401);
+    }
+    return json({ error: "Invalid webhook body" }, 400);
+  }
+
+  // Not an event that changes a payment; acknowledge so it isn't retried
+  if (!event) {
+    return json({ received: true, ignored: true });
+  }
+
+  if (event.type === "refund") {
+    const { error } = await supabase.rpc("record_refund_result", {
+      _refund_id: event.refundId,
+      _provider_refund_id: event.providerRefundId,
+      _status: event.processed ? "processed" : "failed",
+      _failure_reason: event.failureReason,
+    });
+
+    if (error) {
+      console.error("Error recording refund result:", error);
+      return json({ error: error.message }, 500);
+    }
+
+    return json({ received: true });
+  }
+
+  const { data: refundId, error } = await supabase.rpc("record_payment_result", {
+    _provider: gateway.name,
+    _provider_order_id: event.providerOrderId,
+    _provider_payment_id: event.providerPaymentId,
+    _amount: event.amount,
+    _paid: event.paid,
+    _failure_reason: event.failureReason,
+  });
+
+  if (error) {
+    console.error("Error recording payment result:", error);
+    return json({ error: error.message }, 500);
+  }
+
+  // The order was already paid for, or cancelled before the payment came
+  // in. The capture is recorded either way, so a refund that fails here is
+  // left for an admin to retry rather than failing the webhook.
+  if (refundId) {
+    const { data: refund, error: refundError } = await supabase
+      .from("refunds")
+      .select("id, payment_id, amount")
+      .eq("id", refundId)
+      .single();
+
+    try {
+      if (refundError) throw refundError;
+      await sendRefund(supabase, refund);
+    } catch (refundSendError) {
+      console.error("Error refunding a payment the order didn't need:", refundSendError);
+    }
+  }
+
+  return json({ received: true });
+});
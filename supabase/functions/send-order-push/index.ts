@@ -0,0 +1,147 @@
+// Sends a web push to every device of an order's customer when its status
+// changes. Called by the notify_order_status_push and notify_order_placed_push
+// triggers on public.orders.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+import { getMessage, OrderStatus } from "./messages.ts";
+
+interface PushRequest {
+  order_id: string;
+  status: OrderStatus;
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  locale: string | null;
+}
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+webpush.setVapidDetails(
+  Deno.env.get("VAPID_SUBJECT") ?? "mailto:support@friendhome.app",
+  Deno.env.get("VAPID_PUBLIC_KEY")!,
+  Deno.env.get("VAPID_PRIVATE_KEY")!,
+);
+
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  // Only the database trigger, which holds the service role key, may send pushes
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  let payload: PushRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, user_id, status, estimated_delivery_at")
+    .eq("id", payload.order_id)
+    .maybeSingle();
+
+  if (orderError) {
+    console.error("Error fetching order:", orderError);
+    return json({ error: orderError.message }, 500);
+  }
+
+  // The order moved on again before this request ran; that change sends its own push
+  if (!order || order.status !== payload.status) {
+    return json({ sent: 0, pruned: 0, skipped: true });
+  }
+
+  const { data: wanted, error: preferenceError } = await supabase.rpc("wants_notification", {
+    _user_id: order.user_id,
+    _event: order.status,
+    _channel: "push",
+  });
+
+  if (preferenceError) {
+    console.error("Error checking notification preferences:", preferenceError);
+    return json({ error: preferenceError.message }, 500);
+  }
+
+  // The customer turned off push for this kind of update
+  if (!wanted) {
+    return json({ sent: 0, pruned: 0, skipped: true });
+  }
+
+  const { data: settings } = await supabase
+    .from("restaurant_settings")
+    .select("timezone")
+    .maybeSingle();
+
+  const eta = order.estimated_delivery_at
+    ? { at: order.estimated_delivery_at, timeZone: settings?.timezone ?? "Asia/Kolkata" }
+    : undefined;
+
+  const { data: subscriptions, error: subscriptionsError } = await supabase
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth, locale")
+    .eq("user_id", order.user_id);
+
+  if (subscriptionsError) {
+    console.error("Error fetching push subscriptions:", subscriptionsError);
+    return json({ error: subscriptionsError.message }, 500);
+  }
+
+  let sent = 0;
+  const expired: string[] = [];
+
+  await Promise.all(
+    (subscriptions as PushSubscriptionRow[]).map(async (subscription) => {
+      const message = getMessage(order.status, subscription.locale, eta);
+
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          },
+          JSON.stringify({
+            title: message.title,
+            body: message.body,
+            url: `/orders/${order.id}`,
+            // Newer updates for the same order replace older ones
+            tag: `order-${order.id}`,
+          }),
+          { TTL: 60 * 60 },
+        );
+        sent++;
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        // The push service no longer knows this subscription
+        if (statusCode === 404 || statusCode === 410) {
+          expired.push(subscription.id);
+        } else {
+          console.error(`Error sending push to ${subscription.endpoint}:`, error);
+        }
+      }
+    }),
+  );
+
+  if (expired.length > 0) {
+    const { error } = await supabase
+      .from("push_subscriptions")
+      .delete()
+      .in("id", expired);
+
+    if (error) console.error("Error pruning push subscriptions:", error);
+  }
+
+  return json({ sent, pruned: expired.length });
+});
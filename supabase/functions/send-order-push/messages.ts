@@ -0,0 +1,62 @@
+// Notification copy per order status, keyed by language.
+// Add a language here and subscriptions with that locale pick it up.
+export type OrderStatus = "placed" | "preparing" | "out_for_delivery" | "delivered" | "cancelled";
+
+interface Message {
+  title: string;
+  body: string;
+}
+
+const messages: Record<string, Record<OrderStatus, Message>> = {
+  en: {
+    placed: { title: "Order received", body: "We've received your order." },
+    preparing: { title: "Your order is being prepared", body: "Our kitchen is cooking your food." },
+    out_for_delivery: { title: "Order on the way", body: "Your food will arrive soon." },
+    delivered: { title: "Order delivered", body: "Enjoy your meal!" },
+    cancelled: { title: "Order cancelled", body: "Your order has been cancelled." },
+  },
+  hi: {
+    placed: { title: "ऑर्डर मिल गया", body: "हमें आपका ऑर्डर मिल गया है।" },
+    preparing: { title: "आपका ऑर्डर तैयार हो रहा है", body: "हमारी रसोई आपका खाना बना रही है।" },
+    out_for_delivery: { title: "ऑर्डर रास्ते में है", body: "आपका खाना जल्द ही पहुँचने वाला है।" },
+    delivered: { title: "ऑर्डर डिलीवर हो गया", body: "अपने खाने का आनंद लें!" },
+    cancelled: { title: "ऑर्डर रद्द कर दिया गया", body: "आपका ऑर्डर रद्द कर दिया गया है।" },
+  },
+  ta: {
+    placed: { title: "ஆர்டர் பெறப்பட்டது", body: "உங்கள் ஆர்டர் எங்களுக்கு கிடைத்தது." },
+    preparing: { title: "உங்கள் ஆர்டர் தயாராகிறது", body: "எங்கள் சமையலறை உங்கள் உணவைத் தயாரிக்கிறது." },
+    out_for_delivery: { title: "ஆர்டர் வழியில் உள்ளது", body: "உங்கள் உணவு விரைவில் வந்து சேரும்." },
+    delivered: { title: "ஆர்டர் டெலிவரி செய்யப்பட்டது", body: "உங்கள் உணவை அனுபவியுங்கள்!" },
+    cancelled: { title: "ஆர்டர் ரத்து செய்யப்பட்டது", body: "உங்கள் ஆர்டர் ரத்து செய்யப்பட்டது." },
+  },
+};
+
+// Appended to updates for orders still on their way, e.g. "Expected by 7:45 PM."
+const etaLines: Record<string, (time: string) => string> = {
+  en: (time) => `Expected by ${time}.`,
+  hi: (time) => `अनुमानित समय: ${time}`,
+  ta: (time) => `எதிர்பார்க்கப்படும் நேரம்: ${time}`,
+};
+
+const STATUSES_WITH_ETA: OrderStatus[] = ["placed", "preparing", "out_for_delivery"];
+
+// "ta-IN" -> Tamil; unknown or missing locales fall back to English.
+// The ETA is shown in the restaurant's time zone.
+export function getMessage(
+  status: OrderStatus,
+  locale: string | null,
+  eta?: { at: string; timeZone: string },
+): Message {
+  const language = (locale ?? "en").toLowerCase().split("-")[0];
+  const message = (messages[language] ?? messages.en)[status];
+
+  if (!eta || !STATUSES_WITH_ETA.includes(status)) return message;
+
+  const time = new Intl.DateTimeFormat(locale ?? "en", {
+    timeStyle: "short",
+    timeZone: eta.timeZone,
+  }).format(new Date(eta.at));
+  const etaLine = (etaLines[language] ?? etaLines.en)(time);
+
+  return { ...message, body: `${message.body} ${etaLine}` };
+}
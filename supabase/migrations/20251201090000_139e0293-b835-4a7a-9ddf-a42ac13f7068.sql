@@ -0,0 +1,130 @@
+-- Great-circle distance between two points in km
+CREATE OR REPLACE FUNCTION public.distance_km(lat1 numeric, lng1 numeric, lat2 numeric, lng2 numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (6371 * 2 * atan2(
+    sqrt(
+      sin(radians(lat2 - lat1) / 2) ^ 2 +
+      cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lng2 - lng1) / 2) ^ 2
+    ),
+    sqrt(1 - (
+      sin(radians(lat2 - lat1) / 2) ^ 2 +
+      cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lng2 - lng1) / 2) ^ 2
+    ))
+  ))::numeric
+$$;
+
+-- Place an order in one transaction, pricing every line from menu_items
+-- instead of trusting the prices sent by the browser.
+-- _items:   [{ "menu_item_id": uuid, "quantity": int }, ...]
+-- _address: { "label": text, "address_line": text, "latitude": num, "longitude": num }
+CREATE OR REPLACE FUNCTION public.place_order(_items jsonb, _address jsonb, _notes text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _restaurant_lat constant numeric := 13.0878;
+  _restaurant_lng constant numeric := 80.2085;
+  _max_distance constant numeric := 10;
+  _tax_rate constant numeric := 0.05;
+  _delivery_fee constant numeric := 30;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric := 0;
+  _tax numeric;
+  _address_id uuid;
+  _order_id uuid;
+  _line record;
+  _menu_item record;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF coalesce(trim(_address->>'label'), '') = '' THEN
+    RAISE EXCEPTION 'Label is required';
+  END IF;
+
+  IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+    RAISE EXCEPTION 'Address must be at least 10 characters';
+  END IF;
+
+  _latitude := (_address->>'latitude')::numeric;
+  _longitude := (_address->>'longitude')::numeric;
+
+  IF _latitude IS NULL OR _longitude IS NULL THEN
+    RAISE EXCEPTION 'Please provide delivery location';
+  END IF;
+
+  _distance := public.distance_km(_restaurant_lat, _restaurant_lng, _latitude, _longitude);
+
+  IF _distance > _max_distance THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      _max_distance, round(_distance, 1);
+  END IF;
+
+  -- Validate every line against the current menu
+  FOR _line IN
+    SELECT (value->>'menu_item_id')::uuid AS menu_item_id, (value->>'quantity')::integer AS quantity
+    FROM jsonb_array_elements(_items)
+  LOOP
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity in cart';
+    END IF;
+
+    SELECT id, title, price, is_available INTO _menu_item
+    FROM public.menu_items
+    WHERE id = _line.menu_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart no longer exists';
+    END IF;
+
+    IF NOT coalesce(_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is currently unavailable', _menu_item.title;
+    END IF;
+
+    _subtotal := _subtotal + _menu_item.price * _line.quantity;
+  END LOOP;
+
+  _tax := round(_subtotal * _tax_rate, 2);
+
+  INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude)
+  VALUES (_user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude)
+  RETURNING id INTO _address_id;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, tax, delivery_fee, total, distance_km, notes, status
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _tax, _delivery_fee,
+    _subtotal + _tax + _delivery_fee, round(_distance, 2), nullif(trim(_notes), ''), 'placed'
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, quantity, price, item_title)
+  SELECT _order_id, m.id, (line->>'quantity')::integer, m.price, m.title
+  FROM jsonb_array_elements(_items) AS line
+  JOIN public.menu_items m ON m.id = (line->>'menu_item_id')::uuid;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, jsonb, text) TO authenticated;
+
+-- Orders are now only created through place_order
+DROP POLICY "Users can create their own orders" ON public.orders;
+DROP POLICY "Users can create order items for their orders" ON public.order_items;
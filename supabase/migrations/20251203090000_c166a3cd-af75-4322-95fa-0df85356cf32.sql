@@ -0,0 +1,212 @@
+-- Create menu item variants table (sizes, ghee/regular, etc.)
+CREATE TABLE public.menu_item_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid REFERENCES public.menu_items(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  price numeric(10, 2) NOT NULL CHECK (price >= 0),
+  is_available boolean DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(menu_item_id, name)
+);
+
+ALTER TABLE public.menu_item_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view available menu item variants"
+  ON public.menu_item_variants FOR SELECT
+  USING (is_available = true OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage menu item variants"
+  ON public.menu_item_variants FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_menu_item_variants_updated_at
+  BEFORE UPDATE ON public.menu_item_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Remember which variant was ordered, even if it is later renamed or removed
+ALTER TABLE public.order_items
+  ADD COLUMN variant_id uuid REFERENCES public.menu_item_variants(id) ON DELETE SET NULL,
+  ADD COLUMN variant_name text;
+
+-- Price a single cart line from the current menu.
+-- _line: { "menu_item_id": uuid, "variant_id": uuid | null, "quantity": int }
+-- Items that have variants must be ordered as one of their available variants.
+CREATE OR REPLACE FUNCTION public.price_order_line(
+  _line jsonb,
+  OUT menu_item_id uuid,
+  OUT item_title text,
+  OUT variant_id uuid,
+  OUT variant_name text,
+  OUT price numeric,
+  OUT quantity integer
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _menu_item record;
+  _variant record;
+BEGIN
+  quantity := (_line->>'quantity')::integer;
+
+  IF quantity IS NULL OR quantity <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity in cart';
+  END IF;
+
+  SELECT m.id, m.title, m.price, m.is_available INTO _menu_item
+  FROM public.menu_items m
+  WHERE m.id = (_line->>'menu_item_id')::uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'An item in your cart no longer exists';
+  END IF;
+
+  IF NOT coalesce(_menu_item.is_available, false) THEN
+    RAISE EXCEPTION '% is currently unavailable', _menu_item.title;
+  END IF;
+
+  menu_item_id := _menu_item.id;
+  item_title := _menu_item.title;
+  price := _menu_item.price;
+
+  IF _line->>'variant_id' IS NOT NULL THEN
+    SELECT v.id, v.name, v.price, v.is_available INTO _variant
+    FROM public.menu_item_variants v
+    WHERE v.id = (_line->>'variant_id')::uuid
+      AND v.menu_item_id = _menu_item.id;
+
+    IF NOT FOUND OR NOT coalesce(_variant.is_available, false) THEN
+      RAISE EXCEPTION 'The selected option for % is currently unavailable', _menu_item.title;
+    END IF;
+
+    variant_id := _variant.id;
+    variant_name := _variant.name;
+    price := _variant.price;
+  ELSIF EXISTS (
+    SELECT 1 FROM public.menu_item_variants v
+    WHERE v.menu_item_id = _menu_item.id AND v.is_available
+  ) THEN
+    RAISE EXCEPTION 'Please choose an option for %', _menu_item.title;
+  END IF;
+END;
+$$;
+
+-- place_order now prices lines through price_order_line
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _restaurant_lat constant numeric := 13.0878;
+  _restaurant_lng constant numeric := 80.2085;
+  _max_distance constant numeric := 10;
+  _tax_rate constant numeric := 0.05;
+  _delivery_fee constant numeric := 30;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _tax numeric;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  _distance := public.distance_km(_restaurant_lat, _restaurant_lng, _latitude, _longitude);
+
+  IF _distance > _max_distance THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      _max_distance, round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  _tax := round(_subtotal * _tax_rate, 2);
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, tax, delivery_fee, total, distance_km, notes, status
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _tax, _delivery_fee,
+    _subtotal + _tax + _delivery_fee, round(_distance, 2), nullif(trim(_notes), ''), 'placed'
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Sample variants
+INSERT INTO public.menu_item_variants (menu_item_id, name, price, sort_order)
+SELECT id, v.name, v.price, v.sort_order
+FROM public.menu_items,
+  (VALUES ('Regular', 80.00, 0), ('Ghee Roast', 100.00, 1), ('Family Size', 180.00, 2)) AS v(name, price, sort_order)
+WHERE title = 'Masala Dosa';
@@ -0,0 +1,303 @@
+-- Create modifier groups ("Spice level (choose 1)", "Extra toppings (up to 3)")
+CREATE TABLE public.modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid REFERENCES public.menu_items(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  min_select integer NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select integer NOT NULL DEFAULT 1 CHECK (max_select > 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (max_select >= min_select)
+);
+
+ALTER TABLE public.modifier_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view modifier groups"
+  ON public.modifier_groups FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage modifier groups"
+  ON public.modifier_groups FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_modifier_groups_updated_at
+  BEFORE UPDATE ON public.modifier_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create modifier options table
+CREATE TABLE public.modifier_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid REFERENCES public.modifier_groups(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  price numeric(10, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  is_available boolean DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.modifier_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view available modifier options"
+  ON public.modifier_options FOR SELECT
+  USING (is_available = true OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage modifier options"
+  ON public.modifier_options FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_modifier_options_updated_at
+  BEFORE UPDATE ON public.modifier_options
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Snapshot of the chosen modifiers: [{ "group": text, "option": text, "price": num }, ...]
+ALTER TABLE public.order_items
+  ADD COLUMN modifiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- price_order_line now also validates and prices modifiers
+DROP FUNCTION public.price_order_line(jsonb);
+
+-- Price a single cart line from the current menu.
+-- _line: { "menu_item_id": uuid, "variant_id": uuid | null,
+--          "modifier_option_ids": [uuid, ...], "quantity": int }
+-- Items that have variants must be ordered as one of their available variants,
+-- and every modifier group's min/max selection rule must be satisfied.
+-- The returned price is the unit price including modifiers.
+CREATE OR REPLACE FUNCTION public.price_order_line(
+  _line jsonb,
+  OUT menu_item_id uuid,
+  OUT item_title text,
+  OUT variant_id uuid,
+  OUT variant_name text,
+  OUT modifiers jsonb,
+  OUT price numeric,
+  OUT quantity integer
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _menu_item record;
+  _variant record;
+  _group record;
+  _option_ids uuid[];
+  _matched integer;
+  _modifiers_price numeric;
+BEGIN
+  quantity := (_line->>'quantity')::integer;
+
+  IF quantity IS NULL OR quantity <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity in cart';
+  END IF;
+
+  SELECT m.id, m.title, m.price, m.is_available INTO _menu_item
+  FROM public.menu_items m
+  WHERE m.id = (_line->>'menu_item_id')::uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'An item in your cart no longer exists';
+  END IF;
+
+  IF NOT coalesce(_menu_item.is_available, false) THEN
+    RAISE EXCEPTION '% is currently unavailable', _menu_item.title;
+  END IF;
+
+  menu_item_id := _menu_item.id;
+  item_title := _menu_item.title;
+  price := _menu_item.price;
+
+  IF _line->>'variant_id' IS NOT NULL THEN
+    SELECT v.id, v.name, v.price, v.is_available INTO _variant
+    FROM public.menu_item_variants v
+    WHERE v.id = (_line->>'variant_id')::uuid
+      AND v.menu_item_id = _menu_item.id;
+
+    IF NOT FOUND OR NOT coalesce(_variant.is_available, false) THEN
+      RAISE EXCEPTION 'The selected option for % is currently unavailable', _menu_item.title;
+    END IF;
+
+    variant_id := _variant.id;
+    variant_name := _variant.name;
+    price := _variant.price;
+  ELSIF EXISTS (
+    SELECT 1 FROM public.menu_item_variants v
+    WHERE v.menu_item_id = _menu_item.id AND v.is_available
+  ) THEN
+    RAISE EXCEPTION 'Please choose an option for %', _menu_item.title;
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT value::uuid), '{}') INTO _option_ids
+  FROM jsonb_array_elements_text(coalesce(_line->'modifier_option_ids', '[]'::jsonb));
+
+  SELECT count(*) INTO _matched
+  FROM public.modifier_options o
+  JOIN public.modifier_groups g ON g.id = o.group_id
+  WHERE o.id = ANY(_option_ids)
+    AND g.menu_item_id = _menu_item.id
+    AND coalesce(o.is_available, false);
+
+  IF _matched <> cardinality(_option_ids) THEN
+    RAISE EXCEPTION 'Some add-ons for % are no longer available', _menu_item.title;
+  END IF;
+
+  FOR _group IN
+    SELECT g.name, g.min_select, g.max_select,
+      (SELECT count(*) FROM public.modifier_options o
+       WHERE o.group_id = g.id AND o.id = ANY(_option_ids)) AS selected
+    FROM public.modifier_groups g
+    WHERE g.menu_item_id = _menu_item.id
+  LOOP
+    IF _group.selected < _group.min_select THEN
+      RAISE EXCEPTION 'Please choose at least % for % (%)', _group.min_select, _menu_item.title, _group.name;
+    END IF;
+
+    IF _group.selected > _group.max_select THEN
+      RAISE EXCEPTION 'You can choose at most % for % (%)', _group.max_select, _menu_item.title, _group.name;
+    END IF;
+  END LOOP;
+
+  SELECT
+    coalesce(jsonb_agg(
+      jsonb_build_object('group', g.name, 'option', o.name, 'price', o.price)
+      ORDER BY g.sort_order, o.sort_order
+    ), '[]'::jsonb),
+    coalesce(sum(o.price), 0)
+  INTO modifiers, _modifiers_price
+  FROM public.modifier_options o
+  JOIN public.modifier_groups g ON g.id = o.group_id
+  WHERE o.id = ANY(_option_ids);
+
+  price := price + _modifiers_price;
+END;
+$$;
+
+-- place_order now stores the modifiers of each line
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _restaurant_lat constant numeric := 13.0878;
+  _restaurant_lng constant numeric := 80.2085;
+  _max_distance constant numeric := 10;
+  _tax_rate constant numeric := 0.05;
+  _delivery_fee constant numeric := 30;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _tax numeric;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  _distance := public.distance_km(_restaurant_lat, _restaurant_lng, _latitude, _longitude);
+
+  IF _distance > _max_distance THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      _max_distance, round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  _tax := round(_subtotal * _tax_rate, 2);
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, tax, delivery_fee, total, distance_km, notes, status
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _tax, _delivery_fee,
+    _subtotal + _tax + _delivery_fee, round(_distance, 2), nullif(trim(_notes), ''), 'placed'
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name, modifiers
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name, line.modifiers
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Sample modifier groups
+WITH spice AS (
+  INSERT INTO public.modifier_groups (menu_item_id, name, min_select, max_select, sort_order)
+  SELECT id, 'Spice level', 1, 1, 0 FROM public.menu_items WHERE title = 'Chicken Fried Rice'
+  RETURNING id
+), extras AS (
+  INSERT INTO public.modifier_groups (menu_item_id, name, min_select, max_select, sort_order)
+  SELECT id, 'Extra toppings', 0, 3, 1 FROM public.menu_items WHERE title = 'Chicken Fried Rice'
+  RETURNING id
+)
+INSERT INTO public.modifier_options (group_id, name, price, sort_order)
+SELECT spice.id, o.name, o.price, o.sort_order
+FROM spice, (VALUES ('Mild', 0.00, 0), ('Medium', 0.00, 1), ('Hot', 0.00, 2)) AS o(name, price, sort_order)
+UNION ALL
+SELECT extras.id, o.name, o.price, o.sort_order
+FROM extras, (VALUES ('Fried Egg', 20.00, 0), ('Extra Chicken', 40.00, 1), ('Cashews', 15.00, 2)) AS o(name, price, sort_order);
@@ -0,0 +1,190 @@
+-- Create delivery fee tiers: a tier applies up to and including up_to_km
+CREATE TABLE public.delivery_fee_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  up_to_km numeric(5, 2) NOT NULL UNIQUE CHECK (up_to_km > 0),
+  fee numeric(10, 2) NOT NULL CHECK (fee >= 0),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.delivery_fee_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view delivery fee tiers"
+  ON public.delivery_fee_tiers FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage delivery fee tiers"
+  ON public.delivery_fee_tiers FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Single-row delivery settings
+CREATE TABLE public.delivery_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  free_delivery_min_subtotal numeric(10, 2) CHECK (free_delivery_min_subtotal >= 0),
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.delivery_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view delivery settings"
+  ON public.delivery_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update delivery settings"
+  ON public.delivery_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_delivery_settings_updated_at
+  BEFORE UPDATE ON public.delivery_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.delivery_settings (free_delivery_min_subtotal) VALUES (500.00);
+
+INSERT INTO public.delivery_fee_tiers (up_to_km, fee) VALUES
+(3, 20.00),
+(7, 35.00),
+(10, 50.00);
+
+-- Delivery fee for a distance and order subtotal. Mirrored by
+-- src/lib/deliveryFee.ts so Checkout can show the same fee before ordering.
+CREATE OR REPLACE FUNCTION public.calculate_delivery_fee(_distance numeric, _subtotal numeric)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _free_delivery_min_subtotal numeric;
+  _fee numeric;
+BEGIN
+  SELECT free_delivery_min_subtotal INTO _free_delivery_min_subtotal
+  FROM public.delivery_settings;
+
+  IF _free_delivery_min_subtotal IS NOT NULL AND _subtotal >= _free_delivery_min_subtotal THEN
+    RETURN 0;
+  END IF;
+
+  SELECT fee INTO _fee
+  FROM public.delivery_fee_tiers
+  WHERE up_to_km >= _distance
+  ORDER BY up_to_km
+  LIMIT 1;
+
+  IF _fee IS NULL THEN
+    RAISE EXCEPTION 'Sorry, we do not deliver to locations %km away', round(_distance, 1);
+  END IF;
+
+  RETURN _fee;
+END;
+$$;
+
+-- place_order now charges the tiered delivery fee
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _restaurant_lat constant numeric := 13.0878;
+  _restaurant_lng constant numeric := 80.2085;
+  _max_distance constant numeric := 10;
+  _tax_rate constant numeric := 0.05;
+  _delivery_fee numeric;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _tax numeric;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  _distance := public.distance_km(_restaurant_lat, _restaurant_lng, _latitude, _longitude);
+
+  IF _distance > _max_distance THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      _max_distance, round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  _tax := round(_subtotal * _tax_rate, 2);
+  _delivery_fee := public.calculate_delivery_fee(_distance, _subtotal);
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, tax, delivery_fee, total, distance_km, notes, status
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _tax, _delivery_fee,
+    _subtotal + _tax + _delivery_fee, round(_distance, 2), nullif(trim(_notes), ''), 'placed'
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name, modifiers
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name, line.modifiers
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  RETURN _order_id;
+END;
+$$;
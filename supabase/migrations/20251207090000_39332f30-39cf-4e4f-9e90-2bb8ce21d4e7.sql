@@ -0,0 +1,225 @@
+-- Weekly opening hours; a day may have several windows.
+-- day_of_week follows extract(dow): 0 = Sunday .. 6 = Saturday
+CREATE TABLE public.operating_hours (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  day_of_week smallint NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  opens_at time NOT NULL,
+  closes_at time NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (closes_at > opens_at)
+);
+
+ALTER TABLE public.operating_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view operating hours"
+  ON public.operating_hours FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage operating hours"
+  ON public.operating_hours FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Whole-day closures
+CREATE TABLE public.store_holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date date NOT NULL UNIQUE,
+  reason text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.store_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view store holidays"
+  ON public.store_holidays FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage store holidays"
+  ON public.store_holidays FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Manual pause switch, and the time zone opening hours are expressed in
+ALTER TABLE public.restaurant_settings
+  ADD COLUMN orders_paused boolean NOT NULL DEFAULT false,
+  ADD COLUMN timezone text NOT NULL DEFAULT 'Asia/Kolkata';
+
+INSERT INTO public.operating_hours (day_of_week, opens_at, closes_at)
+SELECT day, '11:00', '23:00'
+FROM generate_series(0, 6) AS day;
+
+-- Whether orders are accepted right now. When closed, reason is 'paused',
+-- 'holiday' or 'closed' and next_open_at is the next opening within a week
+-- (NULL while paused, since reopening is manual).
+CREATE OR REPLACE FUNCTION public.get_store_status()
+RETURNS TABLE (is_open boolean, reason text, next_open_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.restaurant_settings;
+  _now_local timestamp;
+  _day date;
+  _opens_at time;
+BEGIN
+  SELECT * INTO _settings FROM public.restaurant_settings;
+  _now_local := now() AT TIME ZONE _settings.timezone;
+
+  IF _settings.orders_paused THEN
+    RETURN QUERY SELECT false, 'paused'::text, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.store_holidays h WHERE h.holiday_date = _now_local::date) THEN
+    reason := 'holiday';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.operating_hours oh
+    WHERE oh.day_of_week = extract(dow FROM _now_local)
+      AND _now_local::time >= oh.opens_at
+      AND _now_local::time < oh.closes_at
+  ) THEN
+    RETURN QUERY SELECT true, NULL::text, NULL::timestamptz;
+    RETURN;
+  ELSE
+    reason := 'closed';
+  END IF;
+
+  FOR _i IN 0..7 LOOP
+    _day := _now_local::date + _i;
+
+    CONTINUE WHEN EXISTS (SELECT 1 FROM public.store_holidays h WHERE h.holiday_date = _day);
+
+    SELECT min(oh.opens_at) INTO _opens_at
+    FROM public.operating_hours oh
+    WHERE oh.day_of_week = extract(dow FROM _day)
+      AND (_i > 0 OR oh.opens_at > _now_local::time);
+
+    IF _opens_at IS NOT NULL THEN
+      next_open_at := (_day + _opens_at) AT TIME ZONE _settings.timezone;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  is_open := false;
+  RETURN NEXT;
+END;
+$$;
+
+-- place_order rejects orders while the store is closed or paused
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _settings public.restaurant_settings;
+  _store_status record;
+  _delivery_fee numeric;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _tax numeric;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT * INTO _store_status FROM public.get_store_status();
+
+  IF NOT _store_status.is_open THEN
+    IF _store_status.reason = 'paused' THEN
+      RAISE EXCEPTION 'We are not accepting orders right now. Please try again later.';
+    END IF;
+    RAISE EXCEPTION 'Sorry, we are closed right now';
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  SELECT * INTO _settings FROM public.restaurant_settings;
+
+  _distance := public.distance_km(_settings.latitude, _settings.longitude, _latitude, _longitude);
+
+  IF _distance > _settings.max_delivery_distance_km THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      trim_scale(_settings.max_delivery_distance_km), round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  _tax := round(_subtotal * _settings.tax_rate, 2);
+  _delivery_fee := public.calculate_delivery_fee(_distance, _subtotal);
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, tax, delivery_fee, total, distance_km, notes, status
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _tax, _delivery_fee,
+    _subtotal + _tax + _delivery_fee, round(_distance, 2), nullif(trim(_notes), ''), 'placed'
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name, modifiers
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name, line.modifiers
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  RETURN _order_id;
+END;
+$$;
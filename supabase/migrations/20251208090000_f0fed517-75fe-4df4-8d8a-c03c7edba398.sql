@@ -0,0 +1,190 @@
+-- Scheduled delivery: slot length, orders per slot and how far ahead customers can book
+ALTER TABLE public.restaurant_settings
+  ADD COLUMN slot_minutes integer NOT NULL DEFAULT 30 CHECK (slot_minutes BETWEEN 10 AND 240),
+  ADD COLUMN slot_capacity integer NOT NULL DEFAULT 10 CHECK (slot_capacity > 0),
+  ADD COLUMN schedule_days_ahead integer NOT NULL DEFAULT 2 CHECK (schedule_days_ahead BETWEEN 0 AND 14);
+
+-- Requested delivery slot start; NULL means as soon as possible
+ALTER TABLE public.orders ADD COLUMN scheduled_for timestamptz;
+
+CREATE INDEX orders_scheduled_for_idx ON public.orders (scheduled_for)
+  WHERE scheduled_for IS NOT NULL;
+
+-- Bookable delivery slots cut from operating hours, skipping holidays and
+-- slots starting within one slot length from now. remaining counts down as
+-- non-cancelled orders book the slot.
+CREATE OR REPLACE FUNCTION public.get_delivery_slots()
+RETURNS TABLE (slot_start timestamptz, slot_end timestamptz, remaining integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH settings AS (
+    SELECT * FROM public.restaurant_settings
+  ),
+  days AS (
+    SELECT (now() AT TIME ZONE s.timezone)::date + offs AS day
+    FROM settings s, generate_series(0, s.schedule_days_ahead) AS offs
+  ),
+  starts AS (
+    SELECT DISTINCT local_start AT TIME ZONE s.timezone AS slot_start
+    FROM settings s
+    CROSS JOIN days d
+    JOIN public.operating_hours oh ON oh.day_of_week = extract(dow FROM d.day)
+    CROSS JOIN LATERAL generate_series(
+      d.day + oh.opens_at,
+      d.day + oh.closes_at - make_interval(mins => s.slot_minutes),
+      make_interval(mins => s.slot_minutes)
+    ) AS local_start
+    WHERE NOT EXISTS (SELECT 1 FROM public.store_holidays h WHERE h.holiday_date = d.day)
+  )
+  SELECT
+    st.slot_start,
+    st.slot_start + make_interval(mins => s.slot_minutes),
+    s.slot_capacity - (
+      SELECT count(*)::integer FROM public.orders o
+      WHERE o.scheduled_for = st.slot_start AND o.status <> 'cancelled'
+    )
+  FROM starts st, settings s
+  WHERE st.slot_start >= now() + make_interval(mins => s.slot_minutes)
+  ORDER BY st.slot_start;
+$$;
+
+-- place_order takes an optional delivery slot
+DROP FUNCTION public.place_order(jsonb, uuid, jsonb, text);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _settings public.restaurant_settings;
+  _store_status record;
+  _delivery_fee numeric;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _tax numeric;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT * INTO _store_status FROM public.get_store_status();
+
+  IF _store_status.reason = 'paused' THEN
+    RAISE EXCEPTION 'We are not accepting orders right now. Please try again later.';
+  END IF;
+
+  -- Pre-orders are accepted while closed; ASAP orders need the store open
+  IF _scheduled_for IS NULL THEN
+    IF NOT _store_status.is_open THEN
+      RAISE EXCEPTION 'Sorry, we are closed right now. Please schedule your order for later.';
+    END IF;
+  ELSE
+    -- Serialise bookings of the same slot so capacity cannot be overrun
+    PERFORM pg_advisory_xact_lock(hashtext('delivery_slot'), hashtext(_scheduled_for::text));
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.get_delivery_slots() AS slot
+      WHERE slot.slot_start = _scheduled_for AND slot.remaining > 0
+    ) THEN
+      RAISE EXCEPTION 'This delivery slot is no longer available';
+    END IF;
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  SELECT * INTO _settings FROM public.restaurant_settings;
+
+  _distance := public.distance_km(_settings.latitude, _settings.longitude, _latitude, _longitude);
+
+  IF _distance > _settings.max_delivery_distance_km THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      trim_scale(_settings.max_delivery_distance_km), round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  _tax := round(_subtotal * _settings.tax_rate, 2);
+  _delivery_fee := public.calculate_delivery_fee(_distance, _subtotal);
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, tax, delivery_fee, total, distance_km, notes, status, scheduled_for
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _tax, _delivery_fee,
+    _subtotal + _tax + _delivery_fee, round(_distance, 2), nullif(trim(_notes), ''), 'placed', _scheduled_for
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name, modifiers
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name, line.modifiers
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz) TO authenticated;
@@ -0,0 +1,93 @@
+-- Every status an order has been in, with when and by whom
+CREATE TABLE public.order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  status order_status NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX order_status_history_order_id_idx ON public.order_status_history (order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view history of their own orders"
+  ON public.order_status_history FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_status_history.order_id
+      AND orders.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all order status history"
+  ON public.order_status_history FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Allowed moves between statuses; delivered and cancelled are final.
+-- Mirrored by ORDER_STATUS_TRANSITIONS in src/lib/orderStatus.ts.
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(_from order_status, _to order_status)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (_from, _to) IN (
+    ('placed'::order_status, 'preparing'::order_status),
+    ('placed', 'cancelled'),
+    ('preparing', 'out_for_delivery'),
+    ('preparing', 'cancelled'),
+    ('out_for_delivery', 'delivered'),
+    ('out_for_delivery', 'cancelled')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.enforce_order_status_transition();
+
+CREATE OR REPLACE FUNCTION public.record_order_status_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_status_history (order_id, status, changed_by)
+  VALUES (NEW.id, NEW.status, auth.uid());
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_order_status_history_on_insert
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_status_history();
+
+CREATE TRIGGER record_order_status_history_on_update
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.record_order_status_history();
+
+-- Backfill existing orders: placed at creation, current status at last update
+INSERT INTO public.order_status_history (order_id, status, created_at)
+SELECT id, 'placed', created_at FROM public.orders;
+
+INSERT INTO public.order_status_history (order_id, status, created_at)
+SELECT id, status, updated_at FROM public.orders WHERE status <> 'placed';
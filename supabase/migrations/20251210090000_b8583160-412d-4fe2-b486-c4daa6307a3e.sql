@@ -0,0 +1,77 @@
+-- Who cancelled an order and why
+ALTER TABLE public.orders
+  ADD COLUMN cancellation_reason text,
+  ADD COLUMN cancelled_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Minutes after placing during which a customer may still cancel once the
+-- kitchen has started preparing; orders that are still 'placed' can always be cancelled
+ALTER TABLE public.restaurant_settings
+  ADD COLUMN cancellation_grace_minutes integer NOT NULL DEFAULT 0
+    CHECK (cancellation_grace_minutes BETWEEN 0 AND 120);
+
+-- Cancellations now need a reason and record who made them
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    IF coalesce(trim(NEW.cancellation_reason), '') = '' THEN
+      RAISE EXCEPTION 'A cancellation reason is required';
+    END IF;
+
+    NEW.cancellation_reason := trim(NEW.cancellation_reason);
+    NEW.cancelled_by := coalesce(NEW.cancelled_by, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Customers cancel their own orders through this function; orders are not
+-- otherwise updatable by their owners
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _order public.orders;
+  _grace_minutes integer;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT cancellation_grace_minutes INTO _grace_minutes FROM public.restaurant_settings;
+
+  IF NOT (
+    _order.status = 'placed'
+    OR (_order.status = 'preparing'
+      AND now() <= _order.created_at + make_interval(mins => _grace_minutes))
+  ) THEN
+    RAISE EXCEPTION 'This order can no longer be cancelled';
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'cancelled',
+    cancellation_reason = _reason,
+    cancelled_by = _user_id
+  WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(uuid, text) TO authenticated;
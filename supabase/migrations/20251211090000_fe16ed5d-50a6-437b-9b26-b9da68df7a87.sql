@@ -0,0 +1,49 @@
+-- Browser language of the subscribing device, used to localize pushes
+ALTER TABLE public.push_subscriptions ADD COLUMN locale text;
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Calls the send-order-push Edge Function whenever an order changes status.
+-- The function URL and key come from Vault; set them once per environment:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- (under the local CLI the project URL is http://host.docker.internal:54321)
+CREATE OR REPLACE FUNCTION public.notify_order_status_push()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_url text;
+  _service_role_key text;
+BEGIN
+  SELECT decrypted_secret INTO _project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO _service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  -- Push is not configured in this environment
+  IF _project_url IS NULL OR _service_role_key IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _project_url || '/functions/v1/send-order-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || _service_role_key
+    ),
+    body := jsonb_build_object('order_id', NEW.id, 'status', NEW.status)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_order_status_push
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.notify_order_status_push();
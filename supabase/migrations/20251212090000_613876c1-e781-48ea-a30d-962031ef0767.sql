@@ -0,0 +1,36 @@
+-- Per-device subscription details for the devices list in Settings
+ALTER TABLE public.push_subscriptions
+  ADD COLUMN user_agent text,
+  ADD COLUMN updated_at timestamptz DEFAULT now() NOT NULL;
+
+CREATE TRIGGER update_push_subscriptions_updated_at
+  BEFORE UPDATE ON public.push_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Called by the service worker when the browser rotates a subscription
+-- (pushsubscriptionchange). The worker has no user session, so knowing the
+-- previous endpoint, an unguessable push service URL, is what authorises the swap.
+CREATE OR REPLACE FUNCTION public.rotate_push_subscription(
+  _old_endpoint text,
+  _endpoint text,
+  _p256dh text,
+  _auth text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.push_subscriptions
+  SET endpoint = _endpoint,
+    p256dh = _p256dh,
+    auth = _auth
+  WHERE endpoint = _old_endpoint;
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rotate_push_subscription(text, text, text, text) TO anon, authenticated;
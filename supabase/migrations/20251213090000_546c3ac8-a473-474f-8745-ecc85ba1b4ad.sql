@@ -0,0 +1,44 @@
+-- Which notifications a user wants, per event and channel. Missing rows fall
+-- back to the defaults in wants_notification.
+CREATE TABLE public.notification_preferences (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event text NOT NULL CHECK (event IN (
+    'placed', 'preparing', 'out_for_delivery', 'delivered', 'cancelled', 'promotions'
+  )),
+  channel text NOT NULL CHECK (channel IN ('push', 'email', 'sms')),
+  enabled boolean NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, event, channel)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification preferences"
+  ON public.notification_preferences FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every sender asks this before dispatching. Order updates go out by push
+-- unless turned off; email, SMS and promotions are opt-in.
+-- Defaults are mirrored in src/lib/notificationPreferences.ts.
+CREATE OR REPLACE FUNCTION public.wants_notification(_user_id uuid, _event text, _channel text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT enabled FROM public.notification_preferences
+     WHERE user_id = _user_id AND event = _event AND channel = _channel),
+    _channel = 'push' AND _event <> 'promotions'
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wants_notification(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.wants_notification(uuid, text, text) TO service_role;
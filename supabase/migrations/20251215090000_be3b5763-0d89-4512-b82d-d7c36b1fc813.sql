@@ -0,0 +1,4 @@
+-- Kitchen has finished cooking and the order is waiting to be picked up.
+-- Added on its own because a new enum value can't be used in the transaction
+-- that creates it.
+ALTER TYPE public.order_status ADD VALUE 'ready' AFTER 'preparing';
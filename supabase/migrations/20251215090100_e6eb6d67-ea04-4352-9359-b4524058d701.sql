@@ -0,0 +1,65 @@
+-- How long the kitchen aims to take per order; the kitchen display turns an
+-- order amber as it nears this and red once it goes over.
+ALTER TABLE public.restaurant_settings
+  ADD COLUMN target_prep_minutes integer DEFAULT 15 NOT NULL
+    CHECK (target_prep_minutes BETWEEN 1 AND 120);
+
+-- Allowed moves between statuses; delivered and cancelled are final.
+-- Preparing may still go straight out for delivery for kitchens without a display.
+-- Mirrored by ORDER_STATUS_TRANSITIONS in src/lib/orderStatus.ts.
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(_from order_status, _to order_status)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (_from, _to) IN (
+    ('placed'::order_status, 'preparing'::order_status),
+    ('placed', 'cancelled'),
+    ('preparing', 'ready'),
+    ('preparing', 'out_for_delivery'),
+    ('preparing', 'cancelled'),
+    ('ready', 'out_for_delivery'),
+    ('ready', 'cancelled'),
+    ('out_for_delivery', 'delivered'),
+    ('out_for_delivery', 'cancelled')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_order_status_push()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_url text;
+  _service_role_key text;
+BEGIN
+  -- Ready is a kitchen milestone; the customer hears next when it leaves
+  IF NEW.status = 'ready' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT decrypted_secret INTO _project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO _service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  -- Push is not configured in this environment
+  IF _project_url IS NULL OR _service_role_key IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _project_url || '/functions/v1/send-order-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || _service_role_key
+    ),
+    body := jsonb_build_object('order_id', NEW.id, 'status', NEW.status)
+  );
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Delivery riders. Added on its own because a new enum value can't be used in
+-- the transaction that creates it.
+ALTER TYPE public.app_role ADD VALUE 'rider';
@@ -0,0 +1,151 @@
+-- The rider an order has been handed to, and when they collected it
+ALTER TABLE public.orders
+  ADD COLUMN rider_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN picked_up_at timestamptz;
+
+CREATE INDEX orders_rider_id_idx ON public.orders (rider_id) WHERE rider_id IS NOT NULL;
+
+-- Admins pick riders from the people who have the rider role. Other roles,
+-- admin included, are still only granted in the database.
+CREATE POLICY "Admins can manage rider roles"
+  ON public.user_roles FOR ALL
+  USING (role = 'rider' AND public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (role = 'rider' AND public.has_role(auth.uid(), 'admin'));
+
+-- Riders see only orders assigned to them, and the customer's address and
+-- phone only while the delivery is still open
+CREATE POLICY "Riders can view their assigned orders"
+  ON public.orders FOR SELECT
+  USING (auth.uid() = rider_id);
+
+CREATE POLICY "Riders can view items in their assigned orders"
+  ON public.order_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_items.order_id
+      AND orders.rider_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Riders can view addresses of their open deliveries"
+  ON public.addresses FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.address_id = addresses.id
+      AND orders.rider_id = auth.uid()
+      AND orders.status NOT IN ('delivered', 'cancelled')
+    )
+  );
+
+CREATE POLICY "Riders can view customers of their open deliveries"
+  ON public.profiles FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.user_id = profiles.id
+      AND orders.rider_id = auth.uid()
+      AND orders.status NOT IN ('delivered', 'cancelled')
+    )
+  );
+
+-- Hands an order that is ready or already out for delivery to a rider.
+-- Pass NULL to take it back, as long as it hasn't been picked up.
+CREATE OR REPLACE FUNCTION public.assign_rider(_order_id uuid, _rider_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign riders';
+  END IF;
+
+  IF _rider_id IS NOT NULL AND NOT public.has_role(_rider_id, 'rider') THEN
+    RAISE EXCEPTION 'That user is not a rider';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status NOT IN ('ready', 'out_for_delivery') THEN
+    RAISE EXCEPTION 'Only orders that are ready or out for delivery can be assigned';
+  END IF;
+
+  IF _order.picked_up_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This order has already been picked up';
+  END IF;
+
+  UPDATE public.orders SET rider_id = _rider_id WHERE id = _order_id;
+END;
+$$;
+
+-- The assigned rider has the food; a ready order is now on its way
+CREATE OR REPLACE FUNCTION public.mark_order_picked_up(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND rider_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status NOT IN ('ready', 'out_for_delivery') OR _order.picked_up_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This order can''t be picked up';
+  END IF;
+
+  UPDATE public.orders
+  SET picked_up_at = now(),
+    status = 'out_for_delivery'
+  WHERE id = _order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_order_delivered(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND rider_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'out_for_delivery' OR _order.picked_up_at IS NULL THEN
+    RAISE EXCEPTION 'Pick up the order before marking it delivered';
+  END IF;
+
+  UPDATE public.orders SET status = 'delivered' WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_rider(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.mark_order_picked_up(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.mark_order_delivered(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assign_rider(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_order_picked_up(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_order_delivered(uuid) TO authenticated;
@@ -0,0 +1,40 @@
+-- Latest GPS fix from each rider's browser, published while they are out on
+-- a delivery. One row per rider, overwritten on every update.
+CREATE TABLE public.rider_locations (
+  rider_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  latitude numeric(10, 7) NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude numeric(10, 7) NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  heading numeric(5, 2),
+  accuracy_m numeric(8, 2),
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.rider_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Riders can publish their own location"
+  ON public.rider_locations FOR ALL
+  USING (auth.uid() = rider_id AND public.has_role(auth.uid(), 'rider'))
+  WITH CHECK (auth.uid() = rider_id AND public.has_role(auth.uid(), 'rider'));
+
+-- Customers follow the rider only while that rider is bringing their order
+CREATE POLICY "Customers can view the rider delivering their order"
+  ON public.rider_locations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.rider_id = rider_locations.rider_id
+      AND orders.user_id = auth.uid()
+      AND orders.status = 'out_for_delivery'
+    )
+  );
+
+CREATE POLICY "Admins can view rider locations"
+  ON public.rider_locations FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_rider_locations_updated_at
+  BEFORE UPDATE ON public.rider_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.rider_locations;
@@ -0,0 +1,252 @@
+-- Inputs to the delivery time estimate
+ALTER TABLE public.restaurant_settings
+  ADD COLUMN kitchen_capacity integer DEFAULT 3 NOT NULL
+    CHECK (kitchen_capacity BETWEEN 1 AND 50),
+  ADD COLUMN rider_speed_kmh numeric(5, 2) DEFAULT 20 NOT NULL
+    CHECK (rider_speed_kmh > 0);
+
+-- estimated_delivery_at is the customer-facing ETA, refreshed on every status
+-- change. predicted_delivery_at keeps the first estimate, so it can be compared
+-- with when the order was actually delivered.
+ALTER TABLE public.orders
+  ADD COLUMN estimated_delivery_at timestamptz,
+  ADD COLUMN predicted_delivery_at timestamptz;
+
+-- When an order that has just entered _status should reach the customer:
+--   placed: wait for the orders ahead of it, then cook, then ride
+--   preparing: cook, then ride
+--   ready / out_for_delivery: ride
+-- Cooking time is the slowest item's average prep time over the last 30 days,
+-- taken from status history, or the target prep time without enough samples.
+-- Riding time is distance at the average rider speed.
+CREATE OR REPLACE FUNCTION public.estimate_delivery_at(_order_id uuid, _status order_status)
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _settings public.restaurant_settings;
+  _prep_minutes numeric;
+  _queue_minutes numeric := 0;
+  _travel_minutes numeric;
+  _orders_ahead integer;
+  _eta timestamptz;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id;
+  SELECT * INTO _settings FROM public.restaurant_settings;
+
+  IF _status IN ('delivered', 'cancelled') THEN
+    RETURN _order.estimated_delivery_at;
+  END IF;
+
+  WITH prep_times AS (
+    SELECT started.order_id,
+      extract(epoch FROM min(finished.created_at) - started.created_at) / 60 AS minutes
+    FROM public.order_status_history started
+    JOIN public.order_status_history finished
+      ON finished.order_id = started.order_id
+      AND finished.status IN ('ready', 'out_for_delivery')
+      AND finished.created_at > started.created_at
+    WHERE started.status = 'preparing'
+      AND started.created_at > now() - interval '30 days'
+    GROUP BY started.order_id, started.created_at
+  ),
+  item_prep AS (
+    SELECT item.menu_item_id, avg(prep_times.minutes) AS minutes, count(*) AS samples
+    FROM prep_times
+    JOIN public.order_items item ON item.order_id = prep_times.order_id
+    GROUP BY item.menu_item_id
+  )
+  SELECT max(CASE WHEN item_prep.samples >= 3 THEN item_prep.minutes END)
+  INTO _prep_minutes
+  FROM public.order_items item
+  LEFT JOIN item_prep ON item_prep.menu_item_id = item.menu_item_id
+  WHERE item.order_id = _order_id;
+
+  _prep_minutes := coalesce(_prep_minutes, _settings.target_prep_minutes);
+  _travel_minutes := _order.distance_km / _settings.rider_speed_kmh * 60;
+
+  IF _status = 'placed' THEN
+    -- Pre-orders for later slots aren't competing for the stove yet
+    SELECT count(*) INTO _orders_ahead
+    FROM public.orders
+    WHERE status IN ('placed', 'preparing')
+      AND id <> _order_id
+      AND created_at < _order.created_at
+      AND (scheduled_for IS NULL OR scheduled_for <= now() + make_interval(mins => _settings.target_prep_minutes));
+
+    _queue_minutes := floor(_orders_ahead::numeric / _settings.kitchen_capacity) * _settings.target_prep_minutes;
+  END IF;
+
+  _eta := now() + make_interval(secs => (
+    CASE WHEN _status IN ('placed', 'preparing') THEN _queue_minutes + _prep_minutes ELSE 0 END
+    + _travel_minutes
+  ) * 60);
+
+  -- A pre-order arrives in its slot, however quiet the kitchen is
+  RETURN greatest(_eta, _order.scheduled_for);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.estimate_delivery_at(uuid, order_status) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_order_eta()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.estimated_delivery_at := public.estimate_delivery_at(NEW.id, NEW.status);
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after enforce_order_status_transition, so only valid moves are estimated
+CREATE TRIGGER refresh_order_eta
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.refresh_order_eta();
+
+-- place_order records the first estimate once the items are in
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _settings public.restaurant_settings;
+  _store_status record;
+  _delivery_fee numeric;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _tax numeric;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT * INTO _store_status FROM public.get_store_status();
+
+  IF _store_status.reason = 'paused' THEN
+    RAISE EXCEPTION 'We are not accepting orders right now. Please try again later.';
+  END IF;
+
+  -- Pre-orders are accepted while closed; ASAP orders need the store open
+  IF _scheduled_for IS NULL THEN
+    IF NOT _store_status.is_open THEN
+      RAISE EXCEPTION 'Sorry, we are closed right now. Please schedule your order for later.';
+    END IF;
+  ELSE
+    -- Serialise bookings of the same slot so capacity cannot be overrun
+    PERFORM pg_advisory_xact_lock(hashtext('delivery_slot'), hashtext(_scheduled_for::text));
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.get_delivery_slots() AS slot
+      WHERE slot.slot_start = _scheduled_for AND slot.remaining > 0
+    ) THEN
+      RAISE EXCEPTION 'This delivery slot is no longer available';
+    END IF;
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  SELECT * INTO _settings FROM public.restaurant_settings;
+
+  _distance := public.distance_km(_settings.latitude, _settings.longitude, _latitude, _longitude);
+
+  IF _distance > _settings.max_delivery_distance_km THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      trim_scale(_settings.max_delivery_distance_km), round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  _tax := round(_subtotal * _settings.tax_rate, 2);
+  _delivery_fee := public.calculate_delivery_fee(_distance, _subtotal);
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, tax, delivery_fee, total, distance_km, notes, status, scheduled_for
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _tax, _delivery_fee,
+    _subtotal + _tax + _delivery_fee, round(_distance, 2), nullif(trim(_notes), ''), 'placed', _scheduled_for
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name, modifiers
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name, line.modifiers
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  UPDATE public.orders
+  SET (estimated_delivery_at, predicted_delivery_at) = (
+    SELECT eta, eta FROM public.estimate_delivery_at(_order_id, 'placed') AS eta
+  )
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
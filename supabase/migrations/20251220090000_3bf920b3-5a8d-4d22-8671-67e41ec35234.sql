@@ -0,0 +1,199 @@
+-- Four-digit code the customer gives the rider at the door. Kept apart from
+-- orders so riders and admins, who can read the order, never see it.
+CREATE TABLE public.order_delivery_codes (
+  order_id uuid PRIMARY KEY REFERENCES public.orders(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[0-9]{4}$'),
+  failed_attempts integer DEFAULT 0 NOT NULL,
+  verified_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.order_delivery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view delivery codes of their own orders"
+  ON public.order_delivery_codes FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_delivery_codes.order_id
+      AND orders.user_id = auth.uid()
+  ));
+
+-- Every time an admin marked an order delivered without the customer's code
+CREATE TABLE public.delivery_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  overridden_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX delivery_overrides_order_id_idx ON public.delivery_overrides (order_id);
+
+ALTER TABLE public.delivery_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view delivery overrides"
+  ON public.delivery_overrides FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.create_order_delivery_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_delivery_codes (order_id, code)
+  VALUES (NEW.id, lpad(floor(random() * 10000)::text, 4, '0'));
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER create_order_delivery_code
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_order_delivery_code();
+
+INSERT INTO public.order_delivery_codes (order_id, code)
+SELECT id, lpad(floor(random() * 10000)::text, 4, '0')
+FROM public.orders
+WHERE status NOT IN ('delivered', 'cancelled');
+
+-- The rider entered the right code, or an admin overrode it
+CREATE OR REPLACE FUNCTION public.is_delivery_confirmed(_order_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.order_delivery_codes
+    WHERE order_id = _order_id AND verified_at IS NOT NULL
+  ) OR EXISTS (
+    SELECT 1 FROM public.delivery_overrides
+    WHERE order_id = _order_id
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_delivery_confirmed(uuid) FROM PUBLIC, anon, authenticated;
+
+-- No order becomes delivered without a confirmed handoff, whoever updates it
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    IF coalesce(trim(NEW.cancellation_reason), '') = '' THEN
+      RAISE EXCEPTION 'A cancellation reason is required';
+    END IF;
+
+    NEW.cancellation_reason := trim(NEW.cancellation_reason);
+    NEW.cancelled_by := coalesce(NEW.cancelled_by, auth.uid());
+  END IF;
+
+  IF NEW.status = 'delivered' AND NOT public.is_delivery_confirmed(NEW.id) THEN
+    RAISE EXCEPTION 'Enter the customer''s delivery code to mark this order delivered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The rider hands over the order once the customer's code checks out.
+-- Returns false for a wrong code; after five wrong codes only an admin can
+-- confirm the delivery.
+DROP FUNCTION public.mark_order_delivered(uuid);
+
+CREATE OR REPLACE FUNCTION public.mark_order_delivered(_order_id uuid, _code text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _delivery_code public.order_delivery_codes;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND rider_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'out_for_delivery' OR _order.picked_up_at IS NULL THEN
+    RAISE EXCEPTION 'Pick up the order before marking it delivered';
+  END IF;
+
+  SELECT * INTO _delivery_code
+  FROM public.order_delivery_codes
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This order has no delivery code. Ask the restaurant to confirm the delivery.';
+  END IF;
+
+  IF _delivery_code.failed_attempts >= 5 THEN
+    RAISE EXCEPTION 'Too many wrong codes. Ask the restaurant to confirm the delivery.';
+  END IF;
+
+  IF _delivery_code.code <> trim(_code) THEN
+    UPDATE public.order_delivery_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE order_id = _order_id;
+
+    RETURN false;
+  END IF;
+
+  UPDATE public.order_delivery_codes SET verified_at = now() WHERE order_id = _order_id;
+  UPDATE public.orders SET status = 'delivered' WHERE id = _order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Admins can confirm a delivery without the code, e.g. when the customer
+-- can't be reached at the door. The reason is kept in delivery_overrides.
+CREATE OR REPLACE FUNCTION public.override_order_delivery(_order_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can confirm a delivery without the code';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  PERFORM 1 FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  INSERT INTO public.delivery_overrides (order_id, overridden_by, reason)
+  VALUES (_order_id, auth.uid(), trim(_reason));
+
+  UPDATE public.orders SET status = 'delivered' WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_order_delivered(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.override_order_delivery(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_order_delivered(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.override_order_delivery(uuid, text) TO authenticated;
@@ -0,0 +1,4 @@
+-- Online orders wait here until their payment is captured.
+-- Added on its own because a new enum value can't be used in the transaction
+-- that creates it.
+ALTER TYPE public.order_status ADD VALUE 'pending_payment' BEFORE 'placed';
@@ -0,0 +1,346 @@
+CREATE TYPE public.payment_status AS ENUM ('pending', 'paid', 'failed');
+
+ALTER TABLE public.orders
+  ADD COLUMN payment_status public.payment_status DEFAULT 'pending' NOT NULL;
+
+-- Orders from before online payments were paid in cash at the door
+UPDATE public.orders SET payment_status = 'paid' WHERE status = 'delivered';
+
+-- One row per attempt to pay for an order at the payment gateway. Written
+-- only by the payment Edge Functions, which use the service role.
+CREATE TABLE public.payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  provider text NOT NULL,
+  provider_order_id text NOT NULL,
+  provider_payment_id text,
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  currency text DEFAULT 'INR' NOT NULL,
+  status public.payment_status DEFAULT 'pending' NOT NULL,
+  failure_reason text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (provider, provider_order_id)
+);
+
+CREATE INDEX payments_order_id_idx ON public.payments (order_id);
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payments for their own orders"
+  ON public.payments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all payments"
+  ON public.payments FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(_from order_status, _to order_status)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (_from, _to) IN (
+    ('pending_payment'::order_status, 'placed'::order_status),
+    ('pending_payment', 'cancelled'),
+    ('placed', 'preparing'),
+    ('placed', 'cancelled'),
+    ('preparing', 'ready'),
+    ('preparing', 'out_for_delivery'),
+    ('preparing', 'cancelled'),
+    ('ready', 'out_for_delivery'),
+    ('ready', 'cancelled'),
+    ('out_for_delivery', 'delivered'),
+    ('out_for_delivery', 'cancelled')
+  );
+$$;
+
+-- Only a captured payment confirms an online order
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF OLD.status = 'pending_payment' AND NEW.status = 'placed' AND NEW.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'This order has not been paid yet';
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    IF coalesce(trim(NEW.cancellation_reason), '') = '' THEN
+      RAISE EXCEPTION 'A cancellation reason is required';
+    END IF;
+
+    NEW.cancellation_reason := trim(NEW.cancellation_reason);
+    NEW.cancelled_by := coalesce(NEW.cancelled_by, auth.uid());
+  END IF;
+
+  IF NEW.status = 'delivered' AND NOT public.is_delivery_confirmed(NEW.id) THEN
+    RAISE EXCEPTION 'Enter the customer''s delivery code to mark this order delivered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Customers can also give up on an order they haven't paid for yet
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _order public.orders;
+  _grace_minutes integer;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT cancellation_grace_minutes INTO _grace_minutes FROM public.restaurant_settings;
+
+  IF NOT (
+    _order.status IN ('pending_payment', 'placed')
+    OR (_order.status = 'preparing'
+      AND now() <= _order.created_at + make_interval(mins => _grace_minutes))
+  ) THEN
+    RAISE EXCEPTION 'This order can no longer be cancelled';
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'cancelled',
+    cancellation_reason = _reason,
+    cancelled_by = _user_id
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Orders are created awaiting payment; record_payment_result confirms them
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _settings public.restaurant_settings;
+  _store_status record;
+  _delivery_fee numeric;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _tax numeric;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT * INTO _store_status FROM public.get_store_status();
+
+  IF _store_status.reason = 'paused' THEN
+    RAISE EXCEPTION 'We are not accepting orders right now. Please try again later.';
+  END IF;
+
+  -- Pre-orders are accepted while closed; ASAP orders need the store open
+  IF _scheduled_for IS NULL THEN
+    IF NOT _store_status.is_open THEN
+      RAISE EXCEPTION 'Sorry, we are closed right now. Please schedule your order for later.';
+    END IF;
+  ELSE
+    -- Serialise bookings of the same slot so capacity cannot be overrun
+    PERFORM pg_advisory_xact_lock(hashtext('delivery_slot'), hashtext(_scheduled_for::text));
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.get_delivery_slots() AS slot
+      WHERE slot.slot_start = _scheduled_for AND slot.remaining > 0
+    ) THEN
+      RAISE EXCEPTION 'This delivery slot is no longer available';
+    END IF;
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  SELECT * INTO _settings FROM public.restaurant_settings;
+
+  _distance := public.distance_km(_settings.latitude, _settings.longitude, _latitude, _longitude);
+
+  IF _distance > _settings.max_delivery_distance_km THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      trim_scale(_settings.max_delivery_distance_km), round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  _tax := round(_subtotal * _settings.tax_rate, 2);
+  _delivery_fee := public.calculate_delivery_fee(_distance, _subtotal);
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, tax, delivery_fee, total, distance_km, notes, status, scheduled_for
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _tax, _delivery_fee,
+    _subtotal + _tax + _delivery_fee, round(_distance, 2), nullif(trim(_notes), ''), 'pending_payment', _scheduled_for
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name, modifiers
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name, line.modifiers
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  UPDATE public.orders
+  SET (estimated_delivery_at, predicted_delivery_at) = (
+    SELECT eta, eta FROM public.estimate_delivery_at(_order_id, 'placed') AS eta
+  )
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Applies a verified gateway webhook. Safe to call again for the same event,
+-- since gateways retry deliveries. A capture confirms the order and starts
+-- its delivery estimate afresh from the moment it reached the kitchen.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _provider text,
+  _provider_order_id text,
+  _provider_payment_id text,
+  _amount numeric,
+  _paid boolean,
+  _failure_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE provider = _provider AND provider_order_id = _provider_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', _provider_order_id;
+  END IF;
+
+  IF _payment.status = 'paid' THEN
+    RETURN;
+  END IF;
+
+  IF NOT _paid THEN
+    UPDATE public.payments
+    SET status = 'failed',
+      provider_payment_id = coalesce(_provider_payment_id, provider_payment_id),
+      failure_reason = _failure_reason
+    WHERE id = _payment.id;
+
+    UPDATE public.orders
+    SET payment_status = 'failed'
+    WHERE id = _payment.order_id AND payment_status = 'pending';
+
+    RETURN;
+  END IF;
+
+  IF _amount <> _payment.amount THEN
+    RAISE EXCEPTION 'Captured % but expected % for payment %', _amount, _payment.amount, _payment.id;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'paid',
+    provider_payment_id = _provider_payment_id,
+    failure_reason = NULL
+  WHERE id = _payment.id;
+
+  UPDATE public.orders
+  SET payment_status = 'paid',
+    status = CASE WHEN status = 'pending_payment' THEN 'placed' ELSE status END
+  WHERE id = _payment.order_id;
+
+  UPDATE public.orders
+  SET predicted_delivery_at = estimated_delivery_at
+  WHERE id = _payment.order_id AND status = 'placed';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_result(text, text, text, numeric, boolean, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(text, text, text, numeric, boolean, text) TO service_role;
@@ -0,0 +1,286 @@
+CREATE TYPE public.payment_method AS ENUM ('online', 'cod');
+
+ALTER TABLE public.orders
+  ADD COLUMN payment_method public.payment_method DEFAULT 'online' NOT NULL,
+  ADD COLUMN cash_collected numeric(10, 2),
+  ADD COLUMN cash_collected_at timestamptz,
+  ADD COLUMN cash_collected_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Orders from before online payments were all paid in cash. Their
+-- collections weren't recorded, so they stay out of reconciliation.
+UPDATE public.orders
+SET payment_method = 'cod'
+WHERE NOT EXISTS (SELECT 1 FROM public.payments WHERE payments.order_id = orders.id);
+
+CREATE INDEX orders_cash_collected_at_idx ON public.orders (cash_collected_at)
+  WHERE cash_collected_at IS NOT NULL;
+
+-- cod_max_order_total NULL means no limit; cod_min_delivered_orders = 0
+-- lets first-time customers pay cash too
+ALTER TABLE public.restaurant_settings
+  ADD COLUMN cod_enabled boolean DEFAULT true NOT NULL,
+  ADD COLUMN cod_max_order_total numeric(10, 2) DEFAULT 1500 CHECK (cod_max_order_total > 0),
+  ADD COLUMN cod_min_delivered_orders integer DEFAULT 1 NOT NULL CHECK (cod_min_delivered_orders >= 0);
+
+-- Cash a rider (or admin) handed in to the restaurant for a day's deliveries
+CREATE TABLE public.cash_handovers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  collector_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  business_date date NOT NULL,
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  received_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  notes text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX cash_handovers_business_date_idx ON public.cash_handovers (business_date);
+
+ALTER TABLE public.cash_handovers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage cash handovers"
+  ON public.cash_handovers FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Handing over a COD order is collecting its cash. Whoever delivered it
+-- holds the money: the rider, or the admin who confirmed the delivery.
+CREATE OR REPLACE FUNCTION public.record_cash_collection()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_method = 'cod' AND NEW.payment_status <> 'paid' THEN
+    NEW.payment_status := 'paid';
+    NEW.cash_collected := NEW.total;
+    NEW.cash_collected_at := now();
+    NEW.cash_collected_by := coalesce(NEW.rider_id, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after enforce_order_status_transition, so only real deliveries count
+CREATE TRIGGER record_cash_collection
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.record_cash_collection();
+
+-- Per collector for one day in the restaurant's time zone: the COD cash
+-- they collected against what they handed in
+CREATE OR REPLACE FUNCTION public.get_cash_reconciliation(_date date)
+RETURNS TABLE (
+  collector_id uuid,
+  full_name text,
+  phone text,
+  order_count integer,
+  cash_collected numeric,
+  cash_handed_over numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view cash reconciliation';
+  END IF;
+
+  RETURN QUERY
+  WITH collected AS (
+    SELECT o.cash_collected_by AS collector, count(*)::integer AS order_count, sum(o.cash_collected) AS amount
+    FROM public.orders o, public.restaurant_settings s
+    WHERE o.cash_collected_at IS NOT NULL
+      AND (o.cash_collected_at AT TIME ZONE s.timezone)::date = _date
+    GROUP BY o.cash_collected_by
+  ),
+  handed_over AS (
+    SELECT h.collector_id AS collector, sum(h.amount) AS amount
+    FROM public.cash_handovers h
+    WHERE h.business_date = _date
+    GROUP BY h.collector_id
+  )
+  SELECT coalesce(c.collector, h.collector), p.full_name, p.phone,
+    coalesce(c.order_count, 0), coalesce(c.amount, 0), coalesce(h.amount, 0)
+  FROM collected c
+  FULL JOIN handed_over h ON h.collector = c.collector
+  LEFT JOIN public.profiles p ON p.id = coalesce(c.collector, h.collector)
+  ORDER BY p.full_name NULLS LAST;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_cash_reconciliation(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_cash_reconciliation(date) TO authenticated;
+
+-- Customers choose how to pay. COD orders go straight to the kitchen, within
+-- the limits in restaurant_settings.
+DROP FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL,
+  _payment_method payment_method DEFAULT 'online'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _settings public.restaurant_settings;
+  _store_status record;
+  _delivery_fee numeric;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _tax numeric;
+  _delivered_orders integer;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT * INTO _store_status FROM public.get_store_status();
+
+  IF _store_status.reason = 'paused' THEN
+    RAISE EXCEPTION 'We are not accepting orders right now. Please try again later.';
+  END IF;
+
+  -- Pre-orders are accepted while closed; ASAP orders need the store open
+  IF _scheduled_for IS NULL THEN
+    IF NOT _store_status.is_open THEN
+      RAISE EXCEPTION 'Sorry, we are closed right now. Please schedule your order for later.';
+    END IF;
+  ELSE
+    -- Serialise bookings of the same slot so capacity cannot be overrun
+    PERFORM pg_advisory_xact_lock(hashtext('delivery_slot'), hashtext(_scheduled_for::text));
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.get_delivery_slots() AS slot
+      WHERE slot.slot_start = _scheduled_for AND slot.remaining > 0
+    ) THEN
+      RAISE EXCEPTION 'This delivery slot is no longer available';
+    END IF;
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  SELECT * INTO _settings FROM public.restaurant_settings;
+
+  _distance := public.distance_km(_settings.latitude, _settings.longitude, _latitude, _longitude);
+
+  IF _distance > _settings.max_delivery_distance_km THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      trim_scale(_settings.max_delivery_distance_km), round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  _tax := round(_subtotal * _settings.tax_rate, 2);
+  _delivery_fee := public.calculate_delivery_fee(_distance, _subtotal);
+
+  IF _payment_method = 'cod' THEN
+    IF NOT _settings.cod_enabled THEN
+      RAISE EXCEPTION 'Cash on delivery is not available right now. Please pay online.';
+    END IF;
+
+    IF _subtotal + _tax + _delivery_fee > _settings.cod_max_order_total THEN
+      RAISE EXCEPTION 'Cash on delivery is available for orders up to ₹%. Please pay online.',
+        trim_scale(_settings.cod_max_order_total);
+    END IF;
+
+    SELECT count(*) INTO _delivered_orders
+    FROM public.orders
+    WHERE user_id = _user_id AND status = 'delivered';
+
+    IF _delivered_orders < _settings.cod_min_delivered_orders THEN
+      RAISE EXCEPTION 'Cash on delivery is available once we have delivered % order(s) to you. Please pay online.',
+        _settings.cod_min_delivered_orders;
+    END IF;
+  END IF;
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, tax, delivery_fee, total, distance_km, notes, status, scheduled_for,
+    payment_method
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _tax, _delivery_fee,
+    _subtotal + _tax + _delivery_fee, round(_distance, 2), nullif(trim(_notes), ''),
+    CASE WHEN _payment_method = 'cod' THEN 'placed'::order_status ELSE 'pending_payment' END,
+    _scheduled_for, _payment_method
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name, modifiers
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name, line.modifiers
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  UPDATE public.orders
+  SET (estimated_delivery_at, predicted_delivery_at) = (
+    SELECT eta, eta FROM public.estimate_delivery_at(_order_id, 'placed') AS eta
+  )
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz, payment_method) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz, payment_method) TO authenticated;
@@ -0,0 +1,234 @@
+CREATE TYPE public.refund_status AS ENUM ('pending', 'processed', 'failed');
+
+-- Money given back on an order, in full or for some of its items. Online
+-- payments are refunded through the gateway; cash is handed back in person.
+CREATE TABLE public.refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  -- NULL for cash refunds
+  payment_id uuid REFERENCES public.payments(id) ON DELETE SET NULL,
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  -- [{ order_item_id, quantity }] for item-level refunds, empty otherwise
+  items jsonb DEFAULT '[]'::jsonb NOT NULL,
+  status public.refund_status DEFAULT 'pending' NOT NULL,
+  provider_refund_id text,
+  failure_reason text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  processed_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX refunds_order_id_idx ON public.refunds (order_id);
+CREATE INDEX refunds_processed_at_idx ON public.refunds (processed_at) WHERE processed_at IS NOT NULL;
+
+CREATE TRIGGER update_refunds_updated_at
+  BEFORE UPDATE ON public.refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view refunds of their own orders"
+  ON public.refunds FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = refunds.order_id
+      AND orders.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all refunds"
+  ON public.refunds FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Records a refund an admin is issuing. With _items, refunds those
+-- quantities plus their share of the tax; with _amount, exactly that;
+-- with neither, whatever hasn't been refunded yet. Refunds of online
+-- payments stay pending until the gateway has processed them
+-- (record_refund_result); cash refunds are handed back on the spot.
+CREATE OR REPLACE FUNCTION public.request_refund(
+  _order_id uuid,
+  _reason text,
+  _items jsonb DEFAULT '[]'::jsonb,
+  _amount numeric DEFAULT NULL
+)
+RETURNS public.refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _payment_id uuid;
+  _refundable numeric;
+  _line record;
+  _item public.order_items;
+  _already_refunded integer;
+  _items_total numeric := 0;
+  _refund_items jsonb := '[]'::jsonb;
+  _refund public.refunds;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can issue refunds';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  SELECT _order.total - coalesce(sum(amount), 0) INTO _refundable
+  FROM public.refunds
+  WHERE order_id = _order_id AND status <> 'failed';
+
+  IF jsonb_array_length(coalesce(_items, '[]'::jsonb)) > 0 THEN
+    FOR _line IN
+      SELECT (item->>'order_item_id')::uuid AS order_item_id, (item->>'quantity')::integer AS quantity
+      FROM jsonb_array_elements(_items) AS item
+    LOOP
+      SELECT * INTO _item
+      FROM public.order_items
+      WHERE id = _line.order_item_id AND order_id = _order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item not found on this order';
+      END IF;
+
+      IF coalesce(_line.quantity, 0) < 1 THEN
+        RAISE EXCEPTION 'Quantity must be at least 1';
+      END IF;
+
+      SELECT coalesce(sum((refunded->>'quantity')::integer), 0) INTO _already_refunded
+      FROM public.refunds r, jsonb_array_elements(r.items) AS refunded
+      WHERE r.order_id = _order_id
+        AND r.status <> 'failed'
+        AND (refunded->>'order_item_id')::uuid = _item.id;
+
+      IF _already_refunded + _line.quantity > _item.quantity THEN
+        RAISE EXCEPTION 'Only % x % can still be refunded',
+          _item.quantity - _already_refunded, _item.item_title;
+      END IF;
+
+      _items_total := _items_total + _item.price * _line.quantity;
+      _refund_items := _refund_items || jsonb_build_object('order_item_id', _item.id, 'quantity', _line.quantity);
+    END LOOP;
+
+    -- Item prices are before tax
+    _amount := round(_items_total * (1 + coalesce(_order.tax / nullif(_order.subtotal, 0), 0)), 2);
+  ELSIF _amount IS NULL THEN
+    _amount := _refundable;
+  END IF;
+
+  IF _refundable <= 0 THEN
+    RAISE EXCEPTION 'This order has already been refunded in full';
+  END IF;
+
+  IF _amount <= 0 OR _amount > _refundable THEN
+    RAISE EXCEPTION 'Refund must be between ₹0.01 and ₹%', trim_scale(_refundable);
+  END IF;
+
+  IF _order.payment_method = 'online' THEN
+    SELECT id INTO _payment_id
+    FROM public.payments
+    WHERE order_id = _order_id AND status = 'paid'
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.refunds (order_id, payment_id, amount, reason, items, status, processed_at)
+  VALUES (
+    _order_id, _payment_id, _amount, trim(_reason), _refund_items,
+    CASE WHEN _payment_id IS NULL THEN 'processed'::refund_status ELSE 'pending' END,
+    CASE WHEN _payment_id IS NULL THEN now() END
+  )
+  RETURNING * INTO _refund;
+
+  RETURN _refund;
+END;
+$$;
+
+-- What the gateway said about a refund, when it was requested or later by
+-- webhook. Processed and failed are final; repeats are ignored.
+CREATE OR REPLACE FUNCTION public.record_refund_result(
+  _refund_id uuid,
+  _provider_refund_id text,
+  _status refund_status,
+  _failure_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.refunds
+  SET status = _status,
+    provider_refund_id = coalesce(_provider_refund_id, provider_refund_id),
+    failure_reason = _failure_reason,
+    processed_at = CASE WHEN _status = 'processed' THEN now() END
+  WHERE id = _refund_id AND status = 'pending';
+END;
+$$;
+
+-- Paid orders and processed refunds per day in the restaurant's time zone.
+-- Sales count on the day ordered, refunds on the day they went through.
+CREATE OR REPLACE FUNCTION public.get_sales_report(_from date, _to date)
+RETURNS TABLE (
+  day date,
+  order_count integer,
+  gross_sales numeric,
+  refunds numeric,
+  net_sales numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view sales reports';
+  END IF;
+
+  RETURN QUERY
+  WITH settings AS (
+    SELECT timezone FROM public.restaurant_settings
+  ),
+  sales AS (
+    SELECT (o.created_at AT TIME ZONE s.timezone)::date AS sale_day,
+      count(*)::integer AS order_count, sum(o.total) AS amount
+    FROM public.orders o, settings s
+    WHERE o.payment_status = 'paid'
+    GROUP BY 1
+  ),
+  refunded AS (
+    SELECT (r.processed_at AT TIME ZONE s.timezone)::date AS refund_day, sum(r.amount) AS amount
+    FROM public.refunds r, settings s
+    WHERE r.status = 'processed'
+    GROUP BY 1
+  )
+  SELECT d::date, coalesce(sales.order_count, 0), coalesce(sales.amount, 0),
+    coalesce(refunded.amount, 0), coalesce(sales.amount, 0) - coalesce(refunded.amount, 0)
+  FROM generate_series(_from, _to, interval '1 day') AS d
+  LEFT JOIN sales ON sales.sale_day = d::date
+  LEFT JOIN refunded ON refunded.refund_day = d::date
+  ORDER BY 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_refund(uuid, text, jsonb, numeric) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.record_refund_result(uuid, text, refund_status, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_sales_report(date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_refund(uuid, text, jsonb, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_refund_result(uuid, text, refund_status, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_sales_report(date, date) TO authenticated;
@@ -0,0 +1,469 @@
+CREATE TYPE public.coupon_discount_type AS ENUM ('percentage', 'flat');
+
+-- Promo codes customers can enter at checkout. Empty categories and
+-- menu_item_ids mean the code applies to the whole cart.
+CREATE TABLE public.coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,20}$'),
+  description text,
+  discount_type public.coupon_discount_type NOT NULL,
+  -- Percent off for percentage codes, rupees off for flat ones
+  discount_value numeric(10, 2) NOT NULL CHECK (
+    discount_value > 0 AND (discount_type = 'flat' OR discount_value <= 100)
+  ),
+  min_subtotal numeric(10, 2) DEFAULT 0 NOT NULL CHECK (min_subtotal >= 0),
+  max_discount numeric(10, 2) CHECK (max_discount > 0),
+  -- NULL for no limit
+  usage_limit integer CHECK (usage_limit > 0),
+  per_user_limit integer DEFAULT 1 CHECK (per_user_limit > 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  first_order_only boolean DEFAULT false NOT NULL,
+  categories text[] DEFAULT '{}' NOT NULL,
+  menu_item_ids uuid[] DEFAULT '{}' NOT NULL,
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE TRIGGER update_coupons_updated_at
+  BEFORE UPDATE ON public.coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+
+-- Customers never list codes; they check one at a time with check_coupon
+CREATE POLICY "Admins can manage coupons"
+  ON public.coupons FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The discount is its own line: total = subtotal - discount + tax + delivery_fee
+ALTER TABLE public.orders
+  ADD COLUMN discount numeric(10, 2) DEFAULT 0 NOT NULL CHECK (discount >= 0),
+  ADD COLUMN coupon_id uuid REFERENCES public.coupons(id) ON DELETE SET NULL,
+  ADD COLUMN coupon_code text;
+
+CREATE INDEX orders_coupon_id_idx ON public.orders (coupon_id) WHERE coupon_id IS NOT NULL;
+
+-- Works out what a code takes off an order of _items (place_order's format)
+-- for _user_id, raising the reason when it can't be used. Orders count
+-- towards usage limits unless cancelled, so an unpaid order holds its code
+-- until the customer cancels it. Locks the coupon so concurrent orders
+-- can't both take its last use.
+CREATE OR REPLACE FUNCTION public.price_coupon(
+  _code text,
+  _user_id uuid,
+  _items jsonb,
+  OUT coupon_id uuid,
+  OUT code text,
+  OUT description text,
+  OUT discount numeric
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _coupon public.coupons;
+  _subtotal numeric;
+  _eligible_subtotal numeric;
+  _uses integer;
+BEGIN
+  SELECT * INTO _coupon
+  FROM public.coupons c
+  WHERE c.code = upper(trim(_code)) AND c.is_active
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This promo code is not valid';
+  END IF;
+
+  IF _coupon.starts_at > now() THEN
+    RAISE EXCEPTION 'This promo code can be used from %',
+      to_char(_coupon.starts_at AT TIME ZONE (SELECT timezone FROM public.restaurant_settings), 'DD Mon YYYY');
+  END IF;
+
+  IF _coupon.ends_at <= now() THEN
+    RAISE EXCEPTION 'This promo code has expired';
+  END IF;
+
+  SELECT sum(line.price * line.quantity),
+    coalesce(sum(line.price * line.quantity) FILTER (
+      WHERE (cardinality(_coupon.categories) = 0 AND cardinality(_coupon.menu_item_ids) = 0)
+        OR m.category = ANY (_coupon.categories)
+        OR m.id = ANY (_coupon.menu_item_ids)
+    ), 0)
+  INTO _subtotal, _eligible_subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line
+    JOIN public.menu_items m ON m.id = line.menu_item_id;
+
+  IF _subtotal < _coupon.min_subtotal THEN
+    RAISE EXCEPTION 'Add ₹% more to use this promo code', trim_scale(_coupon.min_subtotal - _subtotal);
+  END IF;
+
+  IF _eligible_subtotal = 0 THEN
+    RAISE EXCEPTION 'This promo code does not apply to anything in your cart';
+  END IF;
+
+  IF _coupon.first_order_only AND EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.user_id = _user_id AND o.status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'This promo code is only for your first order';
+  END IF;
+
+  IF _coupon.per_user_limit IS NOT NULL THEN
+    SELECT count(*) INTO _uses
+    FROM public.orders o
+    WHERE o.coupon_id = _coupon.id AND o.user_id = _user_id AND o.status <> 'cancelled';
+
+    IF _uses >= _coupon.per_user_limit THEN
+      RAISE EXCEPTION 'You have already used this promo code';
+    END IF;
+  END IF;
+
+  IF _coupon.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO _uses
+    FROM public.orders o
+    WHERE o.coupon_id = _coupon.id AND o.status <> 'cancelled';
+
+    IF _uses >= _coupon.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has been fully redeemed';
+    END IF;
+  END IF;
+
+  discount := CASE _coupon.discount_type
+    WHEN 'percentage' THEN round(_eligible_subtotal * _coupon.discount_value / 100, 2)
+    ELSE _coupon.discount_value
+  END;
+  discount := least(discount, coalesce(_coupon.max_discount, discount), _eligible_subtotal);
+  coupon_id := _coupon.id;
+  code := _coupon.code;
+  description := _coupon.description;
+END;
+$$;
+
+-- Lets Checkout show a code's discount before the order is placed.
+-- place_order checks the code again.
+CREATE OR REPLACE FUNCTION public.check_coupon(_code text, _items jsonb)
+RETURNS TABLE (code text, description text, discount numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to use a promo code';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.code, c.description, c.discount
+  FROM public.price_coupon(_code, auth.uid(), _items) AS c;
+END;
+$$;
+
+-- Customers can enter a promo code; its discount is worked out here, never
+-- taken from the client.
+DROP FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz, payment_method);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL,
+  _payment_method payment_method DEFAULT 'online',
+  _coupon_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _settings public.restaurant_settings;
+  _store_status record;
+  _delivery_fee numeric;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _coupon_id uuid;
+  _applied_coupon_code text;
+  _discount numeric := 0;
+  _tax numeric;
+  _total numeric;
+  _delivered_orders integer;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT * INTO _store_status FROM public.get_store_status();
+
+  IF _store_status.reason = 'paused' THEN
+    RAISE EXCEPTION 'We are not accepting orders right now. Please try again later.';
+  END IF;
+
+  -- Pre-orders are accepted while closed; ASAP orders need the store open
+  IF _scheduled_for IS NULL THEN
+    IF NOT _store_status.is_open THEN
+      RAISE EXCEPTION 'Sorry, we are closed right now. Please schedule your order for later.';
+    END IF;
+  ELSE
+    -- Serialise bookings of the same slot so capacity cannot be overrun
+    PERFORM pg_advisory_xact_lock(hashtext('delivery_slot'), hashtext(_scheduled_for::text));
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.get_delivery_slots() AS slot
+      WHERE slot.slot_start = _scheduled_for AND slot.remaining > 0
+    ) THEN
+      RAISE EXCEPTION 'This delivery slot is no longer available';
+    END IF;
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  SELECT * INTO _settings FROM public.restaurant_settings;
+
+  _distance := public.distance_km(_settings.latitude, _settings.longitude, _latitude, _longitude);
+
+  IF _distance > _settings.max_delivery_distance_km THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      trim_scale(_settings.max_delivery_distance_km), round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  IF coalesce(trim(_coupon_code), '') <> '' THEN
+    SELECT c.coupon_id, c.code, c.discount INTO _coupon_id, _applied_coupon_code, _discount
+    FROM public.price_coupon(_coupon_code, _user_id, _items) AS c;
+  END IF;
+
+  -- Tax is on what the customer pays for the food, after the discount
+  _tax := round((_subtotal - _discount) * _settings.tax_rate, 2);
+  _delivery_fee := public.calculate_delivery_fee(_distance, _subtotal);
+  _total := _subtotal - _discount + _tax + _delivery_fee;
+
+  IF _payment_method = 'cod' THEN
+    IF NOT _settings.cod_enabled THEN
+      RAISE EXCEPTION 'Cash on delivery is not available right now. Please pay online.';
+    END IF;
+
+    IF _total > _settings.cod_max_order_total THEN
+      RAISE EXCEPTION 'Cash on delivery is available for orders up to ₹%. Please pay online.',
+        trim_scale(_settings.cod_max_order_total);
+    END IF;
+
+    SELECT count(*) INTO _delivered_orders
+    FROM public.orders
+    WHERE user_id = _user_id AND status = 'delivered';
+
+    IF _delivered_orders < _settings.cod_min_delivered_orders THEN
+      RAISE EXCEPTION 'Cash on delivery is available once we have delivered % order(s) to you. Please pay online.',
+        _settings.cod_min_delivered_orders;
+    END IF;
+  END IF;
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, discount, tax, delivery_fee, total, distance_km, notes, status, scheduled_for,
+    payment_method, coupon_id, coupon_code
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _discount, _tax, _delivery_fee,
+    _total, round(_distance, 2), nullif(trim(_notes), ''),
+    CASE WHEN _payment_method = 'cod' THEN 'placed'::order_status ELSE 'pending_payment' END,
+    _scheduled_for, _payment_method, _coupon_id, _applied_coupon_code
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name, modifiers
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name, line.modifiers
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  UPDATE public.orders
+  SET (estimated_delivery_at, predicted_delivery_at) = (
+    SELECT eta, eta FROM public.estimate_delivery_at(_order_id, 'placed') AS eta
+  )
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Item-level refunds give back each item's share of the discount too
+CREATE OR REPLACE FUNCTION public.request_refund(
+  _order_id uuid,
+  _reason text,
+  _items jsonb DEFAULT '[]'::jsonb,
+  _amount numeric DEFAULT NULL
+)
+RETURNS public.refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _payment_id uuid;
+  _refundable numeric;
+  _line record;
+  _item public.order_items;
+  _already_refunded integer;
+  _items_total numeric := 0;
+  _refund_items jsonb := '[]'::jsonb;
+  _refund public.refunds;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can issue refunds';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  SELECT _order.total - coalesce(sum(amount), 0) INTO _refundable
+  FROM public.refunds
+  WHERE order_id = _order_id AND status <> 'failed';
+
+  IF jsonb_array_length(coalesce(_items, '[]'::jsonb)) > 0 THEN
+    FOR _line IN
+      SELECT (item->>'order_item_id')::uuid AS order_item_id, (item->>'quantity')::integer AS quantity
+      FROM jsonb_array_elements(_items) AS item
+    LOOP
+      SELECT * INTO _item
+      FROM public.order_items
+      WHERE id = _line.order_item_id AND order_id = _order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item not found on this order';
+      END IF;
+
+      IF coalesce(_line.quantity, 0) < 1 THEN
+        RAISE EXCEPTION 'Quantity must be at least 1';
+      END IF;
+
+      SELECT coalesce(sum((refunded->>'quantity')::integer), 0) INTO _already_refunded
+      FROM public.refunds r, jsonb_array_elements(r.items) AS refunded
+      WHERE r.order_id = _order_id
+        AND r.status <> 'failed'
+        AND (refunded->>'order_item_id')::uuid = _item.id;
+
+      IF _already_refunded + _line.quantity > _item.quantity THEN
+        RAISE EXCEPTION 'Only % x % can still be refunded',
+          _item.quantity - _already_refunded, _item.item_title;
+      END IF;
+
+      _items_total := _items_total + _item.price * _line.quantity;
+      _refund_items := _refund_items || jsonb_build_object('order_item_id', _item.id, 'quantity', _line.quantity);
+    END LOOP;
+
+    -- Item prices are before discount and tax; refund what was actually paid for them
+    _amount := round(
+      _items_total * coalesce((_order.subtotal - _order.discount + _order.tax) / nullif(_order.subtotal, 0), 0),
+      2
+    );
+  ELSIF _amount IS NULL THEN
+    _amount := _refundable;
+  END IF;
+
+  IF _refundable <= 0 THEN
+    RAISE EXCEPTION 'This order has already been refunded in full';
+  END IF;
+
+  IF _amount <= 0 OR _amount > _refundable THEN
+    RAISE EXCEPTION 'Refund must be between ₹0.01 and ₹%', trim_scale(_refundable);
+  END IF;
+
+  IF _order.payment_method = 'online' THEN
+    SELECT id INTO _payment_id
+    FROM public.payments
+    WHERE order_id = _order_id AND status = 'paid'
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.refunds (order_id, payment_id, amount, reason, items, status, processed_at)
+  VALUES (
+    _order_id, _payment_id, _amount, trim(_reason), _refund_items,
+    CASE WHEN _payment_id IS NULL THEN 'processed'::refund_status ELSE 'pending' END,
+    CASE WHEN _payment_id IS NULL THEN now() END
+  )
+  RETURNING * INTO _refund;
+
+  RETURN _refund;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.price_coupon(text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_coupon(text, jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz, payment_method, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_coupon(text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz, payment_method, text) TO authenticated;
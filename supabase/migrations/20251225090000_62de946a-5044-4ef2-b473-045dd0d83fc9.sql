@@ -0,0 +1,491 @@
+-- GST classes menu items are taxed under. Food served by a restaurant is
+-- SAC 996331; packaged goods sold as they are carry their own HSN code
+-- and rate.
+CREATE TABLE public.tax_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  hsn_sac_code text NOT NULL CHECK (hsn_sac_code ~ '^[0-9]{4,8}$'),
+  gst_rate numeric(5, 4) NOT NULL CHECK (gst_rate >= 0 AND gst_rate < 1),
+  -- Used for menu items without a category of their own
+  is_default boolean DEFAULT false NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX tax_categories_one_default_idx ON public.tax_categories (is_default) WHERE is_default;
+
+CREATE TRIGGER update_tax_categories_updated_at
+  BEFORE UPDATE ON public.tax_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tax_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax categories"
+  ON public.tax_categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage tax categories"
+  ON public.tax_categories FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The flat rate every order was taxed at becomes the default category
+INSERT INTO public.tax_categories (name, hsn_sac_code, gst_rate, is_default)
+SELECT 'Restaurant service', '996331', tax_rate, true
+FROM public.restaurant_settings;
+
+ALTER TABLE public.menu_items
+  ADD COLUMN tax_category_id uuid REFERENCES public.tax_categories(id) ON DELETE SET NULL;
+
+-- Shown on tax invoices. tax_rate is replaced by tax_categories.
+ALTER TABLE public.restaurant_settings
+  ADD COLUMN gstin text CHECK (gstin ~ '^[0-9]{2}[A-Z0-9]{10}[1-9A-Z]Z[0-9A-Z]$'),
+  ADD COLUMN legal_name text,
+  ADD COLUMN invoice_prefix text DEFAULT 'INV' NOT NULL CHECK (invoice_prefix ~ '^[A-Z0-9]{1,4}$'),
+  DROP COLUMN tax_rate;
+
+-- Each line keeps the GST it was charged, on its share of the discounted
+-- subtotal. Deliveries never leave the state, so GST is always split
+-- equally into CGST and SGST.
+ALTER TABLE public.order_items
+  ADD COLUMN hsn_sac_code text,
+  ADD COLUMN gst_rate numeric(5, 4),
+  ADD COLUMN taxable_value numeric(10, 2),
+  ADD COLUMN cgst numeric(10, 2),
+  ADD COLUMN sgst numeric(10, 2);
+
+ALTER TABLE public.orders
+  ADD COLUMN cgst numeric(10, 2) DEFAULT 0 NOT NULL,
+  ADD COLUMN sgst numeric(10, 2) DEFAULT 0 NOT NULL,
+  ADD COLUMN invoice_number text UNIQUE,
+  ADD COLUMN invoice_date timestamptz,
+  -- The seller as printed on the invoice, so later changes to the
+  -- restaurant's settings never alter an issued invoice
+  ADD COLUMN seller_gstin text,
+  ADD COLUMN seller_legal_name text,
+  ADD COLUMN seller_address text;
+
+-- Orders so far were all taxed at one flat rate
+UPDATE public.order_items oi
+SET hsn_sac_code = '996331',
+  gst_rate = coalesce(round(o.tax / nullif(o.subtotal - o.discount, 0), 4), 0),
+  taxable_value = round(oi.price * oi.quantity * coalesce((o.subtotal - o.discount) / nullif(o.subtotal, 0), 1), 2),
+  cgst = round(oi.price * oi.quantity * coalesce(o.tax / nullif(o.subtotal, 0), 0) / 2, 2),
+  sgst = round(oi.price * oi.quantity * coalesce(o.tax / nullif(o.subtotal, 0), 0) / 2, 2)
+FROM public.orders o
+WHERE o.id = oi.order_id;
+
+UPDATE public.orders
+SET cgst = round(tax / 2, 2),
+  sgst = tax - round(tax / 2, 2);
+
+ALTER TABLE public.order_items
+  ALTER COLUMN hsn_sac_code SET NOT NULL,
+  ALTER COLUMN gst_rate SET NOT NULL,
+  ALTER COLUMN taxable_value SET NOT NULL,
+  ALTER COLUMN cgst SET NOT NULL,
+  ALTER COLUMN sgst SET NOT NULL;
+
+-- Last invoice number used in each financial year (April to March)
+CREATE TABLE public.invoice_sequences (
+  financial_year text PRIMARY KEY,
+  last_number integer NOT NULL
+);
+
+-- Only reached through next_invoice_number
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+-- e.g. INV/26-27/00042 for the 42nd invoice of FY 2026-27. Numbers come
+-- from a row lock held until the order commits, so there are no gaps.
+CREATE OR REPLACE FUNCTION public.next_invoice_number(_at timestamptz DEFAULT now())
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.restaurant_settings;
+  _local_date date;
+  _start_year integer;
+  _financial_year text;
+  _number integer;
+BEGIN
+  SELECT * INTO _settings FROM public.restaurant_settings;
+
+  _local_date := (_at AT TIME ZONE _settings.timezone)::date;
+  _start_year := extract(year FROM _local_date)::integer - CASE WHEN extract(month FROM _local_date) < 4 THEN 1 ELSE 0 END;
+  _financial_year := to_char(_start_year % 100, 'FM00') || '-' || to_char((_start_year + 1) % 100, 'FM00');
+
+  INSERT INTO public.invoice_sequences AS s (financial_year, last_number)
+  VALUES (_financial_year, 1)
+  ON CONFLICT (financial_year) DO UPDATE SET last_number = s.last_number + 1
+  RETURNING last_number INTO _number;
+
+  -- Padded to at least five digits; lpad alone would cut longer numbers short
+  RETURN _settings.invoice_prefix || '/' || _financial_year || '/'
+    || lpad(_number::text, greatest(length(_number::text), 5), '0');
+END;
+$$;
+
+-- An order is invoiced once it's paid: when the gateway captures an online
+-- payment, or when the rider collects the cash. Runs after
+-- record_cash_collection, which marks COD orders paid. Orders paid before
+-- GST invoicing existed are never numbered; they were not issued as tax
+-- invoices.
+CREATE OR REPLACE FUNCTION public.set_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_status = 'paid' AND OLD.payment_status <> 'paid' AND NEW.invoice_number IS NULL THEN
+    NEW.invoice_number := public.next_invoice_number();
+    NEW.invoice_date := now();
+
+    SELECT gstin, coalesce(legal_name, name), address
+    INTO NEW.seller_gstin, NEW.seller_legal_name, NEW.seller_address
+    FROM public.restaurant_settings;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_invoice_number
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_invoice_number();
+
+-- GST now comes from each item's tax category instead of one flat rate
+DROP FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz, payment_method, text);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid DEFAULT NULL,
+  _address jsonb DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _scheduled_for timestamptz DEFAULT NULL,
+  _payment_method payment_method DEFAULT 'online',
+  _coupon_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _settings public.restaurant_settings;
+  _store_status record;
+  _delivery_fee numeric;
+  _latitude numeric;
+  _longitude numeric;
+  _distance numeric;
+  _subtotal numeric;
+  _coupon_id uuid;
+  _applied_coupon_code text;
+  _discount numeric := 0;
+  _lines jsonb;
+  _cgst numeric;
+  _tax numeric;
+  _total numeric;
+  _delivered_orders integer;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT * INTO _store_status FROM public.get_store_status();
+
+  IF _store_status.reason = 'paused' THEN
+    RAISE EXCEPTION 'We are not accepting orders right now. Please try again later.';
+  END IF;
+
+  -- Pre-orders are accepted while closed; ASAP orders need the store open
+  IF _scheduled_for IS NULL THEN
+    IF NOT _store_status.is_open THEN
+      RAISE EXCEPTION 'Sorry, we are closed right now. Please schedule your order for later.';
+    END IF;
+  ELSE
+    -- Serialise bookings of the same slot so capacity cannot be overrun
+    PERFORM pg_advisory_xact_lock(hashtext('delivery_slot'), hashtext(_scheduled_for::text));
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.get_delivery_slots() AS slot
+      WHERE slot.slot_start = _scheduled_for AND slot.remaining > 0
+    ) THEN
+      RAISE EXCEPTION 'This delivery slot is no longer available';
+    END IF;
+  END IF;
+
+  IF _address_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO _latitude, _longitude
+    FROM public.addresses
+    WHERE id = _address_id
+      AND user_id = _user_id
+      AND NOT is_archived;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Saved address not found';
+    END IF;
+  ELSE
+    IF _address IS NULL OR coalesce(trim(_address->>'label'), '') = '' THEN
+      RAISE EXCEPTION 'Label is required';
+    END IF;
+
+    IF length(coalesce(trim(_address->>'address_line'), '')) < 10 THEN
+      RAISE EXCEPTION 'Address must be at least 10 characters';
+    END IF;
+
+    _latitude := (_address->>'latitude')::numeric;
+    _longitude := (_address->>'longitude')::numeric;
+
+    IF _latitude IS NULL OR _longitude IS NULL THEN
+      RAISE EXCEPTION 'Please provide delivery location';
+    END IF;
+  END IF;
+
+  SELECT * INTO _settings FROM public.restaurant_settings;
+
+  _distance := public.distance_km(_settings.latitude, _settings.longitude, _latitude, _longitude);
+
+  IF _distance > _settings.max_delivery_distance_km THEN
+    RAISE EXCEPTION 'Sorry, we only deliver within %km. Your location is %km away.',
+      trim_scale(_settings.max_delivery_distance_km), round(_distance, 1);
+  END IF;
+
+  SELECT sum(line.price * line.quantity) INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line;
+
+  IF coalesce(trim(_coupon_code), '') <> '' THEN
+    SELECT c.coupon_id, c.code, c.discount INTO _coupon_id, _applied_coupon_code, _discount
+    FROM public.price_coupon(_coupon_code, _user_id, _items) AS c;
+  END IF;
+
+  -- Priced lines with their GST, on each line's share of the discounted
+  -- subtotal. The last line takes the rounding remainder so the taxable
+  -- values add up to the discounted subtotal. CGST and SGST are equal halves.
+  WITH priced AS (
+    SELECT item.ordinality AS position, line, tc.hsn_sac_code, tc.gst_rate,
+      round(line.price * line.quantity * coalesce((_subtotal - _discount) / nullif(_subtotal, 0), 1), 2) AS taxable_value
+    FROM jsonb_array_elements(_items) WITH ORDINALITY AS item,
+      LATERAL public.price_order_line(item.value) AS line
+      JOIN public.menu_items m ON m.id = line.menu_item_id
+      JOIN public.tax_categories tc
+        ON tc.id = coalesce(m.tax_category_id, (SELECT id FROM public.tax_categories WHERE is_default))
+  ),
+  balanced AS (
+    SELECT priced.*,
+      taxable_value + CASE
+        WHEN position = max(position) OVER () THEN _subtotal - _discount - sum(taxable_value) OVER ()
+        ELSE 0
+      END AS balanced_value
+    FROM priced
+  )
+  SELECT jsonb_agg(to_jsonb(line) || jsonb_build_object(
+      'hsn_sac_code', hsn_sac_code,
+      'gst_rate', gst_rate,
+      'taxable_value', balanced_value,
+      'cgst', round(balanced_value * gst_rate / 2, 2)
+    ) ORDER BY position)
+  INTO _lines
+  FROM balanced;
+
+  IF coalesce(jsonb_array_length(_lines), 0) <> jsonb_array_length(_items) THEN
+    RAISE EXCEPTION 'GST is not set up for some items in your cart';
+  END IF;
+
+  SELECT sum((line->>'cgst')::numeric) INTO _cgst FROM jsonb_array_elements(_lines) AS line;
+  _tax := _cgst * 2;
+  _delivery_fee := public.calculate_delivery_fee(_distance, _subtotal);
+  _total := _subtotal - _discount + _tax + _delivery_fee;
+
+  IF _payment_method = 'cod' THEN
+    IF NOT _settings.cod_enabled THEN
+      RAISE EXCEPTION 'Cash on delivery is not available right now. Please pay online.';
+    END IF;
+
+    IF _total > _settings.cod_max_order_total THEN
+      RAISE EXCEPTION 'Cash on delivery is available for orders up to ₹%. Please pay online.',
+        trim_scale(_settings.cod_max_order_total);
+    END IF;
+
+    SELECT count(*) INTO _delivered_orders
+    FROM public.orders
+    WHERE user_id = _user_id AND status = 'delivered';
+
+    IF _delivered_orders < _settings.cod_min_delivered_orders THEN
+      RAISE EXCEPTION 'Cash on delivery is available once we have delivered % order(s) to you. Please pay online.',
+        _settings.cod_min_delivered_orders;
+    END IF;
+  END IF;
+
+  -- New addresses go into the address book; the first one becomes the default
+  IF _address_id IS NULL THEN
+    INSERT INTO public.addresses (user_id, label, address_line, latitude, longitude, is_default)
+    VALUES (
+      _user_id, trim(_address->>'label'), trim(_address->>'address_line'), _latitude, _longitude,
+      NOT EXISTS (
+        SELECT 1 FROM public.addresses
+        WHERE user_id = _user_id AND is_default AND NOT is_archived
+      )
+    )
+    RETURNING id INTO _address_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, address_id, subtotal, discount, tax, cgst, sgst, delivery_fee, total, distance_km, notes, status,
+    scheduled_for, payment_method, coupon_id, coupon_code
+  )
+  VALUES (
+    _user_id, _address_id, _subtotal, _discount, _tax, _cgst, _cgst, _delivery_fee,
+    _total, round(_distance, 2), nullif(trim(_notes), ''),
+    CASE WHEN _payment_method = 'cod' THEN 'placed'::order_status ELSE 'pending_payment' END,
+    _scheduled_for, _payment_method, _coupon_id, _applied_coupon_code
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (
+    order_id, menu_item_id, quantity, price, item_title, variant_id, variant_name, modifiers,
+    hsn_sac_code, gst_rate, taxable_value, cgst, sgst
+  )
+  SELECT _order_id, line.menu_item_id, line.quantity, line.price, line.item_title,
+    line.variant_id, line.variant_name, line.modifiers,
+    line.hsn_sac_code, line.gst_rate, line.taxable_value, line.cgst, line.cgst
+  FROM jsonb_to_recordset(_lines) AS line(
+    menu_item_id uuid, quantity integer, price numeric, item_title text, variant_id uuid, variant_name text,
+    modifiers jsonb, hsn_sac_code text, gst_rate numeric, taxable_value numeric, cgst numeric
+  );
+
+  UPDATE public.orders
+  SET (estimated_delivery_at, predicted_delivery_at) = (
+    SELECT eta, eta FROM public.estimate_delivery_at(_order_id, 'placed') AS eta
+  )
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Item-level refunds give back what was paid for the items, GST included,
+-- from what the order stored for them
+CREATE OR REPLACE FUNCTION public.request_refund(
+  _order_id uuid,
+  _reason text,
+  _items jsonb DEFAULT '[]'::jsonb,
+  _amount numeric DEFAULT NULL
+)
+RETURNS public.refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _payment_id uuid;
+  _refundable numeric;
+  _line record;
+  _item public.order_items;
+  _already_refunded integer;
+  _items_total numeric := 0;
+  _refund_items jsonb := '[]'::jsonb;
+  _refund public.refunds;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can issue refunds';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  SELECT _order.total - coalesce(sum(amount), 0) INTO _refundable
+  FROM public.refunds
+  WHERE order_id = _order_id AND status <> 'failed';
+
+  IF jsonb_array_length(coalesce(_items, '[]'::jsonb)) > 0 THEN
+    FOR _line IN
+      SELECT (item->>'order_item_id')::uuid AS order_item_id, (item->>'quantity')::integer AS quantity
+      FROM jsonb_array_elements(_items) AS item
+    LOOP
+      SELECT * INTO _item
+      FROM public.order_items
+      WHERE id = _line.order_item_id AND order_id = _order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item not found on this order';
+      END IF;
+
+      IF coalesce(_line.quantity, 0) < 1 THEN
+        RAISE EXCEPTION 'Quantity must be at least 1';
+      END IF;
+
+      SELECT coalesce(sum((refunded->>'quantity')::integer), 0) INTO _already_refunded
+      FROM public.refunds r, jsonb_array_elements(r.items) AS refunded
+      WHERE r.order_id = _order_id
+        AND r.status <> 'failed'
+        AND (refunded->>'order_item_id')::uuid = _item.id;
+
+      IF _already_refunded + _line.quantity > _item.quantity THEN
+        RAISE EXCEPTION 'Only % x % can still be refunded',
+          _item.quantity - _already_refunded, _item.item_title;
+      END IF;
+
+      _items_total := _items_total + (_item.taxable_value + _item.cgst + _item.sgst) * _line.quantity / _item.quantity;
+      _refund_items := _refund_items || jsonb_build_object('order_item_id', _item.id, 'quantity', _line.quantity);
+    END LOOP;
+
+    _amount := round(_items_total, 2);
+  ELSIF _amount IS NULL THEN
+    _amount := _refundable;
+  END IF;
+
+  IF _refundable <= 0 THEN
+    RAISE EXCEPTION 'This order has already been refunded in full';
+  END IF;
+
+  IF _amount <= 0 OR _amount > _refundable THEN
+    RAISE EXCEPTION 'Refund must be between ₹0.01 and ₹%', trim_scale(_refundable);
+  END IF;
+
+  IF _order.payment_method = 'online' THEN
+    SELECT id INTO _payment_id
+    FROM public.payments
+    WHERE order_id = _order_id AND status = 'paid'
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.refunds (order_id, payment_id, amount, reason, items, status, processed_at)
+  VALUES (
+    _order_id, _payment_id, _amount, trim(_reason), _refund_items,
+    CASE WHEN _payment_id IS NULL THEN 'processed'::refund_status ELSE 'pending' END,
+    CASE WHEN _payment_id IS NULL THEN now() END
+  )
+  RETURNING * INTO _refund;
+
+  RETURN _refund;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_invoice_number(timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz, payment_method, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, jsonb, text, timestamptz, payment_method, text) TO authenticated;
@@ -0,0 +1,181 @@
+-- Online orders left unpaid this long no longer hold a delivery slot, and
+-- expire_unpaid_orders cancels them
+CREATE OR REPLACE FUNCTION public.is_unpaid_order_expired(_status order_status, _created_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _status = 'pending_payment' AND _created_at < now() - interval '15 minutes';
+$$;
+
+CREATE OR REPLACE FUNCTION public.expire_unpaid_orders()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.orders
+  SET status = 'cancelled',
+    cancellation_reason = 'Payment was not completed in time'
+  WHERE public.is_unpaid_order_expired(status, created_at);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_unpaid_orders() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-unpaid-orders', '* * * * *', 'SELECT public.expire_unpaid_orders()');
+
+-- Expired unpaid orders stop holding their slot even before cron cancels them
+CREATE OR REPLACE FUNCTION public.get_delivery_slots()
+RETURNS TABLE (slot_start timestamptz, slot_end timestamptz, remaining integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH settings AS (
+    SELECT * FROM public.restaurant_settings
+  ),
+  days AS (
+    SELECT (now() AT TIME ZONE s.timezone)::date + offs AS day
+    FROM settings s, generate_series(0, s.schedule_days_ahead) AS offs
+  ),
+  starts AS (
+    SELECT DISTINCT local_start AT TIME ZONE s.timezone AS slot_start
+    FROM settings s
+    CROSS JOIN days d
+    JOIN public.operating_hours oh ON oh.day_of_week = extract(dow FROM d.day)
+    CROSS JOIN LATERAL generate_series(
+      d.day + oh.opens_at,
+      d.day + oh.closes_at - make_interval(mins => s.slot_minutes),
+      make_interval(mins => s.slot_minutes)
+    ) AS local_start
+    WHERE NOT EXISTS (SELECT 1 FROM public.store_holidays h WHERE h.holiday_date = d.day)
+  )
+  SELECT
+    st.slot_start,
+    st.slot_start + make_interval(mins => s.slot_minutes),
+    s.slot_capacity - (
+      SELECT count(*)::integer FROM public.orders o
+      WHERE o.scheduled_for = st.slot_start
+        AND o.status <> 'cancelled'
+        AND NOT public.is_unpaid_order_expired(o.status, o.created_at)
+    )
+  FROM starts st, settings s
+  WHERE st.slot_start >= now() + make_interval(mins => s.slot_minutes)
+  ORDER BY st.slot_start;
+$$;
+
+-- A capture on a cancelled order is refunded in full. Returns the refund for
+-- payment-webhook to send to the gateway, or NULL when there is nothing to
+-- refund.
+DROP FUNCTION public.record_payment_result(text, text, text, numeric, boolean, text);
+
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _provider text,
+  _provider_order_id text,
+  _provider_payment_id text,
+  _amount numeric,
+  _paid boolean,
+  _failure_reason text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _refund_id uuid;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE provider = _provider AND provider_order_id = _provider_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', _provider_order_id;
+  END IF;
+
+  IF _payment.status = 'paid' THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT _paid THEN
+    UPDATE public.payments
+    SET status = 'failed',
+      provider_payment_id = coalesce(_provider_payment_id, provider_payment_id),
+      failure_reason = _failure_reason
+    WHERE id = _payment.id;
+
+    UPDATE public.orders
+    SET payment_status = 'failed'
+    WHERE id = _payment.order_id AND payment_status = 'pending';
+
+    RETURN NULL;
+  END IF;
+
+  IF _amount <> _payment.amount THEN
+    RAISE EXCEPTION 'Captured % but expected % for payment %', _amount, _payment.amount, _payment.id;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'paid',
+    provider_payment_id = _provider_payment_id,
+    failure_reason = NULL
+  WHERE id = _payment.id;
+
+  -- The customer cancelled, or the order expired, before the payment came
+  -- in. Nothing is cooked, so all of it goes back.
+  IF (SELECT status FROM public.orders WHERE id = _payment.order_id) = 'cancelled' THEN
+    UPDATE public.orders
+    SET payment_status = 'paid'
+    WHERE id = _payment.order_id;
+
+    INSERT INTO public.refunds (order_id, payment_id, amount, reason)
+    VALUES (_payment.order_id, _payment.id, _payment.amount, 'Paid after the order was cancelled')
+    RETURNING id INTO _refund_id;
+
+    RETURN _refund_id;
+  END IF;
+
+  UPDATE public.orders
+  SET payment_status = 'paid',
+    status = CASE WHEN status = 'pending_payment' THEN 'placed' ELSE status END
+  WHERE id = _payment.order_id;
+
+  UPDATE public.orders
+  SET predicted_delivery_at = estimated_delivery_at
+  WHERE id = _payment.order_id AND status = 'placed';
+
+  RETURN NULL;
+END;
+$$;
+
+-- Cancelled orders are never invoiced, even when a payment comes in late
+CREATE OR REPLACE FUNCTION public.set_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_status = 'paid' AND OLD.payment_status <> 'paid' AND NEW.invoice_number IS NULL
+    AND NEW.status <> 'cancelled'
+  THEN
+    NEW.invoice_number := public.next_invoice_number();
+    NEW.invoice_date := now();
+
+    SELECT gstin, coalesce(legal_name, name), address
+    INTO NEW.seller_gstin, NEW.seller_legal_name, NEW.seller_address
+    FROM public.restaurant_settings;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_result(text, text, text, numeric, boolean, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(text, text, text, numeric, boolean, text) TO service_role;
@@ -0,0 +1,125 @@
+-- request_refund is only called by create-refund, with the id of the admin
+-- who asked for the refund. Admins could otherwise call it directly and
+-- leave a pending online refund that never reaches the gateway.
+DROP FUNCTION public.request_refund(uuid, text, jsonb, numeric);
+
+CREATE FUNCTION public.request_refund(
+  _admin_id uuid,
+  _order_id uuid,
+  _reason text,
+  _items jsonb DEFAULT '[]'::jsonb,
+  _amount numeric DEFAULT NULL
+)
+RETURNS public.refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _payment_id uuid;
+  _refundable numeric;
+  _line record;
+  _item public.order_items;
+  _already_refunded integer;
+  _items_total numeric := 0;
+  _refund_items jsonb := '[]'::jsonb;
+  _refund public.refunds;
+BEGIN
+  IF NOT public.has_role(_admin_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can issue refunds';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  SELECT _order.total - coalesce(sum(amount), 0) INTO _refundable
+  FROM public.refunds
+  WHERE order_id = _order_id AND status <> 'failed';
+
+  IF jsonb_array_length(coalesce(_items, '[]'::jsonb)) > 0 THEN
+    -- Each line is checked against what was refunded before this request,
+    -- so listing an item twice would let it be refunded twice
+    IF (SELECT count(DISTINCT item->>'order_item_id') FROM jsonb_array_elements(_items) AS item)
+      < jsonb_array_length(_items) THEN
+      RAISE EXCEPTION 'Each item can only be listed once';
+    END IF;
+
+    FOR _line IN
+      SELECT (item->>'order_item_id')::uuid AS order_item_id, (item->>'quantity')::integer AS quantity
+      FROM jsonb_array_elements(_items) AS item
+    LOOP
+      SELECT * INTO _item
+      FROM public.order_items
+      WHERE id = _line.order_item_id AND order_id = _order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item not found on this order';
+      END IF;
+
+      IF coalesce(_line.quantity, 0) < 1 THEN
+        RAISE EXCEPTION 'Quantity must be at least 1';
+      END IF;
+
+      SELECT coalesce(sum((refunded->>'quantity')::integer), 0) INTO _already_refunded
+      FROM public.refunds r, jsonb_array_elements(r.items) AS refunded
+      WHERE r.order_id = _order_id
+        AND r.status <> 'failed'
+        AND (refunded->>'order_item_id')::uuid = _item.id;
+
+      IF _already_refunded + _line.quantity > _item.quantity THEN
+        RAISE EXCEPTION 'Only % x % can still be refunded',
+          _item.quantity - _already_refunded, _item.item_title;
+      END IF;
+
+      _items_total := _items_total + (_item.taxable_value + _item.cgst + _item.sgst) * _line.quantity / _item.quantity;
+      _refund_items := _refund_items || jsonb_build_object('order_item_id', _item.id, 'quantity', _line.quantity);
+    END LOOP;
+
+    _amount := round(_items_total, 2);
+  ELSIF _amount IS NULL THEN
+    _amount := _refundable;
+  END IF;
+
+  IF _refundable <= 0 THEN
+    RAISE EXCEPTION 'This order has already been refunded in full';
+  END IF;
+
+  IF _amount <= 0 OR _amount > _refundable THEN
+    RAISE EXCEPTION 'Refund must be between ₹0.01 and ₹%', trim_scale(_refundable);
+  END IF;
+
+  IF _order.payment_method = 'online' THEN
+    SELECT id INTO _payment_id
+    FROM public.payments
+    WHERE order_id = _order_id AND status = 'paid'
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.refunds (order_id, payment_id, amount, reason, items, status, processed_at, created_by)
+  VALUES (
+    _order_id, _payment_id, _amount, trim(_reason), _refund_items,
+    CASE WHEN _payment_id IS NULL THEN 'processed'::refund_status ELSE 'pending' END,
+    CASE WHEN _payment_id IS NULL THEN now() END,
+    _admin_id
+  )
+  RETURNING * INTO _refund;
+
+  RETURN _refund;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_refund(uuid, uuid, text, jsonb, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.request_refund(uuid, uuid, text, jsonb, numeric) TO service_role;
@@ -0,0 +1,97 @@
+-- Online orders that were never paid for stop counting towards coupon
+-- limits once they expire, even before expire_unpaid_orders cancels them
+CREATE OR REPLACE FUNCTION public.price_coupon(
+  _code text,
+  _user_id uuid,
+  _items jsonb,
+  OUT coupon_id uuid,
+  OUT code text,
+  OUT description text,
+  OUT discount numeric
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _coupon public.coupons;
+  _subtotal numeric;
+  _eligible_subtotal numeric;
+  _uses integer;
+BEGIN
+  SELECT * INTO _coupon
+  FROM public.coupons c
+  WHERE c.code = upper(trim(_code)) AND c.is_active
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This promo code is not valid';
+  END IF;
+
+  IF _coupon.starts_at > now() THEN
+    RAISE EXCEPTION 'This promo code can be used from %',
+      to_char(_coupon.starts_at AT TIME ZONE (SELECT timezone FROM public.restaurant_settings), 'DD Mon YYYY');
+  END IF;
+
+  IF _coupon.ends_at <= now() THEN
+    RAISE EXCEPTION 'This promo code has expired';
+  END IF;
+
+  SELECT sum(line.price * line.quantity),
+    coalesce(sum(line.price * line.quantity) FILTER (
+      WHERE (cardinality(_coupon.categories) = 0 AND cardinality(_coupon.menu_item_ids) = 0)
+        OR m.category = ANY (_coupon.categories)
+        OR m.id = ANY (_coupon.menu_item_ids)
+    ), 0)
+  INTO _subtotal, _eligible_subtotal
+  FROM jsonb_array_elements(_items) AS item,
+    LATERAL public.price_order_line(item.value) AS line
+    JOIN public.menu_items m ON m.id = line.menu_item_id;
+
+  IF _subtotal < _coupon.min_subtotal THEN
+    RAISE EXCEPTION 'Add ₹% more to use this promo code', trim_scale(_coupon.min_subtotal - _subtotal);
+  END IF;
+
+  IF _eligible_subtotal = 0 THEN
+    RAISE EXCEPTION 'This promo code does not apply to anything in your cart';
+  END IF;
+
+  IF _coupon.first_order_only AND EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.user_id = _user_id AND o.status <> 'cancelled'
+      AND NOT public.is_unpaid_order_expired(o.status, o.created_at)
+  ) THEN
+    RAISE EXCEPTION 'This promo code is only for your first order';
+  END IF;
+
+  IF _coupon.per_user_limit IS NOT NULL THEN
+    SELECT count(*) INTO _uses
+    FROM public.orders o
+    WHERE o.coupon_id = _coupon.id AND o.user_id = _user_id AND o.status <> 'cancelled'
+      AND NOT public.is_unpaid_order_expired(o.status, o.created_at);
+
+    IF _uses >= _coupon.per_user_limit THEN
+      RAISE EXCEPTION 'You have already used this promo code';
+    END IF;
+  END IF;
+
+  IF _coupon.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO _uses
+    FROM public.orders o
+    WHERE o.coupon_id = _coupon.id AND o.status <> 'cancelled'
+      AND NOT public.is_unpaid_order_expired(o.status, o.created_at);
+
+    IF _uses >= _coupon.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has been fully redeemed';
+    END IF;
+  END IF;
+
+  discount := CASE _coupon.discount_type
+    WHEN 'percentage' THEN round(_eligible_subtotal * _coupon.discount_value / 100, 2)
+    ELSE _coupon.discount_value
+  END;
+  discount := least(discount, coalesce(_coupon.max_discount, discount), _eligible_subtotal);
+  coupon_id := _coupon.id;
+  code := _coupon.code;
+  description := _coupon.description;
+END;
+$$;
@@ -0,0 +1,233 @@
+-- What create-payment handed the browser, so a customer who retries checkout
+-- reopens the same gateway order instead of starting a second payment
+ALTER TABLE public.payments ADD COLUMN checkout jsonb;
+
+-- Earlier retries each left an attempt open; only the latest can be resumed
+UPDATE public.payments p
+SET status = 'failed',
+  failure_reason = 'Replaced by a later payment attempt'
+WHERE status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM public.payments later
+    WHERE later.order_id = p.order_id
+      AND later.status = 'pending'
+      AND (later.created_at, later.id) > (p.created_at, p.id)
+  );
+
+CREATE UNIQUE INDEX payments_one_pending_per_order_idx ON public.payments (order_id) WHERE status = 'pending';
+
+-- A capture on an order that is already paid, or was cancelled before the
+-- payment came in, is never kept: all of it goes back. Returns the refund to
+-- send to the gateway, if any.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  _provider text,
+  _provider_order_id text,
+  _provider_payment_id text,
+  _amount numeric,
+  _paid boolean,
+  _failure_reason text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _order public.orders;
+  _refund_id uuid;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE provider = _provider AND provider_order_id = _provider_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', _provider_order_id;
+  END IF;
+
+  IF _payment.status = 'paid' THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT _paid THEN
+    UPDATE public.payments
+    SET status = 'failed',
+      provider_payment_id = coalesce(_provider_payment_id, provider_payment_id),
+      failure_reason = _failure_reason
+    WHERE id = _payment.id;
+
+    UPDATE public.orders
+    SET payment_status = 'failed'
+    WHERE id = _payment.order_id AND payment_status = 'pending';
+
+    RETURN NULL;
+  END IF;
+
+  IF _amount <> _payment.amount THEN
+    RAISE EXCEPTION 'Captured % but expected % for payment %', _amount, _payment.amount, _payment.id;
+  END IF;
+
+  -- Locked so two captures for the same order can't both pay for it
+  SELECT * INTO _order FROM public.orders WHERE id = _payment.order_id FOR UPDATE;
+
+  UPDATE public.payments
+  SET status = 'paid',
+    provider_payment_id = _provider_payment_id,
+    failure_reason = NULL
+  WHERE id = _payment.id;
+
+  IF _order.payment_status = 'paid' OR _order.status = 'cancelled' THEN
+    UPDATE public.orders
+    SET payment_status = 'paid'
+    WHERE id = _order.id;
+
+    INSERT INTO public.refunds (order_id, payment_id, amount, reason)
+    VALUES (
+      _order.id, _payment.id, _payment.amount,
+      CASE WHEN _order.payment_status = 'paid'
+        THEN 'The order was already paid for'
+        ELSE 'Paid after the order was cancelled'
+      END
+    )
+    RETURNING id INTO _refund_id;
+
+    RETURN _refund_id;
+  END IF;
+
+  UPDATE public.orders
+  SET payment_status = 'paid',
+    status = CASE WHEN status = 'pending_payment' THEN 'placed' ELSE status END
+  WHERE id = _order.id;
+
+  UPDATE public.orders
+  SET predicted_delivery_at = estimated_delivery_at
+  WHERE id = _order.id AND status = 'placed';
+
+  RETURN NULL;
+END;
+$$;
+
+-- Each online refund comes out of a single captured payment. An order paid
+-- more than once is refunded from whichever payment has the most left, so a
+-- duplicate payment that was already returned doesn't use up the order.
+CREATE OR REPLACE FUNCTION public.request_refund(
+  _admin_id uuid,
+  _order_id uuid,
+  _reason text,
+  _items jsonb DEFAULT '[]'::jsonb,
+  _amount numeric DEFAULT NULL
+)
+RETURNS public.refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _payment_id uuid;
+  _refundable numeric;
+  _line record;
+  _item public.order_items;
+  _already_refunded integer;
+  _items_total numeric := 0;
+  _refund_items jsonb := '[]'::jsonb;
+  _refund public.refunds;
+BEGIN
+  IF NOT public.has_role(_admin_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can issue refunds';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  IF _order.payment_method = 'online' THEN
+    SELECT p.id, p.amount - coalesce(sum(r.amount), 0)
+    INTO _payment_id, _refundable
+    FROM public.payments p
+    LEFT JOIN public.refunds r ON r.payment_id = p.id AND r.status <> 'failed'
+    WHERE p.order_id = _order_id AND p.status = 'paid'
+    GROUP BY p.id
+    ORDER BY 2 DESC, p.created_at DESC
+    LIMIT 1;
+  ELSE
+    SELECT _order.total - coalesce(sum(amount), 0) INTO _refundable
+    FROM public.refunds
+    WHERE order_id = _order_id AND status <> 'failed';
+  END IF;
+
+  IF jsonb_array_length(coalesce(_items, '[]'::jsonb)) > 0 THEN
+    -- Each line is checked against what was refunded before this request,
+    -- so listing an item twice would let it be refunded twice
+    IF (SELECT count(DISTINCT item->>'order_item_id') FROM jsonb_array_elements(_items) AS item)
+      < jsonb_array_length(_items) THEN
+      RAISE EXCEPTION 'Each item can only be listed once';
+    END IF;
+
+    FOR _line IN
+      SELECT (item->>'order_item_id')::uuid AS order_item_id, (item->>'quantity')::integer AS quantity
+      FROM jsonb_array_elements(_items) AS item
+    LOOP
+      SELECT * INTO _item
+      FROM public.order_items
+      WHERE id = _line.order_item_id AND order_id = _order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item not found on this order';
+      END IF;
+
+      IF coalesce(_line.quantity, 0) < 1 THEN
+        RAISE EXCEPTION 'Quantity must be at least 1';
+      END IF;
+
+      SELECT coalesce(sum((refunded->>'quantity')::integer), 0) INTO _already_refunded
+      FROM public.refunds r, jsonb_array_elements(r.items) AS refunded
+      WHERE r.order_id = _order_id
+        AND r.status <> 'failed'
+        AND (refunded->>'order_item_id')::uuid = _item.id;
+
+      IF _already_refunded + _line.quantity > _item.quantity THEN
+        RAISE EXCEPTION 'Only % x % can still be refunded',
+          _item.quantity - _already_refunded, _item.item_title;
+      END IF;
+
+      _items_total := _items_total + (_item.taxable_value + _item.cgst + _item.sgst) * _line.quantity / _item.quantity;
+      _refund_items := _refund_items || jsonb_build_object('order_item_id', _item.id, 'quantity', _line.quantity);
+    END LOOP;
+
+    _amount := round(_items_total, 2);
+  ELSIF _amount IS NULL THEN
+    _amount := _refundable;
+  END IF;
+
+  IF coalesce(_refundable, 0) <= 0 THEN
+    RAISE EXCEPTION 'This order has already been refunded in full';
+  END IF;
+
+  IF _amount <= 0 OR _amount > _refundable THEN
+    RAISE EXCEPTION 'Refund must be between ₹0.01 and ₹%', trim_scale(_refundable);
+  END IF;
+
+  INSERT INTO public.refunds (order_id, payment_id, amount, reason, items, status, processed_at, created_by)
+  VALUES (
+    _order_id, _payment_id, _amount, trim(_reason), _refund_items,
+    CASE WHEN _payment_id IS NULL THEN 'processed'::refund_status ELSE 'pending' END,
+    CASE WHEN _payment_id IS NULL THEN now() END,
+    _admin_id
+  )
+  RETURNING * INTO _refund;
+
+  RETURN _refund;
+END;
+$$;
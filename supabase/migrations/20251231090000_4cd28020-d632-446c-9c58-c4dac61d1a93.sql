@@ -0,0 +1,7 @@
+-- Cash on delivery orders are created already placed, so no status change
+-- announces them; send their "Order placed" push when they are inserted
+CREATE TRIGGER notify_order_placed_push
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'placed')
+  EXECUTE FUNCTION public.notify_order_status_push();
@@ -0,0 +1,50 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'customer@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'other@example.com');
+
+INSERT INTO public.addresses (id, user_id, label, address_line, latitude, longitude)
+VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-000000000001', 'Home', '12 Some Street, Anna Nagar', 13.12, 80.21);
+
+INSERT INTO public.menu_items (id, title, price, category)
+VALUES ('00000000-0000-0000-0000-0000000000d1', 'Filter Coffee', 100, 'Beverages');
+
+INSERT INTO public.coupons (id, code, discount_type, discount_value, usage_limit, first_order_only)
+VALUES ('00000000-0000-0000-0000-0000000000e1', 'WELCOME', 'flat', 10, 1, true);
+
+-- The customer used the coupon on an online order and never paid for it
+INSERT INTO public.orders (id, user_id, address_id, status, payment_method, subtotal, discount, coupon_id, tax, delivery_fee, total, distance_km, created_at)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 'pending_payment', 'online', 100, 10, '00000000-0000-0000-0000-0000000000e1', 5, 0, 95, 1, now() - interval '20 minutes');
+
+SELECT is(
+  (SELECT discount FROM public.price_coupon('WELCOME', '00000000-0000-0000-0000-000000000001', '[{"menu_item_id": "00000000-0000-0000-0000-0000000000d1", "quantity": 1}]')),
+  10.00::numeric,
+  'Expired unpaid orders do not count as a first order'
+);
+
+SELECT is(
+  (SELECT discount FROM public.price_coupon('WELCOME', '00000000-0000-0000-0000-000000000002', '[{"menu_item_id": "00000000-0000-0000-0000-0000000000d1", "quantity": 1}]')),
+  10.00::numeric,
+  'Expired unpaid orders do not use up the coupon'
+);
+
+-- While the customer is still paying, the coupon stays taken
+UPDATE public.orders SET created_at = now() - interval '5 minutes';
+
+SELECT throws_ok(
+  $$SELECT public.price_coupon('WELCOME', '00000000-0000-0000-0000-000000000001', '[{"menu_item_id": "00000000-0000-0000-0000-0000000000d1", "quantity": 1}]')$$,
+  'This promo code is only for your first order',
+  'Orders being paid for count as a first order'
+);
+
+SELECT throws_ok(
+  $$SELECT public.price_coupon('WELCOME', '00000000-0000-0000-0000-000000000002', '[{"menu_item_id": "00000000-0000-0000-0000-0000000000d1", "quantity": 1}]')$$,
+  'This promo code has been fully redeemed',
+  'Orders being paid for use up the coupon'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,61 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-0000-0000-000000000001', 'customer@example.com');
+
+UPDATE public.operating_hours SET opens_at = '00:00', closes_at = '24:00';
+
+INSERT INTO public.menu_items (id, title, price, category) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', 'Filter Coffee', 100, 'Beverages'),
+  ('00000000-0000-0000-0000-0000000000d2', 'Masala Tea', 100, 'Beverages'),
+  ('00000000-0000-0000-0000-0000000000d3', 'Badam Milk', 100, 'Beverages'),
+  ('00000000-0000-0000-0000-0000000000d4', 'Water', 0, 'Beverages');
+
+INSERT INTO public.coupons (code, discount_type, discount_value)
+VALUES ('TENOFF', 'flat', 10);
+
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000001", "role": "authenticated"}';
+
+-- ₹10 off ₹300 leaves 96.666... of taxable value on each line
+SELECT lives_ok(
+  $$SELECT public.place_order(
+    _items => '[{"menu_item_id": "00000000-0000-0000-0000-0000000000d1", "quantity": 1}, {"menu_item_id": "00000000-0000-0000-0000-0000000000d2", "quantity": 1}, {"menu_item_id": "00000000-0000-0000-0000-0000000000d3", "quantity": 1}]',
+    _address => '{"label": "Home", "address_line": "12 Some Street, Anna Nagar", "latitude": 13.12, "longitude": 80.21}',
+    _coupon_code => 'TENOFF'
+  )$$,
+  'Orders with a discount are placed'
+);
+
+SELECT lives_ok(
+  $$SELECT public.place_order(
+    _items => '[{"menu_item_id": "00000000-0000-0000-0000-0000000000d4", "quantity": 1}]',
+    _address => '{"label": "Home", "address_line": "12 Some Street, Anna Nagar", "latitude": 13.12, "longitude": 80.21}'
+  )$$,
+  'Orders of only free items are placed'
+);
+
+RESET role;
+
+SELECT is(
+  (SELECT sum(oi.taxable_value) FROM public.order_items oi JOIN public.orders o ON o.id = oi.order_id WHERE o.coupon_code = 'TENOFF'),
+  290.00::numeric,
+  'Taxable values add up to the discounted subtotal'
+);
+
+SELECT is(
+  (SELECT oi.taxable_value FROM public.order_items oi WHERE oi.menu_item_id = '00000000-0000-0000-0000-0000000000d3'),
+  96.66::numeric,
+  'The last line takes the rounding remainder'
+);
+
+SELECT is(
+  (SELECT o.tax FROM public.orders o WHERE o.subtotal = 0),
+  0.00::numeric,
+  'Free items are not taxed'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
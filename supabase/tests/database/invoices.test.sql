@@ -0,0 +1,48 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(4);
+
+SELECT is(
+  public.next_invoice_number('2026-06-01 12:00+05:30'),
+  'INV/26-27/00001',
+  'Invoice numbers are padded to five digits'
+);
+
+UPDATE public.invoice_sequences SET last_number = 99999 WHERE financial_year = '26-27';
+
+SELECT is(
+  public.next_invoice_number('2026-06-01 12:00+05:30'),
+  'INV/26-27/100000',
+  'Longer invoice numbers are kept whole'
+);
+
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-0000-0000-000000000001', 'customer@example.com');
+
+INSERT INTO public.addresses (id, user_id, label, address_line, latitude, longitude)
+VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-000000000001', 'Home', '12 Some Street, Anna Nagar', 13.12, 80.21);
+
+INSERT INTO public.orders (id, user_id, address_id, status, payment_method, subtotal, tax, delivery_fee, total, distance_km)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 'placed', 'cod', 100, 5, 0, 105, 1);
+
+UPDATE public.restaurant_settings
+SET gstin = '33AAAAA0000A1Z5', legal_name = 'FriendHome Foods LLP', address = '1 Old Street, Chennai';
+
+UPDATE public.orders SET payment_status = 'paid' WHERE id = '00000000-0000-0000-0000-0000000000b1';
+
+SELECT is(
+  (SELECT seller_legal_name || ', ' || seller_address || ', ' || seller_gstin FROM public.orders WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  'FriendHome Foods LLP, 1 Old Street, Chennai, 33AAAAA0000A1Z5',
+  'The seller is stored on the order when it is invoiced'
+);
+
+UPDATE public.restaurant_settings SET legal_name = 'FriendHome Restaurants Pvt Ltd', address = '2 New Street, Chennai';
+
+SELECT is(
+  (SELECT seller_legal_name || ', ' || seller_address FROM public.orders WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  'FriendHome Foods LLP, 1 Old Street, Chennai',
+  'Later settings changes leave issued invoices alone'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
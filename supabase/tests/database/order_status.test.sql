@@ -0,0 +1,41 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'customer@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'admin@example.com');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('00000000-0000-0000-0000-000000000002', 'admin');
+
+INSERT INTO public.addresses (id, user_id, label, address_line, latitude, longitude)
+VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-000000000001', 'Home', '12 Some Street, Anna Nagar', 13.12, 80.21);
+
+INSERT INTO public.orders (id, user_id, address_id, status, subtotal, tax, delivery_fee, total, distance_km)
+VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 'placed', 100, 5, 0, 105, 1),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 'placed', 100, 5, 0, 105, 1);
+
+-- The dashboard, cancel dialog and kitchen display update orders directly as the admin
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000002", "role": "authenticated"}';
+
+SELECT lives_ok(
+  $$UPDATE public.orders SET status = 'preparing' WHERE id = '00000000-0000-0000-0000-0000000000b1'$$,
+  'Admins can move a placed order to preparing'
+);
+
+SELECT lives_ok(
+  $$UPDATE public.orders SET status = 'cancelled', cancellation_reason = 'Items out of stock' WHERE id = '00000000-0000-0000-0000-0000000000b2'$$,
+  'Admins can cancel a placed order'
+);
+
+SELECT is(
+  (SELECT status FROM public.orders WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  'preparing'::public.order_status,
+  'The order is now preparing'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,120 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(13);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'customer@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'admin@example.com');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('00000000-0000-0000-0000-000000000002', 'admin');
+
+INSERT INTO public.addresses (id, user_id, label, address_line, latitude, longitude)
+VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-000000000001', 'Home', '12 Some Street, Anna Nagar', 13.12, 80.21);
+
+INSERT INTO public.orders (id, user_id, address_id, status, payment_method, subtotal, tax, delivery_fee, total, distance_km, created_at)
+VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 'pending_payment', 'online', 100, 5, 0, 105, 1, now()),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 'pending_payment', 'online', 100, 5, 0, 105, 1, now() - interval '20 minutes');
+
+INSERT INTO public.payments (id, order_id, provider, provider_order_id, amount)
+VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1', 'mock', 'mock_order_1', 105);
+
+-- The customer gives up while the gateway is still taking the payment
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000001", "role": "authenticated"}';
+SELECT lives_ok(
+  $$SELECT public.cancel_order('00000000-0000-0000-0000-0000000000b1', 'Ordered by mistake')$$,
+  'Customers can cancel an order they have not paid for'
+);
+RESET role;
+
+SELECT ok(
+  public.record_payment_result('mock', 'mock_order_1', 'mock_pay_1', 105, true) IS NOT NULL,
+  'A capture on a cancelled order returns a refund to send'
+);
+
+SELECT is(
+  (SELECT amount FROM public.refunds WHERE order_id = '00000000-0000-0000-0000-0000000000b1' AND status = 'pending'),
+  105.00::numeric,
+  'The whole payment is refunded'
+);
+
+SELECT is(
+  (SELECT status::text || '/' || payment_status::text FROM public.orders WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  'cancelled/paid',
+  'The order stays cancelled'
+);
+
+SELECT is(
+  (SELECT invoice_number FROM public.orders WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  NULL,
+  'Cancelled orders are not invoiced'
+);
+
+SELECT lives_ok(
+  $$SELECT public.expire_unpaid_orders()$$,
+  'Unpaid orders expire'
+);
+
+SELECT is(
+  (SELECT status FROM public.orders WHERE id = '00000000-0000-0000-0000-0000000000b2'),
+  'cancelled'::public.order_status,
+  'Orders left unpaid for 15 minutes are cancelled'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.orders WHERE status = 'pending_payment'),
+  0::bigint,
+  'Nothing else is left waiting for payment'
+);
+
+-- The customer pays twice: once on a checkout they had abandoned, once on
+-- the one that replaced it
+INSERT INTO public.orders (id, user_id, address_id, status, payment_method, subtotal, tax, delivery_fee, total, distance_km)
+VALUES ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 'pending_payment', 'online', 100, 5, 0, 105, 1);
+
+INSERT INTO public.payments (id, order_id, provider, provider_order_id, amount, status, created_at)
+VALUES
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000b3', 'mock', 'mock_order_2', 105, 'failed', now() - interval '5 minutes'),
+  ('00000000-0000-0000-0000-0000000000c3', '00000000-0000-0000-0000-0000000000b3', 'mock', 'mock_order_3', 105, 'pending', now());
+
+SELECT throws_ok(
+  $$INSERT INTO public.payments (order_id, provider, provider_order_id, amount)
+    VALUES ('00000000-0000-0000-0000-0000000000b3', 'mock', 'mock_order_4', 105)$$,
+  '23505',
+  NULL,
+  'An order has one payment open at a time'
+);
+
+SELECT is(
+  public.record_payment_result('mock', 'mock_order_3', 'mock_pay_3', 105, true),
+  NULL,
+  'The first capture pays for the order'
+);
+
+SELECT ok(
+  public.record_payment_result('mock', 'mock_order_2', 'mock_pay_2', 105, true) IS NOT NULL,
+  'A second capture for a paid order returns a refund to send'
+);
+
+SELECT is(
+  (SELECT amount FROM public.refunds WHERE payment_id = '00000000-0000-0000-0000-0000000000c2'),
+  105.00::numeric,
+  'The second payment is refunded in full'
+);
+
+SET LOCAL role service_role;
+SELECT is(
+  (SELECT payment_id FROM public.request_refund(
+    '00000000-0000-0000-0000-000000000002',
+    '00000000-0000-0000-0000-0000000000b3',
+    'Cold coffee'
+  )),
+  '00000000-0000-0000-0000-0000000000c3'::uuid,
+  'Refunds come out of the payment that was kept'
+);
+RESET role;
+
+SELECT * FROM finish();
+ROLLBACK;
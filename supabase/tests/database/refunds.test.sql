@@ -0,0 +1,86 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'customer@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'admin@example.com');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('00000000-0000-0000-0000-000000000002', 'admin');
+
+UPDATE public.operating_hours SET opens_at = '00:00', closes_at = '24:00';
+
+INSERT INTO public.menu_items (id, title, price, category)
+VALUES ('00000000-0000-0000-0000-0000000000d1', 'Filter Coffee', 100, 'Beverages');
+
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000001", "role": "authenticated"}';
+SELECT lives_ok(
+  $$SELECT public.place_order(
+    _items => '[{"menu_item_id": "00000000-0000-0000-0000-0000000000d1", "quantity": 1}]',
+    _address => '{"label": "Home", "address_line": "12 Some Street, Anna Nagar", "latitude": 13.12, "longitude": 80.21}'
+  )$$,
+  'The customer orders one coffee'
+);
+RESET role;
+
+INSERT INTO public.payments (order_id, provider, provider_order_id, amount, status)
+SELECT id, 'mock', 'mock_order_1', total, 'paid' FROM public.orders;
+
+UPDATE public.orders SET payment_status = 'paid';
+
+-- Admins refund through create-refund, which checks who is asking
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000002", "role": "authenticated"}';
+SELECT throws_ok(
+  $$SELECT public.request_refund(
+    '00000000-0000-0000-0000-000000000002',
+    (SELECT id FROM public.orders),
+    'Cold coffee'
+  )$$,
+  '42501',
+  NULL,
+  'Admins cannot call request_refund directly'
+);
+RESET role;
+
+SET LOCAL role service_role;
+SELECT throws_ok(
+  $$SELECT public.request_refund(
+    '00000000-0000-0000-0000-000000000001',
+    (SELECT id FROM public.orders),
+    'Cold coffee'
+  )$$,
+  'Only admins can issue refunds',
+  'Customers cannot refund their own orders'
+);
+
+SELECT throws_ok(
+  $$SELECT public.request_refund(
+    '00000000-0000-0000-0000-000000000002',
+    (SELECT id FROM public.orders),
+    'Cold coffee',
+    (SELECT jsonb_build_array(
+      jsonb_build_object('order_item_id', id, 'quantity', 1),
+      jsonb_build_object('order_item_id', id, 'quantity', 1)
+    ) FROM public.order_items)
+  )$$,
+  'Each item can only be listed once',
+  'An item cannot be refunded twice in one request'
+);
+
+SELECT is(
+  (SELECT created_by FROM public.request_refund(
+    '00000000-0000-0000-0000-000000000002',
+    (SELECT id FROM public.orders),
+    'Cold coffee',
+    (SELECT jsonb_build_array(jsonb_build_object('order_item_id', id, 'quantity', 1)) FROM public.order_items)
+  )),
+  '00000000-0000-0000-0000-000000000002'::uuid,
+  'The refund records which admin issued it'
+);
+RESET role;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,42 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'admin@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'staff@example.com');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('00000000-0000-0000-0000-000000000001', 'admin');
+
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000000001", "role": "authenticated"}';
+
+SELECT lives_ok(
+  $$INSERT INTO public.user_roles (user_id, role) VALUES ('00000000-0000-0000-0000-000000000002', 'rider')$$,
+  'Admins can make someone a rider'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.user_roles (user_id, role) VALUES ('00000000-0000-0000-0000-000000000002', 'admin')$$,
+  '42501',
+  NULL,
+  'Admins cannot make someone an admin'
+);
+
+-- Row level security hides rows from a DELETE rather than raising
+SELECT lives_ok(
+  $$DELETE FROM public.user_roles$$,
+  'Admins can clear roles'
+);
+
+RESET role;
+
+SELECT is(
+  (SELECT array_agg(role::text) FROM public.user_roles),
+  ARRAY['admin'],
+  'Only the rider role was taken away'
+);
+
+SELECT * FROM finish();
+ROLLBACK;